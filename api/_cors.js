@@ -0,0 +1,29 @@
+// CORS for the read-only proxies, so the embeddable widget can call them from partner pages.
+// EMBED_ALLOWED_ORIGINS is a comma-separated allowlist; when it is unset any origin may read, which
+// matches what the proxies serve (public market, poll, FRED and news data). Files starting with `_`
+// are not deployed as functions.
+function allowedOrigins() {
+  return String(process.env.EMBED_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+/** Sets the CORS headers and answers preflights. Returns true when the request has been handled. */
+export function applyCors(req, res) {
+  const origin = req.headers.origin;
+  const allowed = allowedOrigins();
+  if (origin && (allowed.length === 0 || allowed.includes(origin))) {
+    res.setHeader('access-control-allow-origin', allowed.length === 0 ? '*' : origin);
+    if (allowed.length > 0) res.setHeader('vary', 'origin');
+    // Cross-site callers only read; writes through the proxies stay same-origin.
+    res.setHeader('access-control-allow-methods', 'GET, HEAD, OPTIONS');
+    res.setHeader('access-control-allow-headers', req.headers['access-control-request-headers'] || 'accept');
+    res.setHeader('access-control-max-age', '86400');
+  }
+  if (req.method === 'OPTIONS') {
+    res.status(204).send('');
+    return true;
+  }
+  return false;
+}
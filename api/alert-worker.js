@@ -0,0 +1,368 @@
+// Scheduled alert worker (see `crons` in vercel.json). Reads alert rules from a JSON store, pulls each
+// market's candlesticks from the Kalshi trade API, evaluates the rules with the same semantics as the
+// in-browser alerts (src/alerts.ts) and POSTs triggered alerts to webhooks.
+//
+// A "JSON store" is either a file path or an http(s) URL: files are read and written in place, URLs
+// are read with GET and written with PUT (any JSON blob service or a pre-signed object URL works).
+//
+//   ALERT_RULES_STORE   rules document (required)
+//   ALERT_STATE_STORE   dedupe/cooldown state, default <tmpdir>/kalshi-alert-state.json. Serverless
+//                       /tmp does not survive cold starts, so a production deployment refuses to run
+//                       without it, and every other run without it reports a warning in its summary.
+//   ALERT_WEBHOOK_URLS  comma-separated webhooks used by rules that do not list their own
+//   KALSHI_API_BASE     default https://api.elections.kalshi.com
+//   CRON_SECRET         when set, requests must carry `Authorization: Bearer <secret>` (Vercel Cron does);
+//                       when unset, anyone can trigger a pass
+import { readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const DEFAULT_KALSHI_BASE = 'https://api.elections.kalshi.com';
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const DEFAULT_PERIOD_MINUTES = 60;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const TMP_STATE_STORE = join(tmpdir(), 'kalshi-alert-state.json');
+
+function isUrl(location) {
+  return /^https?:\/\//i.test(location);
+}
+
+async function readJsonStore(location, fallback) {
+  if (isUrl(location)) {
+    const response = await fetch(location, { headers: { accept: 'application/json' } });
+    if (response.status === 404) return fallback;
+    if (!response.ok) throw new Error(`Reading ${location} failed: ${response.status} ${response.statusText}`);
+    const text = await response.text();
+    return text.trim() ? JSON.parse(text) : fallback;
+  }
+  try {
+    return JSON.parse(await readFile(location, 'utf8'));
+  } catch (error) {
+    if (error?.code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+async function writeJsonStore(location, value) {
+  const body = JSON.stringify(value, null, 2);
+  if (isUrl(location)) {
+    const response = await fetch(location, { method: 'PUT', headers: { 'content-type': 'application/json' }, body });
+    if (!response.ok) throw new Error(`Writing ${location} failed: ${response.status} ${response.statusText}`);
+    return;
+  }
+  await writeFile(location, body);
+}
+
+function splitList(value) {
+  return String(value || '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/** Accepts a bare array of rules or `{ webhooks, cooldownMinutes, rules }`. */
+function normalizeRulesDocument(doc, envWebhooks) {
+  const root = Array.isArray(doc) ? { rules: doc } : doc && typeof doc === 'object' ? doc : {};
+  const webhooks = Array.isArray(root.webhooks) && root.webhooks.length > 0 ? root.webhooks : envWebhooks;
+  const cooldownMinutes = Number(root.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES);
+  return (Array.isArray(root.rules) ? root.rules : [])
+    .filter((rule) => rule && typeof rule.id === 'string' && typeof rule.ticker === 'string' && rule.enabled !== false)
+    .map((rule) => ({
+      direction: 'either',
+      periodMinutes: DEFAULT_PERIOD_MINUTES,
+      cooldownMinutes,
+      ...rule,
+      ticker: rule.ticker.toUpperCase(),
+      webhooks: Array.isArray(rule.webhooks) && rule.webhooks.length > 0 ? rule.webhooks : webhooks,
+    }));
+}
+
+function parseDollar(value) {
+  if (value == null) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function readClose(field) {
+  if (!field) return null;
+  return parseDollar(field.close_dollars) ?? (typeof field.close === 'number' ? field.close / 100 : null);
+}
+
+// Last trade first, then the bid/ask midpoint, matching the chart's `last` price source fallbacks.
+function toBars(data) {
+  return (data?.candlesticks || [])
+    .map((c) => {
+      if (typeof c.end_period_ts !== 'number') return null;
+      const bid = readClose(c.yes_bid);
+      const ask = readClose(c.yes_ask);
+      const close = readClose(c.price) ?? (bid != null && ask != null ? (bid + ask) / 2 : (bid ?? ask));
+      if (close == null) return null;
+      return { timestamp: c.end_period_ts * 1000, close, updates: c.volume ?? Number(c.volume_fp ?? 0) };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function inferSeriesTicker(ticker) {
+  const firstDash = ticker.indexOf('-');
+  return firstDash > 0 ? ticker.slice(0, firstDash) : null;
+}
+
+// Enough bars for the widest rule on this market: the move window or volume lookback plus slack.
+function historyMs(rules) {
+  return Math.max(
+    ...rules.map((rule) => {
+      const periodMs = rule.periodMinutes * 60_000;
+      const windowMs = (rule.windowMinutes ?? 0) * 60_000;
+      const lookbackMs = (rule.lookbackBars ?? 1) * periodMs;
+      return Math.max(windowMs, lookbackMs) + 3 * periodMs;
+    })
+  );
+}
+
+async function fetchBars(kalshiBase, ticker, seriesTicker, periodMinutes, spanMs, nowMs) {
+  const url = new URL(
+    `${kalshiBase}/trade-api/v2/series/${encodeURIComponent(seriesTicker)}/markets/${encodeURIComponent(
+      ticker
+    )}/candlesticks`
+  );
+  url.searchParams.set('start_ts', String(Math.floor((nowMs - spanMs) / 1000)));
+  url.searchParams.set('end_ts', String(Math.floor(nowMs / 1000)));
+  url.searchParams.set('period_interval', String(periodMinutes));
+  url.searchParams.set('include_latest_before_start', 'true');
+  const response = await fetch(url, {
+    headers: {
+      accept: 'application/json',
+      'user-agent': 'Mozilla/5.0 (compatible; MidtermMarketsAlertWorker/1.0; +https://vercel.com)',
+    },
+  });
+  if (!response.ok) throw new Error(`Candlesticks for ${ticker} failed: ${response.status} ${response.statusText}`);
+  return toBars(await response.json());
+}
+
+function formatCents(value) {
+  return `${Number(value.toFixed(1))}¢`;
+}
+
+function matchesDirection(direction, change) {
+  if (direction === 'up') return change > 0;
+  if (direction === 'down') return change < 0;
+  return change !== 0;
+}
+
+/** Same rules as `evaluateAlertRule` in src/alerts.ts; returns `{ barTs, value, message }` or null. */
+export function evaluateRule(rule, bars) {
+  if (bars.length < 2) return null;
+  const latest = bars[bars.length - 1];
+  const previous = bars[bars.length - 2];
+
+  switch (rule.kind) {
+    case 'cross': {
+      if (typeof rule.level !== 'number') return null;
+      const before = previous.close * 100;
+      const now = latest.close * 100;
+      const crossedUp = before < rule.level && now >= rule.level;
+      const crossedDown = before > rule.level && now <= rule.level;
+      if (!(crossedUp && rule.direction !== 'down') && !(crossedDown && rule.direction !== 'up')) return null;
+      return {
+        barTs: latest.timestamp,
+        value: now,
+        message: `${rule.ticker} crossed ${crossedUp ? 'above' : 'below'} ${formatCents(rule.level)} (now ${formatCents(
+          now
+        )})`,
+      };
+    }
+    case 'move': {
+      if (typeof rule.percent !== 'number' || typeof rule.windowMinutes !== 'number') return null;
+      const cutoff = latest.timestamp - rule.windowMinutes * 60_000;
+      const reference = [...bars].reverse().find((b) => b.timestamp <= cutoff);
+      if (!reference || reference.close <= 0) return null;
+      const change = ((latest.close - reference.close) / reference.close) * 100;
+      if (Math.abs(change) < rule.percent || !matchesDirection(rule.direction, change)) return null;
+      const sign = change >= 0 ? '+' : '';
+      const prices = `${formatCents(reference.close * 100)} → ${formatCents(latest.close * 100)}`;
+      return {
+        barTs: latest.timestamp,
+        value: change,
+        message: `${rule.ticker} moved ${sign}${change.toFixed(1)}% in ${rule.windowMinutes}m (${prices})`,
+      };
+    }
+    case 'volume': {
+      if (typeof rule.multiple !== 'number' || typeof rule.lookbackBars !== 'number') return null;
+      const window = bars.slice(-(rule.lookbackBars + 1), -1);
+      if (window.length === 0) return null;
+      const average = window.reduce((acc, b) => acc + b.updates, 0) / window.length;
+      if (latest.updates < rule.multiple * Math.max(average, 1)) return null;
+      return {
+        barTs: latest.timestamp,
+        value: latest.updates,
+        message: `${rule.ticker} volume spike: ${latest.updates.toLocaleString()} vs ${average.toFixed(0)} average`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+async function postWebhook(url, payload) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'idempotency-key': payload.id },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * POSTs `entry.payload` to each webhook in `entry.delivered` that has not accepted it yet and marks the
+ * ones that do. Returns the failures as `url: reason` strings.
+ */
+async function deliverPending(entry) {
+  const targets = Object.keys(entry.delivered).filter((url) => !entry.delivered[url]);
+  const results = await Promise.allSettled(targets.map((url) => postWebhook(url, entry.payload)));
+  const failed = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') entry.delivered[targets[i]] = true;
+    else failed.push(`${targets[i]}: ${result.reason?.message}`);
+  });
+  return failed;
+}
+
+function hasPending(entry) {
+  return Boolean(entry?.payload && entry.delivered && Object.values(entry.delivered).some((ok) => !ok));
+}
+
+/**
+ * One pass over every rule. An alert is raised once per rule and bar (dedupe) and at most once per
+ * `cooldownMinutes` per rule. Delivery is tracked per webhook: a bar is marked handled on the first
+ * attempt, and webhooks that failed are retried on later runs with the stored payload, whether or not
+ * the condition still holds, without POSTing again to the ones that already accepted it.
+ */
+export async function runAlertWorker({
+  rulesStore = process.env.ALERT_RULES_STORE,
+  stateStore = process.env.ALERT_STATE_STORE,
+  webhooks = splitList(process.env.ALERT_WEBHOOK_URLS),
+  kalshiBase = process.env.KALSHI_API_BASE || DEFAULT_KALSHI_BASE,
+  now = Date.now(),
+} = {}) {
+  if (!rulesStore) throw new Error('ALERT_RULES_STORE is not configured.');
+  // Losing the state silently would re-send every alert and ignore cooldowns after each cold start.
+  if (!stateStore && process.env.VERCEL_ENV === 'production') {
+    throw new Error('ALERT_STATE_STORE is not configured; /tmp does not keep alert state between runs.');
+  }
+  const stateLocation = stateStore || TMP_STATE_STORE;
+  const rules = normalizeRulesDocument(await readJsonStore(rulesStore, []), webhooks);
+  const state = await readJsonStore(stateLocation, {});
+  const summary = {
+    rules: rules.length,
+    evaluated: 0,
+    triggered: [],
+    retried: [],
+    skipped: [],
+    errors: [],
+    warnings: stateStore
+      ? []
+      : [`ALERT_STATE_STORE is not set; state is kept in ${TMP_STATE_STORE} and is lost on restart.`],
+  };
+  let stateChanged = false;
+
+  for (const rule of rules) {
+    const entry = state[rule.id];
+    if (!hasPending(entry)) continue;
+    const failed = await deliverPending(entry);
+    stateChanged = true;
+    if (failed.length > 0) summary.errors.push({ ruleId: rule.id, error: `Retry failed: ${failed.join('; ')}` });
+    else summary.retried.push({ ruleId: rule.id, message: entry.payload.message });
+  }
+
+  const groups = new Map();
+  for (const rule of rules) {
+    const key = `${rule.ticker}|${rule.periodMinutes}`;
+    groups.set(key, [...(groups.get(key) ?? []), rule]);
+  }
+
+  for (const group of groups.values()) {
+    const { ticker, periodMinutes } = group[0];
+    const seriesTicker = group.find((r) => r.seriesTicker)?.seriesTicker || inferSeriesTicker(ticker);
+    let bars;
+    try {
+      if (!seriesTicker) throw new Error(`Cannot infer the series of ${ticker}; set seriesTicker on the rule.`);
+      bars = await fetchBars(kalshiBase, ticker, seriesTicker, periodMinutes, historyMs(group), now);
+    } catch (error) {
+      summary.errors.push({ ticker, error: String(error?.message || error) });
+      continue;
+    }
+
+    for (const rule of group) {
+      summary.evaluated += 1;
+      const hit = evaluateRule(rule, bars);
+      if (!hit) continue;
+      const previous = state[rule.id] ?? {};
+      if (previous.lastBarTs != null && hit.barTs <= previous.lastBarTs) {
+        summary.skipped.push({ ruleId: rule.id, reason: 'duplicate' });
+        continue;
+      }
+      if (previous.lastFiredAt != null && now - previous.lastFiredAt < rule.cooldownMinutes * 60_000) {
+        summary.skipped.push({ ruleId: rule.id, reason: 'cooldown' });
+        continue;
+      }
+      if (rule.webhooks.length === 0) {
+        summary.errors.push({ ruleId: rule.id, error: 'No webhook configured.' });
+        continue;
+      }
+
+      const payload = {
+        id: `${rule.id}:${hit.barTs}`,
+        ruleId: rule.id,
+        ticker: rule.ticker,
+        kind: rule.kind,
+        barTs: new Date(hit.barTs).toISOString(),
+        firedAt: new Date(now).toISOString(),
+        value: hit.value,
+        message: hit.message,
+        // Lets Slack and Discord-style incoming webhooks render the alert without a custom integration.
+        text: hit.message,
+        content: hit.message,
+      };
+      if (hasPending(previous)) {
+        summary.errors.push({ ruleId: rule.id, error: `Undelivered alert ${previous.payload.id} superseded.` });
+      }
+      const entry = {
+        lastBarTs: hit.barTs,
+        lastFiredAt: now,
+        payload,
+        delivered: Object.fromEntries(rule.webhooks.map((url) => [url, false])),
+      };
+      state[rule.id] = entry;
+      stateChanged = true;
+      const failed = await deliverPending(entry);
+      if (failed.length > 0) summary.errors.push({ ruleId: rule.id, error: failed.join('; ') });
+      summary.triggered.push({ ruleId: rule.id, message: hit.message });
+    }
+  }
+
+  if (stateChanged) await writeJsonStore(stateLocation, state);
+  return summary;
+}
+
+export default async function handler(req, res) {
+  const secret = process.env.CRON_SECRET;
+  res.setHeader('content-type', 'application/json');
+  res.setHeader('cache-control', 'no-store');
+  if (secret && req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).send(JSON.stringify({ error: 'Unauthorized.' }));
+  }
+  try {
+    const summary = await runAlertWorker();
+    return res.status(200).send(JSON.stringify(summary));
+  } catch (error) {
+    return res.status(500).send(JSON.stringify({ error: String(error?.message || error) }));
+  }
+}
@@ -1,3 +1,5 @@
+import { applyCors } from './_cors.js';
+
 function buildTargetUrl(base, rawPath, query) {
   const cleanPath = String(rawPath || '')
     .split('/')
@@ -18,6 +20,7 @@ function buildTargetUrl(base, rawPath, query) {
 }
 
 export default async function handler(req, res) {
+  if (applyCors(req, res)) return;
   const url = buildTargetUrl('https://civicapi.org', req.query?.path, req.query);
   const headers = {};
   if (req.headers.accept) headers.accept = req.headers.accept;
@@ -1,3 +1,5 @@
+import { applyCors } from './_cors.js';
+
 function buildTargetUrl(base, rawPath, query) {
   const cleanPath = String(rawPath || '')
     .split('/')
@@ -18,6 +20,7 @@ function buildTargetUrl(base, rawPath, query) {
 }
 
 export default async function handler(req, res) {
+  if (applyCors(req, res)) return;
   const url = buildTargetUrl('https://api.stlouisfed.org', req.query?.path, req.query);
   if (!url.searchParams.get('api_key') && process.env.FRED_API_KEY) {
     url.searchParams.set('api_key', process.env.FRED_API_KEY);
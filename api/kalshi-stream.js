@@ -0,0 +1,129 @@
+import { createSign, constants } from 'node:crypto';
+import WebSocket from 'ws';
+import { applyCors } from './_cors.js';
+
+const DEFAULT_WS_URL = 'wss://api.elections.kalshi.com/trade-api/ws/v2';
+const WS_SIGN_PATH = '/trade-api/ws/v2';
+const RELAY_MAX_MS = Number(process.env.STREAM_RELAY_MAX_MS || 55_000);
+const HEARTBEAT_MS = 15_000;
+
+function parseTickers(query) {
+  const raw = Array.isArray(query?.tickers) ? query.tickers.join(',') : String(query?.tickers || '');
+  return Array.from(
+    new Set(
+      raw
+        .split(',')
+        .map((t) => t.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  ).slice(0, 25);
+}
+
+function buildAuthHeaders() {
+  const keyId = process.env.KALSHI_API_KEY_ID;
+  const privateKey = process.env.KALSHI_PRIVATE_KEY;
+  if (!keyId || !privateKey) return {};
+
+  const timestamp = String(Date.now());
+  const signer = createSign('RSA-SHA256');
+  signer.update(`${timestamp}GET${WS_SIGN_PATH}`);
+  signer.end();
+  const signature = signer.sign({
+    key: privateKey.replace(/\\n/g, '\n'),
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+  });
+
+  return {
+    'KALSHI-ACCESS-KEY': keyId,
+    'KALSHI-ACCESS-SIGNATURE': signature.toString('base64'),
+    'KALSHI-ACCESS-TIMESTAMP': timestamp,
+  };
+}
+
+function writeEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export default function handler(req, res) {
+  if (applyCors(req, res)) return;
+  const tickers = parseTickers(req.query);
+  if (tickers.length === 0) {
+    res.setHeader('content-type', 'application/json');
+    return res.status(400).send(JSON.stringify({ error: 'Missing tickers query parameter.' }));
+  }
+
+  const wsUrl = process.env.KALSHI_WS_URL || DEFAULT_WS_URL;
+  const headers = buildAuthHeaders();
+  if (wsUrl === DEFAULT_WS_URL && !headers['KALSHI-ACCESS-KEY']) {
+    res.setHeader('content-type', 'application/json');
+    return res
+      .status(503)
+      .send(JSON.stringify({ error: 'Streaming relay is not configured (KALSHI_API_KEY_ID / KALSHI_PRIVATE_KEY).' }));
+  }
+
+  res.setHeader('content-type', 'text/event-stream');
+  res.setHeader('cache-control', 'no-store');
+  res.setHeader('connection', 'keep-alive');
+  res.setHeader('x-accel-buffering', 'no');
+  res.status(200);
+  // Ask EventSource to reconnect quickly once this invocation hits its time budget.
+  res.write('retry: 1000\n\n');
+
+  const upstream = new WebSocket(wsUrl, { headers });
+  let closed = false;
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': keep-alive\n\n');
+  }, HEARTBEAT_MS);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    clearTimeout(budget);
+    if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+      upstream.terminate();
+    }
+    res.end();
+  };
+
+  const budget = setTimeout(() => {
+    if (!closed) writeEvent(res, 'status', { state: 'recycle' });
+    close();
+  }, RELAY_MAX_MS);
+
+  upstream.on('open', () => {
+    upstream.send(
+      JSON.stringify({
+        id: 1,
+        cmd: 'subscribe',
+        params: { channels: ['ticker', 'trade'], market_tickers: tickers },
+      })
+    );
+    writeEvent(res, 'status', { state: 'open', tickers });
+  });
+
+  upstream.on('message', (raw) => {
+    if (closed) return;
+    let message;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+    if (message?.type === 'ticker' || message?.type === 'trade') {
+      writeEvent(res, message.type, message.msg);
+    } else if (message?.type === 'error') {
+      writeEvent(res, 'status', { state: 'error', message: message.msg?.msg || 'Upstream error' });
+    }
+  });
+
+  upstream.on('error', (error) => {
+    if (!closed) writeEvent(res, 'status', { state: 'error', message: error.message });
+    close();
+  });
+
+  upstream.on('close', close);
+  req.on('close', close);
+}
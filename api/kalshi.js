@@ -1,3 +1,5 @@
+import { applyCors } from './_cors.js';
+
 function buildTargetUrl(base, rawPath, query) {
   const cleanPath = String(rawPath || '')
     .split('/')
@@ -18,6 +20,7 @@ function buildTargetUrl(base, rawPath, query) {
 }
 
 export default async function handler(req, res) {
+  if (applyCors(req, res)) return;
   const url = buildTargetUrl('https://api.elections.kalshi.com', req.query?.path, req.query);
   const headers = {
     accept: 'application/json, text/plain;q=0.9, */*;q=0.8',
@@ -1,3 +1,5 @@
+import { applyCors } from '../_cors.js';
+
 function buildTargetUrl(base, pathParam, query) {
   const rawParts = Array.isArray(pathParam)
     ? pathParam
@@ -22,6 +24,7 @@ function buildTargetUrl(base, pathParam, query) {
 }
 
 export default async function handler(req, res) {
+  if (applyCors(req, res)) return;
   const url = buildTargetUrl('https://news.google.com', req.query?.path, req.query);
   const headers = {};
   if (req.headers.accept) headers.accept = req.headers.accept;
@@ -0,0 +1,92 @@
+// Offline stand-in for Kalshi's market data WebSocket. Speaks just enough of the v2 protocol
+// (subscribe -> subscribed, then `ticker` and `trade` messages) to drive api/kalshi-stream.js.
+//
+//   npm run stream:fake
+//   KALSHI_WS_URL=ws://localhost:8790 npm run api:local
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.FAKE_STREAM_PORT || 8790);
+const tickMs = Number(process.env.FAKE_STREAM_TICK_MS || 1500);
+const prices = new Map();
+
+function nextPrice(ticker) {
+  const prev = prices.get(ticker) ?? 40 + Math.round(Math.random() * 20);
+  const step = Math.round((Math.random() - 0.5) * 4);
+  const next = Math.max(1, Math.min(99, prev + step));
+  prices.set(ticker, next);
+  return next;
+}
+
+const wss = new WebSocketServer({ port });
+
+wss.on('connection', (socket) => {
+  let sid = 0;
+  let seq = 0;
+  let timer = null;
+
+  socket.on('message', (raw) => {
+    let command;
+    try {
+      command = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+    if (command?.cmd !== 'subscribe') return;
+
+    const tickers = command.params?.market_tickers || [];
+    for (const channel of command.params?.channels || []) {
+      sid += 1;
+      socket.send(JSON.stringify({ id: command.id, type: 'subscribed', msg: { channel, sid } }));
+    }
+
+    clearInterval(timer);
+    timer = setInterval(() => {
+      const ts = Math.floor(Date.now() / 1000);
+      for (const ticker of tickers) {
+        const price = nextPrice(ticker);
+        const spread = 1 + Math.round(Math.random());
+        seq += 1;
+        socket.send(
+          JSON.stringify({
+            type: 'ticker',
+            sid: 1,
+            seq,
+            msg: {
+              market_ticker: ticker,
+              price,
+              yes_bid: Math.max(1, price - spread),
+              yes_ask: Math.min(99, price + spread),
+              price_dollars: (price / 100).toFixed(2),
+              volume: 100_000 + seq * 7,
+              open_interest: 50_000,
+              ts,
+            },
+          })
+        );
+        if (Math.random() < 0.7) {
+          seq += 1;
+          socket.send(
+            JSON.stringify({
+              type: 'trade',
+              sid: 2,
+              seq,
+              msg: {
+                trade_id: `fake-${seq}`,
+                market_ticker: ticker,
+                yes_price: price,
+                no_price: 100 - price,
+                count: 1 + Math.floor(Math.random() * 250),
+                taker_side: Math.random() < 0.5 ? 'yes' : 'no',
+                ts,
+              },
+            })
+          );
+        }
+      }
+    }, tickMs);
+  });
+
+  socket.on('close', () => clearInterval(timer));
+});
+
+console.log(`[fake-kalshi-stream] listening on ws://localhost:${port}`);
@@ -0,0 +1,48 @@
+// Offline stand-in for a Slack/Discord/custom webhook, for exercising api/alert-worker.js.
+// Prints every POSTed alert and drops repeats of the same `Idempotency-Key`, like a careful receiver.
+//
+//   npm run webhook:fake
+//   ALERT_WEBHOOK_URLS=http://localhost:8791/hook npm run alerts:run
+//
+// FAKE_WEBHOOK_FAIL_RATE=0.5 answers half the requests with a 500 to exercise retries.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.FAKE_WEBHOOK_PORT || 8791);
+const failRate = Number(process.env.FAKE_WEBHOOK_FAIL_RATE || 0);
+const seen = new Set();
+
+const server = createServer(async (req, res) => {
+  if (req.method !== 'POST') {
+    res.statusCode = 405;
+    return res.end('POST only');
+  }
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString('utf8');
+
+  if (Math.random() < failRate) {
+    console.log(`[fake-webhook] ${req.url} -> simulated 500`);
+    res.statusCode = 500;
+    return res.end('simulated failure');
+  }
+
+  const key = req.headers['idempotency-key'];
+  if (key && seen.has(key)) {
+    console.log(`[fake-webhook] ${req.url} duplicate ${key} ignored`);
+  } else {
+    if (key) seen.add(key);
+    let payload = raw;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      // Not JSON; print it as-is.
+    }
+    console.log(`[fake-webhook] ${req.url}`, payload);
+  }
+  res.statusCode = 204;
+  res.end();
+});
+
+server.listen(port, () => {
+  console.log(`[fake-webhook] listening on http://localhost:${port}`);
+});
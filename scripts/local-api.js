@@ -0,0 +1,80 @@
+// Serves the Vercel functions in api/ from a plain Node HTTP server so they can be exercised
+// without the Vercel CLI. Mirrors the `/api/<name>/<rest>` -> `/api/<name>?path=<rest>` rewrites
+// from vercel.json and adds the small `res.status().send()` surface the handlers use.
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const apiDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'api');
+const port = Number(process.env.LOCAL_API_PORT || 3001);
+
+function toQuery(searchParams) {
+  const query = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  return query;
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return undefined;
+  if (String(req.headers['content-type'] || '').includes('application/json')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+function decorate(res) {
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.send = (body) => {
+    res.end(body);
+    return res;
+  };
+  res.json = (body) => {
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(body));
+    return res;
+  };
+  return res;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const match = url.pathname.match(/^\/api\/([\w-]+)(?:\/(.*))?$/);
+  // Like Vercel, files starting with `_` are helpers rather than functions.
+  const file = match && !match[1].startsWith('_') ? join(apiDir, `${match[1]}.js`) : null;
+  if (!file || !existsSync(file)) {
+    res.statusCode = 404;
+    return res.end('Not found');
+  }
+
+  const query = toQuery(url.searchParams);
+  if (match[2]) query.path = match[2];
+  req.query = query;
+  req.body = await readBody(req);
+
+  try {
+    const { default: handler } = await import(pathToFileURL(file).href);
+    await handler(req, decorate(res));
+  } catch (error) {
+    console.error(`[local-api] ${url.pathname} failed:`, error);
+    if (!res.headersSent) res.statusCode = 500;
+    res.end(String(error?.message || error));
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[local-api] serving ${apiDir} on http://localhost:${port}/api/*`);
+});
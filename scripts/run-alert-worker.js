@@ -0,0 +1,31 @@
+// Runs api/alert-worker.js outside Vercel, once or on an interval, and prints each pass's summary.
+//
+//   npm run alerts:run                       # one pass with scripts/alert-rules.example.json
+//   npm run alerts:run -- --interval 60      # every 60 seconds until Ctrl+C
+//
+// Set ALERT_RULES_STORE / ALERT_STATE_STORE / ALERT_WEBHOOK_URLS to override the defaults below; without
+// ALERT_STATE_STORE the state goes to the OS temp directory.
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { runAlertWorker } from '../api/alert-worker.js';
+
+const scriptsDir = dirname(fileURLToPath(import.meta.url));
+const rulesStore = process.env.ALERT_RULES_STORE || join(scriptsDir, 'alert-rules.example.json');
+const flag = process.argv.indexOf('--interval');
+const intervalSec = flag >= 0 ? Number(process.argv[flag + 1]) : 0;
+
+async function pass() {
+  try {
+    const summary = await runAlertWorker({ rulesStore });
+    console.log(`[alert-worker] ${new Date().toISOString()}`, JSON.stringify(summary, null, 2));
+  } catch (error) {
+    console.error('[alert-worker] pass failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+await pass();
+if (intervalSec > 0) {
+  console.log(`[alert-worker] running every ${intervalSec}s, Ctrl+C to stop`);
+  setInterval(pass, intervalSec * 1000);
+}
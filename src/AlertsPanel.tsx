@@ -0,0 +1,328 @@
+import { useState } from 'react';
+import {
+  ALERT_BAR_MINUTES,
+  clearAlertLog,
+  createAlertId,
+  deleteAlertRule,
+  describeAlertRule,
+  saveAlertRule,
+  useAlertLog,
+  useAlertRules,
+  type AlertDirection,
+  type AlertKind,
+  type AlertRule,
+} from './alerts';
+
+export type AlertTarget = {
+  ticker: string;
+  label: string;
+  /** False while the overlay is hidden; rules are only checked for markets shown on the chart. */
+  loaded: boolean;
+};
+
+const fieldStyle = {
+  border: '1px solid rgba(71,85,105,0.8)',
+  borderRadius: 6,
+  padding: '3px 6px',
+  fontSize: 11,
+  color: '#e2e8f0',
+  background: 'rgba(2,6,23,0.85)',
+  minWidth: 0,
+} as const;
+
+const labelStyle = { display: 'inline-flex', alignItems: 'center', gap: 4, color: '#94a3b8', fontSize: 11 } as const;
+
+const KIND_LABELS: Record<AlertKind, string> = {
+  cross: 'Price crosses level',
+  move: '% move within window',
+  volume: 'Volume spike',
+};
+
+function notificationPermission(): NotificationPermission | 'unsupported' {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+export default function AlertsPanel({ targets }: { targets: AlertTarget[] }) {
+  const rules = useAlertRules();
+  const log = useAlertLog();
+  const [permission, setPermission] = useState(notificationPermission);
+  const [ticker, setTicker] = useState(targets[0]?.ticker ?? '');
+  const [kind, setKind] = useState<AlertKind>('cross');
+  const [direction, setDirection] = useState<AlertDirection>('either');
+  const [levelDraft, setLevelDraft] = useState('50');
+  const [percentDraft, setPercentDraft] = useState('10');
+  const [windowDraft, setWindowDraft] = useState('60');
+  const [multipleDraft, setMultipleDraft] = useState('3');
+  const [lookbackDraft, setLookbackDraft] = useState('20');
+
+  const activeTicker = targets.some((t) => t.ticker === ticker) ? ticker : (targets[0]?.ticker ?? '');
+  const targetTickers = new Set(targets.map((t) => t.ticker));
+  const chartRules = rules.filter((r) => targetTickers.has(r.ticker));
+  const otherRuleCount = rules.length - chartRules.length;
+  const chartLog = log.filter((e) => targetTickers.has(e.ticker));
+
+  const addRule = () => {
+    if (!activeTicker) return;
+    const rule: AlertRule = {
+      id: createAlertId(),
+      ticker: activeTicker,
+      kind,
+      direction,
+      enabled: true,
+      createdAt: Date.now(),
+    };
+    if (kind === 'cross') {
+      const level = Number(levelDraft);
+      if (!Number.isFinite(level) || level <= 0 || level >= 100) return;
+      rule.level = level;
+    } else if (kind === 'move') {
+      const percent = Number(percentDraft);
+      const windowMinutes = Math.round(Number(windowDraft));
+      if (!(percent > 0) || !(windowMinutes > 0)) return;
+      rule.percent = percent;
+      rule.windowMinutes = windowMinutes;
+    } else {
+      const multiple = Number(multipleDraft);
+      const lookbackBars = Math.round(Number(lookbackDraft));
+      if (!(multiple > 1) || !(lookbackBars >= 2)) return;
+      rule.multiple = multiple;
+      rule.lookbackBars = lookbackBars;
+    }
+    saveAlertRule(rule);
+    // Asking on the click that creates the first rule keeps the prompt tied to a user gesture.
+    if (permission === 'default') {
+      void Notification.requestPermission().then(setPermission);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        PRICE ALERTS
+      </div>
+      {permission !== 'granted' && (
+        <div style={{ color: '#fcd34d', fontSize: 11, marginBottom: 6 }}>
+          {permission === 'unsupported'
+            ? 'This browser has no notifications; alerts only go to the log below.'
+            : permission === 'denied'
+              ? 'Notifications are blocked for this site; alerts only go to the log below.'
+              : 'Notifications are off until you allow them.'}
+          {permission === 'default' && (
+            <button
+              type="button"
+              onClick={() => void Notification.requestPermission().then(setPermission)}
+              style={{ ...fieldStyle, marginLeft: 6, cursor: 'pointer', fontWeight: 700 }}
+            >
+              Allow
+            </button>
+          )}
+        </div>
+      )}
+      <div style={{ display: 'grid', gap: 6 }}>
+        <div style={{ display: 'flex', gap: 6 }}>
+          <select value={activeTicker} onChange={(e) => setTicker(e.target.value)} style={{ ...fieldStyle, flex: 1 }}>
+            {targets.map((t) => (
+              <option key={t.ticker} value={t.ticker}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertKind)}
+            style={{ ...fieldStyle, flex: 1 }}
+          >
+            {(Object.keys(KIND_LABELS) as AlertKind[]).map((k) => (
+              <option key={k} value={k}>
+                {KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap' }}>
+          {kind !== 'volume' && (
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as AlertDirection)}
+              style={fieldStyle}
+            >
+              <option value="either">{kind === 'cross' ? 'Either way' : 'Up or down'}</option>
+              <option value="up">{kind === 'cross' ? 'Above' : 'Up'}</option>
+              <option value="down">{kind === 'cross' ? 'Below' : 'Down'}</option>
+            </select>
+          )}
+          {kind === 'cross' && (
+            <label style={labelStyle}>
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={levelDraft}
+                onChange={(e) => setLevelDraft(e.target.value)}
+                style={{ ...fieldStyle, width: 52 }}
+              />
+              ¢
+            </label>
+          )}
+          {kind === 'move' && (
+            <>
+              <label style={labelStyle}>
+                <input
+                  type="number"
+                  min={0}
+                  value={percentDraft}
+                  onChange={(e) => setPercentDraft(e.target.value)}
+                  style={{ ...fieldStyle, width: 48 }}
+                />
+                % in
+              </label>
+              <label style={labelStyle}>
+                <input
+                  type="number"
+                  min={1}
+                  value={windowDraft}
+                  onChange={(e) => setWindowDraft(e.target.value)}
+                  style={{ ...fieldStyle, width: 52 }}
+                />
+                min
+              </label>
+            </>
+          )}
+          {kind === 'volume' && (
+            <>
+              <label style={labelStyle}>
+                <input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={multipleDraft}
+                  onChange={(e) => setMultipleDraft(e.target.value)}
+                  style={{ ...fieldStyle, width: 48 }}
+                />
+                × avg of
+              </label>
+              <label style={labelStyle}>
+                <input
+                  type="number"
+                  min={2}
+                  value={lookbackDraft}
+                  onChange={(e) => setLookbackDraft(e.target.value)}
+                  style={{ ...fieldStyle, width: 48 }}
+                />
+                {ALERT_BAR_MINUTES}m bars
+              </label>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={addRule}
+            disabled={!activeTicker}
+            style={{
+              border: '1px solid rgba(56,189,248,0.8)',
+              borderRadius: 7,
+              padding: '4px 9px',
+              fontSize: 12,
+              fontWeight: 700,
+              color: '#e0f2fe',
+              background: 'linear-gradient(180deg,#0284c7,#0369a1)',
+              cursor: 'pointer',
+              marginLeft: 'auto',
+            }}
+          >
+            Add Alert
+          </button>
+        </div>
+      </div>
+
+      <div style={{ marginTop: 8 }}>
+        {chartRules.length === 0 ? (
+          <div style={{ color: '#94a3b8', fontSize: 12 }}>No alerts on the markets in this chart.</div>
+        ) : (
+          chartRules.map((rule) => {
+            const target = targets.find((t) => t.ticker === rule.ticker);
+            return (
+              <div
+                key={rule.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 6,
+                  padding: '4px 2px',
+                  borderBottom: '1px solid rgba(71,85,105,0.2)',
+                  fontSize: 11,
+                  color: rule.enabled ? '#e2e8f0' : '#64748b',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => saveAlertRule({ ...rule, enabled: e.target.checked })}
+                />
+                <span style={{ flex: 1 }}>
+                  {describeAlertRule(rule)}
+                  {rule.enabled && target && !target.loaded && (
+                    <span style={{ color: '#fcd34d' }}> · overlay hidden, not checked</span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => deleteAlertRule(rule.id)}
+                  style={{
+                    border: '1px solid rgba(248,113,113,0.7)',
+                    borderRadius: 6,
+                    background: 'rgba(127,29,29,0.45)',
+                    color: '#fecaca',
+                    fontSize: 11,
+                    fontWeight: 700,
+                    padding: '1px 6px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Remove
+                </button>
+              </div>
+            );
+          })
+        )}
+        {otherRuleCount > 0 && (
+          <div style={{ color: '#64748b', fontSize: 10, marginTop: 4 }}>
+            {otherRuleCount} more alert{otherRuleCount === 1 ? '' : 's'} on markets not in this chart.
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', marginTop: 10, marginBottom: 4 }}>
+        <span style={{ color: '#94a3b8', fontSize: 10, fontWeight: 700, letterSpacing: 0.3, flex: 1 }}>ALERT LOG</span>
+        {chartLog.length > 0 && (
+          <button type="button" onClick={clearAlertLog} style={{ ...fieldStyle, cursor: 'pointer', fontWeight: 700 }}>
+            Clear
+          </button>
+        )}
+      </div>
+      <div style={{ maxHeight: 200, overflowY: 'auto' }}>
+        {chartLog.length === 0 ? (
+          <div style={{ color: '#64748b', fontSize: 11 }}>Nothing has fired yet.</div>
+        ) : (
+          chartLog.map((event) => (
+            <div
+              key={event.id}
+              style={{ padding: '3px 2px', borderBottom: '1px solid rgba(71,85,105,0.2)', fontSize: 11 }}
+            >
+              <span style={{ color: '#64748b', fontVariantNumeric: 'tabular-nums' }}>
+                {new Date(event.firedAt).toLocaleString()}
+              </span>
+              <div style={{ color: '#e2e8f0' }}>{event.message}</div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
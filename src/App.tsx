@@ -1,25 +1,40 @@
-﻿import KalshiMarketPriceChart from './KalshiMarketPriceChart';
+﻿import { useMemo, useState } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import Dashboard, { PAGE_BACKGROUND } from './Dashboard';
+import EmbedPage from './EmbedPage';
+import EventPage from './EventPage';
+import Link from './Link';
+import MarketPage from './MarketPage';
+import { createKalshiClient } from './kalshiClient';
+import { matchRoute, useLocation } from './router';
 
 export default function App() {
   const apiBaseUrl = `${window.location.origin}/api/kalshi/trade-api/v2`;
+  const [queryClient] = useState(() => new QueryClient());
+  const client = useMemo(() => createKalshiClient({ baseUrl: apiBaseUrl }), [apiBaseUrl]);
+  const { pathname, search } = useLocation();
+  const route = matchRoute(pathname);
 
   return (
-    <div style={{ width: '100vw', height: '100vh', margin: 0, background: '#f8fafc' }}>
-      <div style={{ width: '100%', height: '100%' }}>
-      <KalshiMarketPriceChart
-        marketId="CONTROLH-2026-D"
-        seriesTicker="CONTROLH"
-        marketTitle="Will Democrats Win the U.S. House in 2026?"
-        projectionSeriesTicker="KXDHOUSESEATS"
-        projectionEventTicker="KXDHOUSESEATS-27"
-        projectionLabel="Expected Dem Seats Market"
-        controlsMarketId="CONTROLS-2026-D"
-        controlsSeriesTicker="CONTROLS"
-        controlsLabel="Democrats Control Senate Market"
-        apiBaseUrl={apiBaseUrl}
-        showVolume
-      />
+    <QueryClientProvider client={queryClient}>
+      <div style={{ width: '100vw', minHeight: '100vh', margin: 0, background: '#f8fafc' }}>
+        {route.name === 'dashboard' ? (
+          <Dashboard client={client} />
+        ) : route.name === 'market' ? (
+          <MarketPage client={client} apiBaseUrl={apiBaseUrl} ticker={route.ticker} />
+        ) : route.name === 'event' ? (
+          <EventPage client={client} eventTicker={route.eventTicker} />
+        ) : route.name === 'embed' ? (
+          <EmbedPage search={search} />
+        ) : (
+          <div style={{ minHeight: '100vh', background: PAGE_BACKGROUND, padding: 18, color: '#cbd5e1' }}>
+            <div style={{ fontSize: 16, fontWeight: 700, marginBottom: 8 }}>No page at {route.pathname}</div>
+            <Link to="/" style={{ color: '#7dd3fc', fontSize: 12, fontWeight: 700 }}>
+              ← All markets
+            </Link>
+          </div>
+        )}
       </div>
-    </div>
+    </QueryClientProvider>
   );
 }
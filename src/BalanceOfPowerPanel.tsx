@@ -0,0 +1,187 @@
+import { useMemo } from 'react';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Chart as ReactChart } from 'react-chartjs-2';
+import type { ControlMatrix, ControlMatrixPoint } from './balanceOfPower';
+
+const PARTY_COLORS = { D: 'rgba(37, 99, 235, 0.55)', R: 'rgba(220, 38, 38, 0.5)', split: 'rgba(168, 85, 247, 0.35)' };
+
+function formatCell(p: number): string {
+  return `${(p * 100).toFixed(1)}%`;
+}
+
+function formatCorrelation(value: number | null): string {
+  return value == null ? '--' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+export default function BalanceOfPowerPanel({
+  firstChamber,
+  secondChamber,
+  series,
+  loading,
+  error,
+}: {
+  /** Chamber of the charted market; rows of the matrix. */
+  firstChamber: string;
+  /** Chamber of the controls market; columns of the matrix. */
+  secondChamber: string;
+  series: ControlMatrixPoint[];
+  loading: boolean;
+  error: boolean;
+}) {
+  const latest = series.length > 0 ? series[series.length - 1].matrix : null;
+  const correlated = useMemo(() => series.filter((p) => p.matrix.source === 'combo'), [series]);
+  const firstCorrelation = correlated.find((p) => p.matrix.correlation != null)?.matrix.correlation ?? null;
+  const lastCorrelation = latest?.source === 'combo' ? latest.correlation : null;
+
+  const data = useMemo<ChartData<'line'>>(
+    () => ({
+      datasets: [
+        {
+          label: 'Implied correlation',
+          data: correlated.map((p) => ({ x: p.timestamp, y: p.matrix.correlation })),
+          borderColor: '#c084fc',
+          borderWidth: 1.8,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          tension: 0.2,
+          spanGaps: true,
+        },
+      ],
+    }),
+    [correlated]
+  );
+
+  const options = useMemo<ChartOptions<'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: { duration: 0 },
+      interaction: { mode: 'nearest', axis: 'x', intersect: false },
+      plugins: {
+        legend: { display: false },
+        tooltip: { callbacks: { label: (item) => `φ = ${formatCorrelation(Number(item.parsed.y))}` } },
+        lineGlow: { blur: 8, alpha: 0.5, colorsByLabel: { 'Implied correlation': '#c084fc' } },
+      } as ChartOptions<'line'>['plugins'],
+      scales: {
+        x: {
+          type: 'time',
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, maxRotation: 0, autoSkip: true },
+        },
+        y: {
+          min: -1,
+          max: 1,
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, stepSize: 0.5 },
+        },
+      },
+    }),
+    []
+  );
+
+  const cell = (matrix: ControlMatrix, key: 'dd' | 'dr' | 'rd' | 'rr', background: string) => (
+    <td
+      style={{
+        background,
+        textAlign: 'center',
+        padding: '8px 4px',
+        fontSize: 15,
+        fontWeight: 800,
+        color: '#f8fafc',
+        fontVariantNumeric: 'tabular-nums',
+        border: '1px solid rgba(15,23,42,0.8)',
+      }}
+    >
+      {formatCell(matrix[key])}
+    </td>
+  );
+  const headStyle = { color: '#94a3b8', fontSize: 10, fontWeight: 700, padding: '2px 4px' } as const;
+  const marginStyle = { ...headStyle, color: '#64748b', fontVariantNumeric: 'tabular-nums' } as const;
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        BALANCE OF POWER · {firstChamber.toUpperCase()} × {secondChamber.toUpperCase()}
+      </div>
+      {!latest ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>
+          {loading
+            ? 'Loading both chambers...'
+            : error
+              ? 'Could not load the chamber markets.'
+              : 'No overlapping prices for the two chambers in this window.'}
+        </div>
+      ) : (
+        <>
+          <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+            <thead>
+              <tr>
+                <th style={{ ...headStyle, textAlign: 'left' }}>
+                  {firstChamber} ↓ / {secondChamber} →
+                </th>
+                <th style={headStyle}>D</th>
+                <th style={headStyle}>R</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <th style={{ ...headStyle, textAlign: 'left' }}>D</th>
+                {cell(latest, 'dd', PARTY_COLORS.D)}
+                {cell(latest, 'dr', PARTY_COLORS.split)}
+                <td style={marginStyle}>{formatCell(latest.dd + latest.dr)}</td>
+              </tr>
+              <tr>
+                <th style={{ ...headStyle, textAlign: 'left' }}>R</th>
+                {cell(latest, 'rd', PARTY_COLORS.split)}
+                {cell(latest, 'rr', PARTY_COLORS.R)}
+                <td style={marginStyle}>{formatCell(latest.rd + latest.rr)}</td>
+              </tr>
+              <tr>
+                <th />
+                <td style={{ ...marginStyle, textAlign: 'center' }}>{formatCell(latest.dd + latest.rd)}</td>
+                <td style={{ ...marginStyle, textAlign: 'center' }}>{formatCell(latest.dr + latest.rr)}</td>
+                <td />
+              </tr>
+            </tbody>
+          </table>
+          <div style={{ color: '#64748b', fontSize: 10, marginTop: 4 }}>
+            {latest.source === 'combo'
+              ? 'D/D from the combo market; the other cells follow from each chamber.'
+              : 'No combo price: cells assume the chambers are independent.'}
+            {latest.clamped ? ' The combo price was outside what the two chambers allow and was clamped.' : ''}
+          </div>
+
+          <div style={{ color: '#94a3b8', fontSize: 10, fontWeight: 700, letterSpacing: 0.3, marginTop: 10 }}>
+            IMPLIED CORRELATION
+            <span style={{ color: '#c084fc', marginLeft: 8, fontVariantNumeric: 'tabular-nums' }}>
+              {formatCorrelation(lastCorrelation)}
+            </span>
+            {firstCorrelation != null && lastCorrelation != null && (
+              <span style={{ color: '#64748b', marginLeft: 6, fontWeight: 600 }}>
+                ({lastCorrelation - firstCorrelation >= 0 ? '+' : ''}
+                {(lastCorrelation - firstCorrelation).toFixed(2)} since {formatCorrelation(firstCorrelation)})
+              </span>
+            )}
+          </div>
+          {correlated.length === 0 ? (
+            <div style={{ color: '#94a3b8', fontSize: 12, marginTop: 4 }}>
+              Needs a combo market: the two chambers alone say nothing about how they move together.
+            </div>
+          ) : (
+            <div style={{ height: 110 }}>
+              <ReactChart type="line" data={data} options={options} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
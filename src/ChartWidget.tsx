@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import KalshiMarketPriceChart from './KalshiMarketPriceChart';
+import { serializeChartViewState, type ChartViewState } from './chartViewState';
+import type { EmbedEvent, EmbedOptions } from './embed';
+import { createKalshiClient } from './kalshiClient';
+import { useMarketChartProps } from './useMarketChartProps';
+
+type ChartWidgetProps = {
+  options: EmbedOptions;
+  onEvent: (event: EmbedEvent) => void;
+  /** Deployment whose `/api/*` proxies the chart calls; defaults to the page's own origin. */
+  apiOrigin?: string;
+};
+
+function WidgetContent({ options, onEvent, apiOrigin = window.location.origin }: ChartWidgetProps) {
+  const { ticker, theme, view } = options;
+  const apiBaseUrl = `${apiOrigin}/api/kalshi/trade-api/v2`;
+  const client = useMemo(() => createKalshiClient({ baseUrl: apiBaseUrl }), [apiBaseUrl]);
+  const { chartProps, marketQuery } = useMarketChartProps(client, ticker);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const ready = chartProps != null;
+  useEffect(() => {
+    if (ready) onEventRef.current({ type: 'ready', ticker });
+  }, [ready, ticker]);
+
+  const errorMessage = !ticker
+    ? 'No ticker given; add ?ticker=... to the embed URL.'
+    : marketQuery.isError
+      ? (marketQuery.error as Error)?.message || `Could not load ${ticker}.`
+      : null;
+  useEffect(() => {
+    if (errorMessage) onEventRef.current({ type: 'error', message: errorMessage });
+  }, [errorMessage]);
+
+  const onViewChange = useCallback(
+    (next: ChartViewState) =>
+      onEventRef.current({ type: 'view', ticker, timeframe: next.timeframe, overlays: next.overlays }),
+    [ticker]
+  );
+  const onPriceChange = useCallback(
+    (update: { probability: number; timestamp: number }) => onEventRef.current({ type: 'price', ticker, ...update }),
+    [ticker]
+  );
+
+  return (
+    <div style={{ width: '100%', height: options.height ?? '100%', background: theme.background }}>
+      {chartProps ? (
+        <KalshiMarketPriceChart
+          // The chart only reads its view on mount, so a new view from the host starts it over.
+          key={`${ticker}${serializeChartViewState(view)}`}
+          {...chartProps}
+          apiBaseUrl={apiBaseUrl}
+          apiOrigin={apiOrigin}
+          layout="compact"
+          theme={theme}
+          initialView={view}
+          onViewChange={onViewChange}
+          onPriceChange={onPriceChange}
+        />
+      ) : (
+        <div
+          style={{ padding: 12, color: theme.mutedText, fontSize: 12, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}
+        >
+          {errorMessage ?? `Loading ${ticker}...`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** The compact chart behind both the `/embed` iframe route and the `<kalshi-chart>` element. */
+export default function ChartWidget(props: ChartWidgetProps) {
+  const [queryClient] = useState(() => new QueryClient());
+  return (
+    <QueryClientProvider client={queryClient}>
+      <WidgetContent {...props} />
+    </QueryClientProvider>
+  );
+}
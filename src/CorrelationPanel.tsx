@@ -0,0 +1,306 @@
+import { useMemo, useState } from 'react';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Chart as ReactChart } from 'react-chartjs-2';
+import {
+  alignToGrid,
+  correlationMatrix,
+  crossCorrelation,
+  rollingCorrelation,
+  strongestLag,
+  toChanges,
+} from './correlation';
+import type { SeriesPoint } from './indicators';
+
+const MAX_LAG_BARS = 12;
+const DEFAULT_ROLLING_WINDOW = 24;
+
+const fieldStyle = {
+  border: '1px solid rgba(71,85,105,0.8)',
+  borderRadius: 6,
+  padding: '3px 6px',
+  fontSize: 11,
+  color: '#e2e8f0',
+  background: 'rgba(2,6,23,0.85)',
+  minWidth: 0,
+} as const;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+  const days = hours / 24;
+  return `${Number.isInteger(days) ? days : days.toFixed(1)}d`;
+}
+
+function cellColor(value: number | null): string {
+  if (value == null) return 'rgba(51,65,85,0.35)';
+  const alpha = 0.15 + Math.min(1, Math.abs(value)) * 0.55;
+  return value >= 0 ? `rgba(34,197,94,${alpha})` : `rgba(239,68,68,${alpha})`;
+}
+
+function shortLabel(label: string): string {
+  return label.length > 12 ? `${label.slice(0, 11)}…` : label;
+}
+
+export default function CorrelationPanel({
+  series,
+  grid,
+  periodMs,
+}: {
+  series: Array<{ id: string; label: string; points: SeriesPoint[] }>;
+  /** Bar timestamps of the main market; every series is resampled onto them. */
+  grid: number[];
+  periodMs: number;
+}) {
+  const [leaderId, setLeaderId] = useState<string | null>(null);
+  const [followerId, setFollowerId] = useState<string | null>(null);
+  const [windowDraft, setWindowDraft] = useState(String(DEFAULT_ROLLING_WINDOW));
+
+  const changes = useMemo(
+    () => series.map((s) => toChanges(alignToGrid(s.points, grid))),
+    [series, grid]
+  );
+  const matrix = useMemo(() => correlationMatrix(changes), [changes]);
+
+  // Default to "does the first overlay lead the main market", the question this panel exists for. A pick
+  // whose series has since been hidden falls back to that default rather than to the first series.
+  const pickedLeader = series.findIndex((s) => s.id === leaderId);
+  const pickedFollower = series.findIndex((s) => s.id === followerId);
+  const leaderIndex = pickedLeader >= 0 ? pickedLeader : 1;
+  const followerIndex = pickedFollower >= 0 ? pickedFollower : 0;
+  // A series against itself always "moves in the same bar"; there is no lead to measure.
+  const comparable = series.length >= 2 && leaderIndex !== followerIndex;
+  const rollingWindow = Math.max(5, Math.min(grid.length, Math.round(Number(windowDraft)) || DEFAULT_ROLLING_WINDOW));
+
+  const rolling = useMemo(
+    () =>
+      comparable ? rollingCorrelation(changes[leaderIndex], changes[followerIndex], grid, rollingWindow) : [],
+    [comparable, changes, leaderIndex, followerIndex, grid, rollingWindow]
+  );
+  const lags = useMemo(
+    () => (comparable ? crossCorrelation(changes[leaderIndex], changes[followerIndex], MAX_LAG_BARS) : []),
+    [comparable, changes, leaderIndex, followerIndex]
+  );
+  const best = strongestLag(lags);
+
+  const rollingData = useMemo<ChartData<'line'>>(
+    () => ({
+      datasets: [
+        {
+          label: 'Rolling Correlation',
+          data: rolling.map((p) => ({ x: p.timestamp, y: p.value })),
+          borderColor: '#38bdf8',
+          borderWidth: 1.6,
+          pointRadius: 0,
+          spanGaps: false,
+          tension: 0.2,
+        },
+      ],
+    }),
+    [rolling]
+  );
+
+  const rollingOptions = useMemo<ChartOptions<'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: { duration: 0 },
+      interaction: { mode: 'nearest', axis: 'x', intersect: false },
+      plugins: {
+        legend: { display: false },
+        tooltip: { callbacks: { label: (item) => `r = ${Number(item.parsed.y).toFixed(2)}` } },
+        lineGlow: { blur: 8, alpha: 0.5, colorsByLabel: { 'Rolling Correlation': '#38bdf8' } },
+      } as ChartOptions<'line'>['plugins'],
+      scales: {
+        x: {
+          type: 'time',
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, maxRotation: 0, autoSkip: true, maxTicksLimit: 4 },
+        },
+        y: {
+          type: 'linear',
+          min: -1,
+          max: 1,
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, stepSize: 0.5 },
+        },
+      },
+    }),
+    []
+  );
+
+  const lagData = useMemo<ChartData<'bar'>>(
+    () => ({
+      labels: lags.map((l) => l.lag),
+      datasets: [
+        {
+          label: 'Cross Correlation',
+          data: lags.map((l) => l.value),
+          backgroundColor: lags.map((l) =>
+            best && l.lag === best.lag
+              ? 'rgba(250, 204, 21, 0.85)'
+              : (l.value ?? 0) >= 0
+                ? 'rgba(34, 197, 94, 0.5)'
+                : 'rgba(239, 68, 68, 0.5)'
+          ),
+          borderWidth: 0,
+        },
+      ],
+    }),
+    [lags, best]
+  );
+
+  const lagOptions = useMemo<ChartOptions<'bar'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: { duration: 0 },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            title: (items) => `Lag ${items[0]?.label ?? ''} bars`,
+            label: (item) => `r = ${Number(item.parsed.y).toFixed(2)}`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { color: '#94a3b8', font: { size: 9 }, autoSkip: true, maxTicksLimit: 9 },
+        },
+        y: {
+          min: -1,
+          max: 1,
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, stepSize: 0.5 },
+        },
+      },
+    }),
+    []
+  );
+
+  const leader = series[leaderIndex];
+  const follower = series[followerIndex];
+  let summary = comparable
+    ? 'Not enough overlapping bars to estimate a lead.'
+    : 'Pick two different series to estimate a lead.';
+  if (comparable && best?.value != null && leader && follower) {
+    const r = `r = ${best.value.toFixed(2)}`;
+    if (best.lag === 0) summary = `${leader.label} and ${follower.label} move in the same bar (${r}).`;
+    else {
+      const [first, second] = best.lag > 0 ? [leader, follower] : [follower, leader];
+      const bars = Math.abs(best.lag);
+      summary = `${first.label} leads ${second.label} by ${bars} bar${bars === 1 ? '' : 's'} (~${formatDuration(
+        bars * periodMs
+      )}, ${r}).`;
+    }
+  }
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        CORRELATION · CHANGE PER {formatDuration(periodMs).toUpperCase()} BAR
+      </div>
+      {series.length < 2 ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>
+          Turn on an overlay or add a compare market to correlate against the price.
+        </div>
+      ) : (
+        <>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ borderCollapse: 'collapse', fontSize: 10, color: '#e2e8f0', width: '100%' }}>
+              <thead>
+                <tr>
+                  <th />
+                  {series.map((s) => (
+                    <th key={s.id} title={s.label} style={{ color: '#94a3b8', fontWeight: 700, padding: '2px 3px' }}>
+                      {shortLabel(s.label)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {series.map((row, i) => (
+                  <tr key={row.id}>
+                    <th
+                      title={row.label}
+                      style={{ color: '#94a3b8', fontWeight: 700, textAlign: 'left', padding: '2px 3px' }}
+                    >
+                      {shortLabel(row.label)}
+                    </th>
+                    {matrix[i].map((value, j) => (
+                      <td
+                        key={series[j].id}
+                        style={{
+                          background: cellColor(value),
+                          textAlign: 'center',
+                          padding: '3px 2px',
+                          fontVariantNumeric: 'tabular-nums',
+                          border: '1px solid rgba(15,23,42,0.8)',
+                        }}
+                      >
+                        {value == null ? '--' : value.toFixed(2)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap', margin: '10px 0 6px' }}>
+            <select value={leader?.id} onChange={(e) => setLeaderId(e.target.value)} style={fieldStyle}>
+              {series.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <span style={{ color: '#94a3b8', fontSize: 11 }}>vs</span>
+            <select value={follower?.id} onChange={(e) => setFollowerId(e.target.value)} style={fieldStyle}>
+              {series.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#94a3b8', fontSize: 11 }}>
+              window
+              <input
+                type="number"
+                min={5}
+                value={windowDraft}
+                onChange={(e) => setWindowDraft(e.target.value)}
+                style={{ ...fieldStyle, width: 52 }}
+              />
+            </label>
+          </div>
+
+          <div style={{ color: '#94a3b8', fontSize: 10, fontWeight: 700, letterSpacing: 0.3 }}>
+            ROLLING {rollingWindow}-BAR CORRELATION
+          </div>
+          <div style={{ height: 110 }}>
+            <ReactChart type="line" data={rollingData} options={rollingOptions} />
+          </div>
+
+          <div style={{ color: '#94a3b8', fontSize: 10, fontWeight: 700, letterSpacing: 0.3, marginTop: 8 }}>
+            LEAD / LAG (± {MAX_LAG_BARS} BARS, POSITIVE = FIRST LEADS)
+          </div>
+          <div style={{ height: 110 }}>
+            <ReactChart type="bar" data={lagData} options={lagOptions} />
+          </div>
+          <div style={{ color: '#e2e8f0', fontSize: 12, marginTop: 6 }}>{summary}</div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import type { KalshiClient } from './kalshiClient';
+import Link from './Link';
+import MarketCard from './MarketCard';
+import { DASHBOARD_EVENTS, DASHBOARD_MARKETS, MARKET_PRESETS } from './markets';
+import { eventPath, marketPath, navigate } from './router';
+
+export const PAGE_BACKGROUND =
+  'radial-gradient(1200px 300px at 15% -50%, rgba(37,99,235,0.4), transparent), radial-gradient(1200px 300px at 85% -50%, rgba(239,68,68,0.4), transparent), linear-gradient(180deg, #0b1220 0%, #0f172a 100%)';
+
+export default function Dashboard({ client }: { client: KalshiClient }) {
+  const [tickerInput, setTickerInput] = useState('');
+
+  const openTicker = () => {
+    const ticker = tickerInput.trim().toUpperCase();
+    if (!ticker) return;
+    navigate(marketPath(ticker));
+  };
+
+  return (
+    <div style={{ minHeight: '100vh', background: PAGE_BACKGROUND, padding: 18 }}>
+      <h1
+        style={{
+          margin: '4px 0 4px',
+          color: '#f8fafc',
+          fontSize: 30,
+          fontWeight: 800,
+          textAlign: 'center',
+          fontFamily: '"Times New Roman", Times, serif',
+        }}
+      >
+        Midterm Markets
+      </h1>
+      <p style={{ margin: '0 0 16px', color: '#94a3b8', fontSize: 12, fontWeight: 600, textAlign: 'center' }}>
+        Kalshi prediction markets for the 2026 U.S. midterms
+      </p>
+
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'center', marginBottom: 16, flexWrap: 'wrap' }}>
+        <input
+          type="text"
+          value={tickerInput}
+          onChange={(e) => setTickerInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              openTicker();
+            }
+          }}
+          placeholder="Open any ticker (e.g. CONTROLS-2026-D)"
+          style={{
+            border: '1px solid rgba(71,85,105,0.8)',
+            borderRadius: 6,
+            padding: '6px 10px',
+            fontSize: 13,
+            color: '#e2e8f0',
+            background: 'rgba(2,6,23,0.85)',
+            minWidth: 280,
+          }}
+        />
+        <button
+          type="button"
+          onClick={openTicker}
+          style={{
+            border: '1px solid rgba(56,189,248,0.8)',
+            borderRadius: 7,
+            padding: '6px 12px',
+            fontSize: 13,
+            fontWeight: 700,
+            color: '#e0f2fe',
+            background: 'linear-gradient(180deg,#0284c7,#0369a1)',
+            cursor: 'pointer',
+          }}
+        >
+          Open Chart
+        </button>
+      </div>
+
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+          gap: 14,
+        }}
+      >
+        {DASHBOARD_MARKETS.map((ticker) => (
+          <MarketCard
+            key={ticker}
+            client={client}
+            ticker={ticker}
+            seriesTicker={MARKET_PRESETS[ticker]?.seriesTicker}
+          />
+        ))}
+      </div>
+
+      {DASHBOARD_EVENTS.length > 0 && (
+        <div style={{ marginTop: 18 }}>
+          <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 8, letterSpacing: 0.35 }}>
+            EVENTS
+          </div>
+          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
+            {DASHBOARD_EVENTS.map((event) => (
+              <Link
+                key={event.eventTicker}
+                to={eventPath(event.eventTicker)}
+                style={{
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '6px 10px',
+                  fontSize: 12,
+                  fontWeight: 700,
+                  color: '#cbd5e1',
+                  textDecoration: 'none',
+                }}
+              >
+                {event.label} <span style={{ color: '#7dd3fc' }}>{event.eventTicker}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
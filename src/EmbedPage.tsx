@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import ChartWidget from './ChartWidget';
+import {
+  EMBED_MESSAGE_SOURCE,
+  parseEmbedCommand,
+  parseEmbedOptions,
+  type EmbedEvent,
+  type EmbedParams,
+} from './embed';
+
+/**
+ * `/embed?ticker=...` for iframes. Events go to the parent as `{ source: 'kalshi-chart-embed', id, type, ... }`;
+ * the parent can post `{ target: 'kalshi-chart-embed', type: 'setOptions', options }` or `type: 'requestSize'`.
+ */
+export default function EmbedPage({ search }: { search: string }) {
+  const [params, setParams] = useState<EmbedParams>(() => Object.fromEntries(new URLSearchParams(search)));
+  const options = useMemo(() => parseEmbedOptions(params), [params]);
+  const { id, parentOrigin } = options;
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const post = useCallback(
+    (event: EmbedEvent) => {
+      if (window.parent === window) return;
+      window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, id, ...event }, parentOrigin ?? '*');
+    },
+    [id, parentOrigin]
+  );
+
+  const postSize = useCallback(() => {
+    const root = rootRef.current;
+    if (root) post({ type: 'resize', width: root.scrollWidth, height: root.scrollHeight });
+  }, [post]);
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(postSize);
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [postSize]);
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return;
+      if (parentOrigin && event.origin !== parentOrigin) return;
+      const command = parseEmbedCommand(event.data);
+      // `origin` is only taken from the URL; the parent it guards cannot widen it afterwards.
+      if (command?.type === 'setOptions') setParams((prev) => ({ ...prev, ...command.options, origin: prev.origin }));
+      else if (command?.type === 'requestSize') postSize();
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [parentOrigin, postSize]);
+
+  return (
+    <div ref={rootRef} style={{ width: '100vw', height: options.height ?? '100vh', overflow: 'hidden' }}>
+      <ChartWidget options={options} onEvent={post} />
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery } from '@tanstack/react-query';
+import type { KalshiClient } from './kalshiClient';
+import { PAGE_BACKGROUND } from './Dashboard';
+import Link from './Link';
+import MarketCard from './MarketCard';
+
+export default function EventPage({ client, eventTicker }: { client: KalshiClient; eventTicker: string }) {
+  const eventQuery = useQuery({
+    queryKey: ['event-page', client.baseUrl, eventTicker],
+    queryFn: () => client.getEvent(eventTicker),
+    staleTime: 60_000,
+    retry: 1,
+  });
+
+  const event = eventQuery.data?.event;
+  const markets = eventQuery.data?.markets ?? [];
+
+  return (
+    <div style={{ minHeight: '100vh', background: PAGE_BACKGROUND, padding: 18 }}>
+      <Link to="/" style={{ color: '#7dd3fc', fontSize: 12, fontWeight: 700 }}>
+        ← All markets
+      </Link>
+      <h1
+        style={{
+          margin: '8px 0 4px',
+          color: '#f8fafc',
+          fontSize: 28,
+          fontWeight: 800,
+          textAlign: 'center',
+          fontFamily: '"Times New Roman", Times, serif',
+        }}
+      >
+        {event?.title || eventTicker}
+      </h1>
+      <p style={{ margin: '0 0 16px', color: '#94a3b8', fontSize: 12, fontWeight: 600, textAlign: 'center' }}>
+        {eventTicker}
+        {event?.series_ticker ? ` · series ${event.series_ticker}` : ''}
+        {markets.length > 0 ? ` · ${markets.length} markets` : ''}
+      </p>
+      {eventQuery.isLoading ? (
+        <div style={{ color: '#94a3b8', fontSize: 13, textAlign: 'center' }}>Loading event...</div>
+      ) : eventQuery.isError ? (
+        <div
+          style={{
+            borderRadius: 12,
+            border: '1px solid #fecaca',
+            background: '#fef2f2',
+            padding: 16,
+            color: '#b91c1c',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}
+        >
+          {(eventQuery.error as Error)?.message || 'Could not load this event.'}
+        </div>
+      ) : (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+            gap: 14,
+          }}
+        >
+          {markets.map((market) => (
+            <MarketCard
+              key={market.ticker}
+              client={client}
+              ticker={market.ticker}
+              seriesTicker={event?.series_ticker}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  FRED_TRANSFORMS,
+  FRED_TRANSFORM_LABELS,
+  searchFredSeries,
+  type FredSeriesInfo,
+  type FredTransform,
+} from './fred';
+import SearchCombobox from './SearchCombobox';
+
+export type FredSeriesSelection = {
+  seriesId: string;
+  transform: FredTransform;
+  /** Search metadata; absent when the ID was typed in directly. */
+  info?: FredSeriesInfo;
+};
+
+const SEARCH_DELAY_MS = 300;
+const SERIES_ID = /^[A-Z0-9_]{1,40}$/;
+
+export default function FredSeriesPicker({
+  endpoint,
+  apiKey,
+  excludeIds,
+  onSelect,
+}: {
+  /** FRED `series/search` endpoint, normally through the `/api/fred` proxy. */
+  endpoint: string;
+  apiKey?: string;
+  excludeIds: string[];
+  onSelect: (selection: FredSeriesSelection) => void;
+}) {
+  const [input, setInput] = useState('');
+  const [searchText, setSearchText] = useState('');
+  const [transform, setTransform] = useState<FredTransform>('level');
+  const [error, setError] = useState<string | null>(null);
+
+  // FRED rate-limits per key, so the search waits for a pause in typing.
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearchText(input.trim()), SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [input]);
+
+  const searchQuery = useQuery({
+    queryKey: ['fred-search', endpoint, searchText, !!apiKey],
+    queryFn: () => searchFredSeries(endpoint, searchText, apiKey),
+    staleTime: 10 * 60_000,
+    retry: 1,
+    enabled: searchText.length >= 2,
+  });
+  const excluded = new Set(excludeIds.map((id) => id.toUpperCase()));
+  const results = (searchQuery.data ?? []).filter((s) => !excluded.has(s.id.toUpperCase()));
+
+  const reset = () => {
+    setInput('');
+    setSearchText('');
+    setError(null);
+  };
+
+  // Series the search does not surface can still be added by their exact ID.
+  const addTypedId = () => {
+    const seriesId = input.trim().toUpperCase();
+    if (!SERIES_ID.test(seriesId)) {
+      setError('Search FRED by keyword or enter a series ID (example: CPIAUCSL).');
+      return;
+    }
+    if (excluded.has(seriesId)) {
+      setError('That series is already added.');
+      return;
+    }
+    onSelect({ seriesId, transform });
+    reset();
+  };
+
+  const message =
+    input.trim().length < 2
+      ? { text: 'Keep typing to search FRED...' }
+      : searchQuery.isLoading || input.trim() !== searchText
+        ? { text: 'Searching FRED...' }
+        : searchQuery.isError
+          ? { text: 'FRED search unavailable. Press Enter to add the exact series ID.', error: true }
+          : results.length === 0
+            ? { text: 'No series match. Press Enter to add the exact series ID.' }
+            : null;
+
+  return (
+    <SearchCombobox
+      value={input}
+      onValueChange={(value) => {
+        setInput(value);
+        if (error) setError(null);
+      }}
+      items={results}
+      itemKey={(series) => series.id}
+      renderItem={(series) => (
+        <>
+          <div style={{ color: '#e2e8f0', fontWeight: 700 }}>{series.title}</div>
+          <div style={{ display: 'flex', gap: 8, color: '#94a3b8', fontSize: 11 }}>
+            <span style={{ color: '#fde047', fontWeight: 700 }}>{series.id}</span>
+            <span>{series.units}</span>
+            <span>{series.frequency}</span>
+            {series.observationEnd && <span>through {series.observationEnd}</span>}
+          </div>
+        </>
+      )}
+      onChoose={(info) => {
+        onSelect({ seriesId: info.id.toUpperCase(), transform, info });
+        reset();
+      }}
+      onSubmitText={addTypedId}
+      message={message}
+      placeholder="Search FRED (CPI, gas prices, sentiment)"
+      highlight="rgba(161,98,7,0.3)"
+      menuWidth={440}
+      controls={(submit) => (
+        <>
+          <select
+            value={transform}
+            onChange={(e) => setTransform(e.target.value as FredTransform)}
+            title="How the series is drawn"
+            style={{
+              border: '1px solid rgba(71,85,105,0.8)',
+              borderRadius: 6,
+              padding: '3px 6px',
+              fontSize: 12,
+              color: '#e2e8f0',
+              background: 'rgba(2,6,23,0.85)',
+            }}
+          >
+            {FRED_TRANSFORMS.map((t) => (
+              <option key={t} value={t}>
+                {FRED_TRANSFORM_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={submit}
+            style={{
+              border: '1px solid rgba(250,204,21,0.75)',
+              borderRadius: 7,
+              padding: '4px 9px',
+              fontSize: 12,
+              fontWeight: 700,
+              color: '#fef9c3',
+              background: 'linear-gradient(180deg,#a16207,#854d0e)',
+              cursor: 'pointer',
+            }}
+          >
+            Add Series
+          </button>
+          {error && <span style={{ color: '#fca5a5', fontSize: 12, fontWeight: 600 }}>{error}</span>}
+        </>
+      )}
+    />
+  );
+}
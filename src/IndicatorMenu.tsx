@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+  BOLLINGER_STD_DEV_RANGE,
+  INDICATOR_DEFINITIONS,
+  INDICATOR_PERIOD_RANGE,
+  normalizeIndicatorConfig,
+  type IndicatorConfig,
+  type IndicatorKind,
+} from './indicators';
+
+export type IndicatorMenuItem = {
+  token: string;
+  label: string;
+  color: string;
+  /** False while the source series is hidden or still loading, so nothing is drawn for it. */
+  available: boolean;
+};
+
+const fieldStyle = {
+  border: '1px solid rgba(71,85,105,0.8)',
+  borderRadius: 6,
+  padding: '4px 8px',
+  fontSize: 12,
+  color: '#e2e8f0',
+  background: 'rgba(2,6,23,0.85)',
+} as const;
+
+export default function IndicatorMenu({
+  items,
+  sources,
+  onAdd,
+  onRemove,
+}: {
+  items: IndicatorMenuItem[];
+  sources: Array<{ id: string; label: string }>;
+  onAdd: (config: IndicatorConfig) => void;
+  onRemove: (token: string) => void;
+}) {
+  const [kind, setKind] = useState<IndicatorKind>('sma');
+  const [periodDraft, setPeriodDraft] = useState(String(INDICATOR_DEFINITIONS.sma.defaultPeriod));
+  const [stdDevsDraft, setStdDevsDraft] = useState('2');
+  const [source, setSource] = useState('price');
+  const activeSource = sources.some((s) => s.id === source) ? source : 'price';
+
+  const add = () => {
+    const config = normalizeIndicatorConfig({
+      kind,
+      period: Number(periodDraft),
+      stdDevs: Number(stdDevsDraft),
+      source: activeSource,
+    });
+    if (config) onAdd(config);
+  };
+
+  return (
+    <div
+      className="mb-3"
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        INDICATORS
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <select
+          value={kind}
+          onChange={(e) => {
+            const next = e.target.value as IndicatorKind;
+            setKind(next);
+            setPeriodDraft(String(INDICATOR_DEFINITIONS[next].defaultPeriod));
+          }}
+          style={fieldStyle}
+        >
+          {(Object.keys(INDICATOR_DEFINITIONS) as IndicatorKind[]).map((k) => (
+            <option key={k} value={k}>
+              {INDICATOR_DEFINITIONS[k].label}
+            </option>
+          ))}
+        </select>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#94a3b8' }}>
+          Period
+          <input
+            type="number"
+            min={INDICATOR_PERIOD_RANGE.min}
+            max={INDICATOR_PERIOD_RANGE.max}
+            value={periodDraft}
+            onChange={(e) => setPeriodDraft(e.target.value)}
+            style={{ ...fieldStyle, width: 64 }}
+          />
+        </label>
+        {kind === 'bollinger' && (
+          <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#94a3b8' }}>
+            σ
+            <input
+              type="number"
+              min={BOLLINGER_STD_DEV_RANGE.min}
+              max={BOLLINGER_STD_DEV_RANGE.max}
+              step={0.5}
+              value={stdDevsDraft}
+              onChange={(e) => setStdDevsDraft(e.target.value)}
+              style={{ ...fieldStyle, width: 56 }}
+            />
+          </label>
+        )}
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#94a3b8' }}>
+          on
+          <select value={activeSource} onChange={(e) => setSource(e.target.value)} style={fieldStyle}>
+            {sources.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={add}
+          style={{
+            border: '1px solid rgba(56,189,248,0.8)',
+            borderRadius: 7,
+            padding: '4px 9px',
+            fontSize: 12,
+            fontWeight: 700,
+            color: '#e0f2fe',
+            background: 'linear-gradient(180deg,#0284c7,#0369a1)',
+            cursor: 'pointer',
+          }}
+        >
+          Add Indicator
+        </button>
+        {items.map((item) => (
+          <span
+            key={item.token}
+            title={item.available ? undefined : 'Source series is hidden or has no data in this window'}
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 6,
+              fontSize: 12,
+              color: item.available ? '#e2e8f0' : '#64748b',
+              background: 'rgba(15,23,42,0.55)',
+              border: '1px solid rgba(71,85,105,0.6)',
+              borderRadius: 8,
+              padding: '4px 8px',
+            }}
+          >
+            <span style={{ width: 10, height: 10, borderRadius: 999, background: item.color }} />
+            {item.label}
+            <button
+              type="button"
+              onClick={() => onRemove(item.token)}
+              style={{
+                border: '1px solid rgba(248,113,113,0.7)',
+                borderRadius: 6,
+                background: 'rgba(127,29,29,0.45)',
+                color: '#fecaca',
+                fontSize: 11,
+                fontWeight: 700,
+                padding: '1px 6px',
+                cursor: 'pointer',
+              }}
+            >
+              Remove
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useMemo } from 'react';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Chart as ReactChart } from 'react-chartjs-2';
+import type { SeriesPoint } from './indicators';
+
+// RSI reads against the classic 30/70 bands; rate of change against zero.
+const GUIDES: Record<'rsi' | 'roc', number[]> = {
+  rsi: [30, 70],
+  roc: [0],
+};
+
+export default function IndicatorPane({
+  label,
+  color,
+  kind,
+  points,
+  range,
+}: {
+  label: string;
+  color: string;
+  kind: 'rsi' | 'roc';
+  points: SeriesPoint[];
+  range: { startMs: number; endMs: number } | null;
+}) {
+  const data = useMemo<ChartData<'line'>>(
+    () => ({
+      datasets: [
+        ...GUIDES[kind].map((level) => ({
+          label: `Guide ${level}`,
+          data: range
+            ? [
+                { x: range.startMs, y: level },
+                { x: range.endMs, y: level },
+              ]
+            : [],
+          borderColor: 'rgba(148,163,184,0.45)',
+          borderDash: [4, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+          pointHitRadius: 0,
+        })),
+        {
+          label,
+          data: points.map((p) => ({ x: p.timestamp, y: p.value })),
+          borderColor: color,
+          borderWidth: 1.8,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          tension: 0.2,
+        },
+      ],
+    }),
+    [color, kind, label, points, range]
+  );
+
+  const options = useMemo<ChartOptions<'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: { duration: 0 },
+      interaction: { mode: 'nearest', axis: 'x', intersect: false },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          filter: (item) => !String(item.dataset.label).startsWith('Guide '),
+          callbacks: {
+            label: (item) =>
+              kind === 'rsi'
+                ? `${item.dataset.label}: ${Number(item.parsed.y).toFixed(1)}`
+                : `${item.dataset.label}: ${Number(item.parsed.y) >= 0 ? '+' : ''}${Number(item.parsed.y).toFixed(2)}%`,
+          },
+        },
+        lineGlow: { blur: 8, alpha: 0.5, colorsByLabel: { [label]: color } },
+      } as ChartOptions<'line'>['plugins'],
+      scales: {
+        x: {
+          type: 'time',
+          min: range?.startMs,
+          max: range?.endMs,
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, maxRotation: 0, autoSkip: true },
+        },
+        y: {
+          type: 'linear',
+          position: 'left',
+          ...(kind === 'rsi' ? { min: 0, max: 100 } : {}),
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: {
+            color: '#94a3b8',
+            font: { size: 10 },
+            maxTicksLimit: 4,
+            callback: (value) => (kind === 'rsi' ? `${value}` : `${Number(value).toFixed(1)}%`),
+          },
+        },
+      },
+    }),
+    [color, kind, label, range]
+  );
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '6px 10px 4px',
+        marginTop: 8,
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>
+        {label.toUpperCase()}
+        {points.length > 0 && (
+          <span style={{ color, marginLeft: 8 }}>
+            {kind === 'rsi'
+              ? points[points.length - 1].value.toFixed(1)
+              : `${points[points.length - 1].value >= 0 ? '+' : ''}${points[points.length - 1].value.toFixed(2)}%`}
+          </span>
+        )}
+      </div>
+      <div style={{ height: 110 }}>
+        {points.length === 0 ? (
+          <div style={{ color: '#94a3b8', fontSize: 12, paddingTop: 8 }}>
+            Not enough bars in this window for the chosen period.
+          </div>
+        ) : (
+          <ReactChart type="line" data={data} options={options} />
+        )}
+      </div>
+    </div>
+  );
+}
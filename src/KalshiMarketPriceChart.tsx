@@ -4,6 +4,7 @@ import {
   QueryClientProvider,
   useQuery,
   useQueries,
+  useQueryClient,
 } from '@tanstack/react-query';
 import {
   Chart as ChartJS,
@@ -25,6 +26,84 @@ import {
 } from 'chart.js';
 import 'chartjs-adapter-date-fns';
 import { Chart as ReactChart } from 'react-chartjs-2';
+import { absoluteEndpoint, fetchJsonOrThrow, resolveEndpointUrl } from './http';
+import {
+  createKalshiClient,
+  inferSeriesTicker,
+  type KalshiCandlestickField,
+  type KalshiCandlestickResponse,
+  type KalshiClient,
+} from './kalshiClient';
+import { useKalshiStream, type KalshiStreamTick } from './useKalshiStream';
+import OrderbookPanel from './OrderbookPanel';
+import TradesTapePanel from './TradesTapePanel';
+import MarketSearchInput, { type MarketSearchSelection } from './MarketSearchInput';
+import FredSeriesPicker, { type FredSeriesSelection } from './FredSeriesPicker';
+import {
+  FRED_OVERLAY_COLORS,
+  FRED_TRANSFORMS,
+  FRED_TRANSFORM_LABELS,
+  applyFredTransform,
+  fetchFredObservations,
+  formatFredValue,
+  fredAxisId,
+  type FredSeriesInfo,
+  type FredTransform,
+} from './fred';
+import {
+  COMPARE_OVERLAY_COLORS,
+  parseChartViewState,
+  serializeChartViewState,
+  type ChartOverlayKey,
+  type ChartStyle,
+  type ChartViewState,
+  type PriceSource,
+  type Timeframe,
+} from './chartViewState';
+import { marketPath, navigate, useLocation } from './router';
+import { CHART_THEMES, type ChartTheme } from './chartTheme';
+import AlertsPanel, { type AlertTarget } from './AlertsPanel';
+import { buildChartExportTable, chartExportToCsv, chartExportToJson } from './chartExport';
+import { renderChartSnapshot, snapshotLegend, type SnapshotFormat, type SnapshotLayout } from './chartSnapshot';
+import { downloadFile } from './download';
+import { ALERT_BAR_MINUTES, alertHistoryMs, runAlertRules, useAlertRules, type AlertBar } from './alerts';
+import MovesPanel from './MovesPanel';
+import {
+  DEFAULT_MOVE_DETECTOR_CONFIG,
+  attributeMoves,
+  detectMoves,
+  type MoveDetectorConfig,
+} from './moveDetector';
+import NewsPanel, { type NewsFeed } from './NewsPanel';
+import { DEFAULT_NEWS_ENDPOINT, DEFAULT_NEWS_QUERY, fetchNewsHeadlines } from './news';
+import SnapshotMenu from './SnapshotMenu';
+import WorkspaceMenu from './WorkspaceMenu';
+import IndicatorMenu from './IndicatorMenu';
+import IndicatorPane from './IndicatorPane';
+import CorrelationPanel from './CorrelationPanel';
+import BalanceOfPowerPanel from './BalanceOfPowerPanel';
+import { buildControlSeries, chamberName } from './balanceOfPower';
+import ScalarDistributionPanel from './ScalarDistributionPanel';
+import {
+  buildScalarDistribution,
+  formatScalar,
+  readScalarStrikes,
+  type ScalarBandPoint,
+  type ScalarDistribution,
+  type ScalarStrike,
+  type StrikeLayout,
+} from './scalarProjection';
+import {
+  INDICATOR_DEFINITIONS,
+  candleCloses,
+  computeIndicator,
+  exponentialSmoothing,
+  formatIndicatorToken,
+  indicatorLabel,
+  type IndicatorConfig,
+} from './indicators';
+import type { ChartWorkspace } from './workspaceStore';
+import { bucketNetTakerFlow, fetchTradeWindow } from './tradeFlow';
 
 const dragSelectionPlugin: Plugin<'bar' | 'line'> = {
   id: 'dragSelection',
@@ -160,6 +239,180 @@ const lineGlowPlugin: Plugin<'bar' | 'line'> = {
   },
 };
 
+type NewsMarker = { id: string; ts: number };
+
+type NewsMarkersOptions = {
+  enabled?: boolean;
+  markers?: NewsMarker[];
+  hoveredId?: string | null;
+  onHover?: (hit: { id: string; x: number; y: number } | null) => void;
+  onClick?: (id: string) => void;
+};
+
+// Last hovered marker per chart, so `onHover` only fires when the hovered headline changes.
+const hoveredNewsMarkers = new WeakMap<object, string | null>();
+
+function findNewsMarker(chart: ChartJS, markers: NewsMarker[], x: number, y: number) {
+  const xScale = chart.scales?.x;
+  const area = chart.chartArea;
+  if (!xScale || !area || y < area.bottom - 16 || y > area.bottom + 24) return null;
+  let best: { id: string; x: number; distance: number } | null = null;
+  for (const marker of markers) {
+    const mx = xScale.getPixelForValue(marker.ts);
+    const distance = Math.abs(mx - x);
+    if (mx < area.left || mx > area.right || distance > 6) continue;
+    if (!best || distance < best.distance) best = { id: marker.id, x: mx, distance };
+  }
+  return best ? { id: best.id, x: best.x, y: area.bottom - 7 } : null;
+}
+
+const newsMarkersPlugin: Plugin<'bar' | 'line'> = {
+  id: 'newsMarkers',
+  afterDatasetsDraw(chart, _args, pluginOptions) {
+    const opts = pluginOptions as NewsMarkersOptions | undefined;
+    if (!opts?.enabled || !opts.markers?.length) return;
+    const xScale = chart.scales?.x;
+    const area = chart.chartArea;
+    if (!xScale || !area) return;
+
+    const { ctx } = chart;
+    ctx.save();
+    for (const marker of opts.markers) {
+      const x = xScale.getPixelForValue(marker.ts);
+      if (!Number.isFinite(x) || x < area.left || x > area.right) continue;
+      const hovered = marker.id === opts.hoveredId;
+      const y = area.bottom - 7;
+      if (hovered) {
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.55)';
+        ctx.setLineDash([3, 4]);
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(x, area.top);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      const size = hovered ? 6.5 : 4.5;
+      ctx.fillStyle = hovered ? '#fde68a' : 'rgba(251, 191, 36, 0.9)';
+      ctx.strokeStyle = 'rgba(2, 6, 23, 0.9)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, y - size);
+      ctx.lineTo(x + size, y);
+      ctx.lineTo(x, y + size);
+      ctx.lineTo(x - size, y);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    }
+    ctx.restore();
+  },
+  afterEvent(chart, args, pluginOptions) {
+    const opts = pluginOptions as NewsMarkersOptions | undefined;
+    if (!opts?.enabled || !opts.markers?.length) return;
+    const { event } = args;
+    if (event.x == null || event.y == null) return;
+    const hit = event.type === 'mouseout' ? null : findNewsMarker(chart, opts.markers, event.x, event.y);
+    if (event.type === 'click') {
+      if (hit) opts.onClick?.(hit.id);
+      return;
+    }
+    if ((hoveredNewsMarkers.get(chart) ?? null) === (hit?.id ?? null)) return;
+    hoveredNewsMarkers.set(chart, hit?.id ?? null);
+    opts.onHover?.(hit);
+  },
+};
+
+type MoveAnnotation = { startTs: number; endTs: number; change: number };
+
+// Shades each detected move behind the series and labels its size along the top edge.
+const moveAnnotationsPlugin: Plugin<'bar' | 'line'> = {
+  id: 'moveAnnotations',
+  beforeDatasetsDraw(chart, _args, pluginOptions) {
+    const opts = pluginOptions as { enabled?: boolean; moves?: MoveAnnotation[] } | undefined;
+    if (!opts?.enabled || !opts.moves?.length) return;
+    const xScale = chart.scales?.x;
+    const area = chart.chartArea;
+    if (!xScale || !area) return;
+
+    const { ctx } = chart;
+    ctx.save();
+    ctx.font = '700 10px ui-sans-serif, system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (const move of opts.moves) {
+      const left = Math.max(area.left, xScale.getPixelForValue(move.startTs));
+      const right = Math.min(area.right, xScale.getPixelForValue(move.endTs));
+      if (!Number.isFinite(left) || !Number.isFinite(right) || right < left) continue;
+      const up = move.change >= 0;
+      ctx.fillStyle = up ? 'rgba(34, 197, 94, 0.14)' : 'rgba(239, 68, 68, 0.14)';
+      ctx.fillRect(left, area.top, Math.max(2, right - left), area.bottom - area.top);
+      ctx.fillStyle = up ? '#86efac' : '#fca5a5';
+      ctx.fillText(`${up ? '+' : ''}${move.change.toFixed(1)}`, (left + right) / 2, area.top + 3);
+    }
+    ctx.restore();
+  },
+};
+
+type OhlcBar = { x: number; o: number; h: number; l: number; c: number };
+
+const ohlcCandlesPlugin: Plugin<'bar' | 'line'> = {
+  id: 'ohlcCandles',
+  // Drawn right after the (hidden) Price dataset so volume bars and overlays keep their stacking.
+  afterDatasetDraw(chart, args, pluginOptions) {
+    const opts = pluginOptions as
+      | { enabled?: boolean; style?: 'ohlc' | 'candlestick'; bars?: OhlcBar[]; revealIndex?: number }
+      | undefined;
+    if (!opts?.enabled || !opts.bars?.length) return;
+    if (chart.data.datasets[args.index]?.label !== 'Price') return;
+    const xScale = chart.scales?.x;
+    const yScale = chart.scales?.yPrice;
+    const area = chart.chartArea;
+    if (!xScale || !yScale || !area) return;
+
+    const bars = opts.revealIndex != null ? opts.bars.slice(0, opts.revealIndex + 1) : opts.bars;
+    const width = Math.max(1, Math.min(14, ((area.right - area.left) / Math.max(1, opts.bars.length)) * 0.62));
+    const glow = (chart.options.plugins as { lineGlow?: { blur?: number; alpha?: number } } | undefined)?.lineGlow;
+    const { ctx } = chart;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+    ctx.clip();
+    ctx.shadowBlur = (glow?.blur ?? 16) / 2;
+
+    for (const bar of bars) {
+      const x = xScale.getPixelForValue(bar.x);
+      const yOpen = yScale.getPixelForValue(bar.o);
+      const yHigh = yScale.getPixelForValue(bar.h);
+      const yLow = yScale.getPixelForValue(bar.l);
+      const yClose = yScale.getPixelForValue(bar.c);
+      if (![x, yOpen, yHigh, yLow, yClose].every(Number.isFinite)) continue;
+
+      const color = bar.c >= bar.o ? '#22c55e' : '#ef4444';
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.shadowColor = hexToRgba(color, glow?.alpha ?? 0.8);
+      ctx.lineWidth = 1.2;
+      ctx.beginPath();
+      ctx.moveTo(x, yHigh);
+      ctx.lineTo(x, yLow);
+      if (opts.style === 'ohlc') {
+        ctx.moveTo(x - width / 2, yOpen);
+        ctx.lineTo(x, yOpen);
+        ctx.moveTo(x, yClose);
+        ctx.lineTo(x + width / 2, yClose);
+        ctx.stroke();
+      } else {
+        ctx.stroke();
+        const top = Math.min(yOpen, yClose);
+        const height = Math.max(1, Math.abs(yClose - yOpen));
+        ctx.fillRect(x - width / 2, top, width, height);
+      }
+    }
+    ctx.restore();
+  },
+};
+
 function hexToRgb(hex: string): [number, number, number] {
   const clean = hex.replace('#', '');
   const full = clean.length === 3 ? clean.split('').map((c) => c + c).join('') : clean;
@@ -188,10 +441,41 @@ ChartJS.register(
   dragSelectionPlugin,
   chartBackdropPlugin,
   lineGlowPlugin,
-  lineHeadGlowPlugin
+  ohlcCandlesPlugin,
+  lineHeadGlowPlugin,
+  newsMarkersPlugin,
+  moveAnnotationsPlugin
 );
 
-type Timeframe = '1D' | '7D' | '30D' | 'ALL' | 'CUSTOM';
+const CHART_STYLE_LABELS: Record<ChartStyle, string> = {
+  line: 'LINE',
+  ohlc: 'OHLC',
+  candlestick: 'CANDLES',
+  'heikin-ashi': 'HEIKIN-ASHI',
+};
+
+// Suffixes on the projection's percentile band datasets; the tooltip folds them into its projection block.
+const PROJECTION_BAND_SUFFIXES = { p10: ' Band P10', p50: ' Band Median', p90: ' Band P90' } as const;
+
+function isProjectionBandLabel(label: string): boolean {
+  return Object.values(PROJECTION_BAND_SUFFIXES).some((suffix) => label.endsWith(suffix));
+}
+
+const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  last: 'Last trade',
+  bid: 'Yes bid',
+  ask: 'Yes ask',
+  mid: 'Bid/ask mid',
+};
+
+// Periods without trades have no `price` candle, so each source names what it may fall back to. `last`
+// keeps the chart's original fallback to the yes bid, so the default view plots what it always has.
+const PRICE_SOURCE_FALLBACKS: Record<PriceSource, PriceSource[]> = {
+  last: ['last', 'bid'],
+  bid: ['bid', 'last'],
+  ask: ['ask', 'last'],
+  mid: ['mid', 'last'],
+};
 
 type Candle = {
   timestamp: number;
@@ -200,6 +484,10 @@ type Candle = {
   low: number;
   close: number;
   updates: number;
+  /** Which quote the OHLC values were read from, after any fallback. */
+  source: PriceSource;
+  bid?: number;
+  ask?: number;
 };
 
 type PriceResponse = {
@@ -213,48 +501,20 @@ type PriceResponse = {
   };
 };
 
-type KalshiCandlestickField = {
-  open?: number;
-  high?: number;
-  low?: number;
-  close?: number;
-  open_dollars?: string;
-  high_dollars?: string;
-  low_dollars?: string;
-  close_dollars?: string;
-};
-
-type KalshiCandlestick = {
-  end_period_ts: number;
-  price?: KalshiCandlestickField;
-  yes_bid?: KalshiCandlestickField;
-  volume?: number;
-  volume_fp?: string;
-};
-
-type KalshiCandlestickResponse = {
-  ticker: string;
-  candlesticks: KalshiCandlestick[];
-};
-
-type KalshiEventMarket = {
-  ticker: string;
-  custom_strike?: Record<string, string>;
-};
-
-type KalshiEventResponse = {
-  event: {
-    event_ticker: string;
-    series_ticker: string;
-  };
-  markets: KalshiEventMarket[];
-};
-
 type ProjectionPoint = {
   timestamp: number;
   value: number;
 };
 
+type ScalarProjection = {
+  layout: StrikeLayout;
+  /** Probability-weighted mean per bar. */
+  points: ProjectionPoint[];
+  bands: ScalarBandPoint[];
+  /** Distribution at the last bar, for the histogram. */
+  latest: ScalarDistribution | null;
+};
+
 type FredObservation = {
   date: string;
   value: string;
@@ -272,11 +532,6 @@ type CivicApprovalResponse = {
   }>;
 };
 
-type RssHeadline = {
-  title: string;
-  link: string;
-  pubDate: string;
-};
 type ChartErrorBoundaryProps = {
   children: ReactNode;
 };
@@ -343,42 +598,122 @@ type CustomCompareMarket = {
   colorTop: string;
   colorBottom: string;
   enabled: boolean;
+  newsQuery?: string;
 };
 
-const CUSTOM_OVERLAY_COLORS: Array<{ top: string; bottom: string }> = [
-  { top: '#38bdf8', bottom: '#0ea5e9' },
-  { top: '#a3e635', bottom: '#65a30d' },
-  { top: '#fda4af', bottom: '#e11d48' },
-  { top: '#fcd34d', bottom: '#d97706' },
-  { top: '#c4b5fd', bottom: '#7c3aed' },
-  { top: '#5eead4', bottom: '#0f766e' },
-];
+type CustomFredSeries = {
+  seriesId: string;
+  transform: FredTransform;
+  enabled: boolean;
+  color: string;
+  /** Title and units from the search; a series restored from a link only has its ID. */
+  info?: FredSeriesInfo;
+};
+
+type FredAxis = { id: string; title: string; color: string; transform: FredTransform; min: number; max: number };
+
+function fredOverlayLabel(series: { seriesId: string; transform: FredTransform }): string {
+  return `${series.seriesId} (${FRED_TRANSFORM_LABELS[series.transform]})`;
+}
+
+// Search metadata and colors survive a view restore for series that were already on the chart.
+function toCustomFredSeries(states: ChartViewState['fredSeries'], existing: CustomFredSeries[]): CustomFredSeries[] {
+  return states.map((state, idx) => {
+    const current = existing.find((s) => s.seriesId === state.seriesId);
+    return {
+      ...state,
+      color: current?.color ?? FRED_OVERLAY_COLORS[idx % FRED_OVERLAY_COLORS.length],
+      info: current?.info,
+    };
+  });
+}
+
+// Colors come from the view when it carries them, otherwise from the market already on the chart, so
+// restoring a view does not repaint overlays.
+function toCustomCompareMarkets(
+  states: ChartViewState['compareMarkets'],
+  existing: CustomCompareMarket[]
+): CustomCompareMarket[] {
+  return states.map((state, idx) => {
+    const current = existing.find((m) => m.ticker === state.ticker);
+    const color = COMPARE_OVERLAY_COLORS[idx % COMPARE_OVERLAY_COLORS.length];
+    return {
+      id: state.ticker,
+      ticker: state.ticker,
+      seriesTicker: state.seriesTicker,
+      label: `${state.ticker} Market`,
+      colorTop: state.colorTop ?? current?.colorTop ?? color.top,
+      colorBottom: state.colorBottom ?? current?.colorBottom ?? color.bottom,
+      enabled: state.enabled,
+      newsQuery: state.newsQuery ?? current?.newsQuery,
+    };
+  });
+}
+
+const TICKER_TAPE_HEADLINES = 4;
+
+const INDICATOR_COLORS = ['#e879f9', '#facc15', '#2dd4bf', '#fb923c', '#818cf8', '#f472b6'];
 
 export type KalshiMarketPriceChartProps = {
   marketId: string;
   apiBaseUrl: string;
   apiKey?: string;
+  /**
+   * Origin the relative endpoints below and the open-in-app link resolve against; defaults to the page's own.
+   * An embedded chart points it at the deployment that served the widget.
+   */
+  apiOrigin?: string;
   showVolume?: boolean;
   seriesTicker?: string;
   marketTitle?: string;
+  /** Google News search behind the ticker tape, timeline markers and news panel. */
+  newsQuery?: string;
   projectionMarketId?: string;
   projectionSeriesTicker?: string;
   projectionEventTicker?: string;
   projectionLabel?: string;
+  projectionNewsQuery?: string;
+  /** `custom_strike` key holding each event market's number (Seats, Margin...); defaults to its only numeric one. */
+  projectionStrikeKey?: string;
+  /** Unit after projected values, e.g. 'seats' or '%'. */
+  projectionUnit?: string;
+  /** Title of the projection axis and of the expected value in the tooltip; defaults to `projectionLabel`. */
+  projectionAxisLabel?: string;
+  /** Value whose chance of being reached is reported, e.g. 218 for a House majority. */
+  projectionThreshold?: number;
+  projectionThresholdLabel?: string;
+  /** Also shows `total - value` under `label`, e.g. Republican seats out of 435. */
+  projectionComplement?: { total: number; label: string };
+  /** Pays YES when Democrats win both chambers; fills the D/D cell of the balance-of-power matrix. */
   comboMarketId?: string;
   comboSeriesTicker?: string;
   comboLabel?: string;
+  comboNewsQuery?: string;
   controlsMarketId?: string;
   controlsSeriesTicker?: string;
   controlsLabel?: string;
+  controlsNewsQuery?: string;
   trumpApprovalLabel?: string;
   trumpApprovalEndpoint?: string;
   fredApiKey?: string;
   fredEndpoint?: string;
+  /** FRED `series/search` endpoint behind the series picker. */
+  fredSearchEndpoint?: string;
   sp500Label?: string;
   unemploymentLabel?: string;
+  streamEndpoint?: string;
+  /** `compact` drops the header, menus and side panels so the chart can be embedded in a small frame. */
+  layout?: 'full' | 'compact';
+  theme?: ChartTheme;
+  /** Starting view. When given, the chart neither reads nor rewrites the page URL, which belongs to the host. */
+  initialView?: ChartViewState;
+  onViewChange?: (view: ChartViewState) => void;
+  /** Latest close in percent, whenever a poll or stream tick changes it. */
+  onPriceChange?: (update: { probability: number; timestamp: number }) => void;
 };
 
+const DEFAULT_MARKET_TITLE = 'Will Democrats Win the House of Representatives?';
+
 const TIMEFRAME_CONFIG: Record<
   Timeframe,
   { points: number; startMs?: number; periodInterval: 1 | 60 | 1440 }
@@ -487,6 +822,86 @@ function findCloseAtOrBefore(candles: Candle[], targetTs: number): number | null
   return candles[best].close;
 }
 
+function toHeikinAshi(candles: Candle[]): Candle[] {
+  const result: Candle[] = [];
+  for (const c of candles) {
+    const prev = result[result.length - 1];
+    const close = (c.open + c.high + c.low + c.close) / 4;
+    const open = prev ? (prev.open + prev.close) / 2 : (c.open + c.close) / 2;
+    result.push({
+      ...c,
+      open,
+      close,
+      high: Math.max(c.high, open, close),
+      low: Math.min(c.low, open, close),
+    });
+  }
+  return result;
+}
+
+function getPeriodIntervalMs(timeframe: Timeframe, customRange?: { startMs: number; endMs: number }): number {
+  const interval =
+    timeframe === 'CUSTOM' && customRange
+      ? inferCustomPeriodInterval(customRange.startMs, customRange.endMs)
+      : TIMEFRAME_CONFIG[timeframe].periodInterval;
+  return interval * 60 * 1000;
+}
+
+function pickTickPrice(tick: KalshiStreamTick, source: PriceSource, last: Candle): number | null {
+  const bid = tick.yesBid ?? last.bid;
+  const ask = tick.yesAsk ?? last.ask;
+  if (source === 'last') return tick.price;
+  // Trades carry no quote, so only ticker updates may move a bid/ask/mid candle.
+  if (tick.kind === 'trade') return null;
+  if (source === 'bid') return tick.yesBid ?? null;
+  if (source === 'ask') return tick.yesAsk ?? null;
+  return bid != null && ask != null ? (bid + ask) / 2 : null;
+}
+
+function applyStreamTick(
+  candles: Candle[],
+  tick: KalshiStreamTick,
+  periodMs: number,
+  priceSource: PriceSource
+): Candle[] {
+  if (candles.length === 0) return candles;
+  const last = candles[candles.length - 1];
+  const price = pickTickPrice(tick, priceSource, last);
+  if (tick.timestamp <= last.timestamp) {
+    // Kalshi stamps candles with their period end, so anything up to it belongs to the open candle.
+    const patched: Candle = {
+      ...last,
+      updates: last.updates + tick.count,
+      bid: tick.yesBid ?? last.bid,
+      ask: tick.yesAsk ?? last.ask,
+    };
+    if (price != null) {
+      patched.high = Math.max(last.high, price);
+      patched.low = Math.min(last.low, price);
+      patched.close = price;
+      patched.source = priceSource;
+    }
+    return [...candles.slice(0, -1), patched];
+  }
+  const periodsAhead = Math.max(1, Math.ceil((tick.timestamp - last.timestamp) / periodMs));
+  const open = last.close;
+  const close = price ?? last.close;
+  return [
+    ...candles,
+    {
+      timestamp: last.timestamp + periodsAhead * periodMs,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      updates: tick.count,
+      source: price != null ? priceSource : last.source,
+      bid: tick.yesBid ?? last.bid,
+      ask: tick.yesAsk ?? last.ask,
+    },
+  ];
+}
+
 function useIsMobile(breakpointPx = 768): boolean {
   const [isMobile, setIsMobile] = useState<boolean>(() => {
     if (typeof window === 'undefined') return false;
@@ -514,146 +929,57 @@ function parseDollar(value?: string): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
-function inferSeriesTicker(marketId: string): string | null {
-  const firstDash = marketId.indexOf('-');
-  if (firstDash <= 0) return null;
-  return marketId.slice(0, firstDash);
-}
-
-async function fetchJsonOrThrow<T>(
-  url: URL,
-  headers: Record<string, string>,
-  requestLabel: string
-): Promise<T> {
-  let response: Response;
-  try {
-    response = await fetch(url.toString(), { headers, mode: 'cors' });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    throw new Error(
-      `Network error while fetching ${requestLabel}.\nURL: ${url.toString()}\nDetails: ${message}\nHint: likely CORS or network blocking.`
-    );
-  }
-
-  if (!response.ok) {
-    let body = '';
-    try {
-      body = await response.text();
-    } catch {
-      body = '';
-    }
-
-    const bodySnippet = body ? `\nResponse: ${body.slice(0, 300)}` : '';
-    throw new Error(
-      `Request failed for ${requestLabel}.\nURL: ${url.toString()}\nStatus: ${response.status} ${response.statusText}${bodySnippet}`
-    );
-  }
-
-  const raw = await response.text();
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    const snippet = raw ? `\nResponse: ${raw.slice(0, 300)}` : '';
-    const contentType = response.headers.get('content-type');
-    throw new Error(
-      `Invalid JSON while fetching ${requestLabel}.\nURL: ${url.toString()}\nStatus: ${response.status} ${response.statusText}${contentType ? `\nContent-Type: ${contentType}` : ''}${snippet}`
-    );
-  }
-}
-
-async function fetchTextOrThrow(
-  url: URL,
-  headers: Record<string, string>,
-  requestLabel: string
-): Promise<string> {
-  let response: Response;
-  try {
-    response = await fetch(url.toString(), { headers, mode: 'cors' });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    throw new Error(
-      `Network error while fetching ${requestLabel}.\nURL: ${url.toString()}\nDetails: ${message}\nHint: likely CORS or network blocking.`
-    );
-  }
-
-  if (!response.ok) {
-    let body = '';
-    try {
-      body = await response.text();
-    } catch {
-      body = '';
-    }
-    const bodySnippet = body ? `\nResponse: ${body.slice(0, 300)}` : '';
-    throw new Error(
-      `Request failed for ${requestLabel}.\nURL: ${url.toString()}\nStatus: ${response.status} ${response.statusText}${bodySnippet}`
-    );
-  }
-
-  return response.text();
-}
-
-function decodeHtmlEntities(value: string): string {
-  if (typeof window === 'undefined') return value;
-  const doc = new DOMParser().parseFromString(value, 'text/html');
-  return (doc.documentElement.textContent || '').trim();
-}
+type Ohlc = { open: number; high: number; low: number; close: number };
 
-async function fetchPoliticalHeadlines(limit = 4): Promise<RssHeadline[]> {
-  const url = new URL('/api/news/rss/search', window.location.origin);
-  url.searchParams.set('q', 'US midterm election Congress House Senate');
-  url.searchParams.set('hl', 'en-US');
-  url.searchParams.set('gl', 'US');
-  url.searchParams.set('ceid', 'US:en');
-
-  const xmlText = await fetchTextOrThrow(url, {}, 'political headlines feed');
-  const xml = new DOMParser().parseFromString(xmlText, 'application/xml');
-  const parseError = xml.querySelector('parsererror');
-  if (parseError) throw new Error('Invalid RSS XML in political headlines feed.');
-
-  return Array.from(xml.querySelectorAll('item'))
-    .map((item) => {
-      const title = decodeHtmlEntities(item.querySelector('title')?.textContent || '');
-      const link = item.querySelector('link')?.textContent?.trim() || '';
-      const pubDate = item.querySelector('pubDate')?.textContent?.trim() || '';
-      if (!title || !link) return null;
-      return { title, link, pubDate };
-    })
-    .filter((h): h is RssHeadline => h !== null)
-    .slice(0, limit);
+function readOhlc(field?: KalshiCandlestickField): Ohlc | null {
+  if (!field) return null;
+  const open = parseDollar(field.open_dollars) ?? (typeof field.open === 'number' ? field.open / 100 : null);
+  const high = parseDollar(field.high_dollars) ?? (typeof field.high === 'number' ? field.high / 100 : null);
+  const low = parseDollar(field.low_dollars) ?? (typeof field.low === 'number' ? field.low / 100 : null);
+  const close = parseDollar(field.close_dollars) ?? (typeof field.close === 'number' ? field.close / 100 : null);
+  if (open == null || high == null || low == null || close == null) return null;
+  return { open, high, low, close };
 }
 
-function normalizeCandles(data: PriceResponse | KalshiCandlestickResponse, marketId: string): PriceResponse {
+function normalizeCandles(
+  data: PriceResponse | KalshiCandlestickResponse,
+  marketId: string,
+  priceSource: PriceSource = 'last'
+): PriceResponse {
   if ('candles' in data) {
-    return data;
+    return { ...data, candles: data.candles.map((c) => ({ ...c, source: c.source ?? 'last' })) };
   }
 
   const candles: Candle[] = (data.candlesticks || [])
-    .map((c) => {
-      const source = c.price ?? c.yes_bid;
-      if (!source) return null;
-
-      const open = parseDollar(source.open_dollars) ?? (typeof source.open === 'number' ? source.open / 100 : null);
-      const high = parseDollar(source.high_dollars) ?? (typeof source.high === 'number' ? source.high / 100 : null);
-      const low = parseDollar(source.low_dollars) ?? (typeof source.low === 'number' ? source.low / 100 : null);
-      const close = parseDollar(source.close_dollars) ?? (typeof source.close === 'number' ? source.close / 100 : null);
-
-      if (
-        open == null ||
-        high == null ||
-        low == null ||
-        close == null ||
-        typeof c.end_period_ts !== 'number'
-      ) {
-        return null;
-      }
+    .map((c): Candle | null => {
+      if (typeof c.end_period_ts !== 'number') return null;
+      const bid = readOhlc(c.yes_bid);
+      const ask = readOhlc(c.yes_ask);
+      const quotes: Record<PriceSource, Ohlc | null> = {
+        last: readOhlc(c.price),
+        bid,
+        ask,
+        mid:
+          bid && ask
+            ? {
+                open: (bid.open + ask.open) / 2,
+                high: (bid.high + ask.high) / 2,
+                low: (bid.low + ask.low) / 2,
+                close: (bid.close + ask.close) / 2,
+              }
+            : null,
+      };
+      const source = PRICE_SOURCE_FALLBACKS[priceSource].find((s) => quotes[s] != null);
+      const ohlc = source ? quotes[source] : null;
+      if (!source || !ohlc) return null;
 
       return {
         timestamp: c.end_period_ts * 1000,
-        open,
-        high,
-        low,
-        close,
+        ...ohlc,
         updates: c.volume ?? Number(c.volume_fp ?? 0),
+        source,
+        bid: bid?.close,
+        ask: ask?.close,
       };
     })
     .filter((c): c is Candle => c !== null);
@@ -664,13 +990,30 @@ function normalizeCandles(data: PriceResponse | KalshiCandlestickResponse, marke
   };
 }
 
+/** The last `historyMs` of `ALERT_BAR_MINUTES` bars, ending now, for the alert rules. */
+async function fetchAlertBars(
+  client: KalshiClient,
+  ticker: string,
+  seriesTicker: string,
+  historyMs: number
+): Promise<AlertBar[]> {
+  const nowMs = Date.now();
+  const data = await client.getCandlesticks(seriesTicker, ticker, {
+    startTs: Math.floor((nowMs - historyMs) / 1000),
+    endTs: Math.floor(nowMs / 1000),
+    periodInterval: ALERT_BAR_MINUTES,
+  });
+  return normalizeCandles(data, ticker).candles;
+}
+
 async function fetchMarketPrices(
   apiBaseUrl: string,
   marketId: string,
   timeframe: Timeframe,
   apiKey?: string,
   seriesTicker?: string,
-  customRange?: { startMs: number; endMs: number }
+  customRange?: { startMs: number; endMs: number },
+  priceSource: PriceSource = 'last'
 ): Promise<PriceResponse> {
   const nowMs = Date.now();
   const config = TIMEFRAME_CONFIG[timeframe];
@@ -706,19 +1049,13 @@ async function fetchMarketPrices(
       timeframe === 'CUSTOM' && customRange
         ? inferCustomPeriodInterval(customRange.startMs, customRange.endMs)
         : config.periodInterval;
-    const url = new URL(
-      `${normalizedBase}/series/${encodeURIComponent(resolvedSeries)}/markets/${encodeURIComponent(
-        marketId
-      )}/candlesticks`
-    );
-
-    url.searchParams.set('start_ts', String(startSec));
-    url.searchParams.set('end_ts', String(endSec));
-    url.searchParams.set('period_interval', String(periodInterval));
-    url.searchParams.set('include_latest_before_start', 'true');
-
-    const data = await fetchJsonOrThrow<KalshiCandlestickResponse>(url, headers, 'Kalshi candlesticks');
-    return normalizeCandles(data, marketId);
+    const client = createKalshiClient({ baseUrl: normalizedBase, apiKey });
+    const data = await client.getCandlesticks(resolvedSeries, marketId, {
+      startTs: startSec,
+      endTs: endSec,
+      periodInterval,
+    });
+    return normalizeCandles(data, marketId, priceSource);
   }
 
   const url = new URL(`${normalizedBase}/markets/${encodeURIComponent(marketId)}/prices`);
@@ -733,41 +1070,30 @@ async function fetchMarketPrices(
   return normalizeCandles(data, marketId);
 }
 
-async function fetchExpectedSeatsProjection(
+async function fetchScalarProjection(
   apiBaseUrl: string,
   eventTicker: string,
   timeframe: Timeframe,
   apiKey?: string,
   seriesTickerHint?: string,
-  referenceTimestamps?: number[]
-): Promise<ProjectionPoint[]> {
-  const normalizedBase = apiBaseUrl.replace(/\/$/, '');
-  const eventUrl = new URL(`${normalizedBase}/events/${encodeURIComponent(eventTicker)}`);
-
-  const headers: Record<string, string> = {};
-  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
-
-  const eventData = await fetchJsonOrThrow<KalshiEventResponse>(eventUrl, headers, 'Kalshi event markets');
+  referenceTimestamps?: number[],
+  strikeKey?: string,
+  threshold?: number
+): Promise<ScalarProjection> {
+  const client = createKalshiClient({ baseUrl: apiBaseUrl, apiKey });
+  const eventData = await client.getEvent(eventTicker);
   const resolvedSeriesTicker = seriesTickerHint || eventData.event?.series_ticker;
   if (!resolvedSeriesTicker) {
-    throw new Error('Missing series ticker for expected seats projection.');
+    throw new Error('Missing series ticker for scalar projection.');
   }
 
-  const seatMarkets = (eventData.markets || [])
-    .map((m) => {
-      const seatRaw = m.custom_strike?.Seats ?? m.custom_strike?.seats;
-      const seats = seatRaw != null ? Number(seatRaw) : NaN;
-      return Number.isFinite(seats) ? { ticker: m.ticker, seats } : null;
-    })
-    .filter((m): m is { ticker: string; seats: number } => m !== null)
-    .sort((a, b) => a.seats - b.seats);
-
-  if (seatMarkets.length === 0) {
-    throw new Error('No seat-strike markets found for this event.');
+  const { layout, strikes: strikeMarkets } = readScalarStrikes(eventData.event, eventData.markets || [], strikeKey);
+  if (strikeMarkets.length === 0) {
+    throw new Error(`No numeric-strike markets${strikeKey ? ` (${strikeKey})` : ''} found for this event.`);
   }
 
   const candleResults = await Promise.all(
-    seatMarkets.map(async (m) => {
+    strikeMarkets.map(async (m) => {
       const data = await fetchMarketPrices(apiBaseUrl, m.ticker, timeframe, apiKey, resolvedSeriesTicker);
       return { ...m, candles: data.candles };
     })
@@ -783,21 +1109,23 @@ async function fetchExpectedSeatsProjection(
         ).sort((a, b) => a - b);
 
   const points: ProjectionPoint[] = [];
+  const bands: ScalarBandPoint[] = [];
+  let latest: ScalarDistribution | null = null;
   for (const ts of baseTimestamps) {
-    let weighted = 0;
-    let totalProb = 0;
-    for (const market of candleResults) {
-      const p = findCloseAtOrBefore(market.candles, ts);
-      if (p == null) continue;
-      weighted += market.seats * p;
-      totalProb += p;
-    }
-    if (totalProb > 0) {
-      points.push({ timestamp: ts, value: weighted / totalProb });
+    const entries: Array<ScalarStrike & { probability: number }> = [];
+    for (const { candles, ...strike } of candleResults) {
+      const p = findCloseAtOrBefore(candles, ts);
+      if (p != null) entries.push({ ...strike, probability: p });
     }
+    const distribution = buildScalarDistribution(entries, layout, threshold);
+    if (!distribution) continue;
+    const { bins, ...summary } = distribution;
+    points.push({ timestamp: ts, value: summary.mean });
+    bands.push({ timestamp: ts, ...summary });
+    latest = { bins, ...summary };
   }
 
-  return points;
+  return { layout, points, bands, latest };
 }
 
 async function fetchTrumpApprovalProjection(
@@ -805,7 +1133,7 @@ async function fetchTrumpApprovalProjection(
   timeframe: Timeframe,
   customRange?: { startMs: number; endMs: number }
 ): Promise<ProjectionPoint[]> {
-  const url = endpoint.startsWith('http') ? new URL(endpoint) : new URL(endpoint, window.location.origin);
+  const url = resolveEndpointUrl(endpoint);
   const data = await fetchJsonOrThrow<CivicApprovalResponse>(url, {}, 'Trump approval polls');
   const { startMs, endMs } = getTimeWindow(timeframe, customRange);
 
@@ -843,15 +1171,10 @@ async function fetchTrumpApprovalProjection(
   if (daily.length <= 2) return daily;
 
   // 2) Apply EMA smoothing to reduce poll noise while preserving trend direction.
-  const alpha = 0.35;
-  const smoothed: ProjectionPoint[] = [];
-  let ema = daily[0].value;
-  for (const p of daily) {
-    ema = alpha * p.value + (1 - alpha) * ema;
-    smoothed.push({ timestamp: p.timestamp, value: Math.max(0, Math.min(100, ema)) });
-  }
-
-  return smoothed;
+  return exponentialSmoothing(daily, 0.35).map((p) => ({
+    timestamp: p.timestamp,
+    value: Math.max(0, Math.min(100, p.value)),
+  }));
 }
 
 async function fetchFredSeriesProjection(
@@ -862,7 +1185,7 @@ async function fetchFredSeriesProjection(
   apiKey?: string
 ): Promise<ProjectionPoint[]> {
   const { startMs, endMs } = getTimeWindow(timeframe, customRange);
-  const url = endpoint.startsWith('http') ? new URL(endpoint) : new URL(endpoint, window.location.origin);
+  const url = resolveEndpointUrl(endpoint);
   url.searchParams.set('series_id', seriesId);
   url.searchParams.set('file_type', 'json');
   url.searchParams.set('sort_order', 'asc');
@@ -886,59 +1209,288 @@ function ChartContent({
   marketId,
   apiBaseUrl,
   apiKey,
+  apiOrigin = window.location.origin,
   showVolume = true,
   seriesTicker,
   marketTitle,
+  newsQuery = DEFAULT_NEWS_QUERY,
   projectionMarketId,
   projectionSeriesTicker,
   projectionEventTicker,
-  projectionLabel = 'Seat Projection',
+  projectionLabel = 'Projection',
+  projectionNewsQuery,
+  projectionStrikeKey,
+  projectionUnit,
+  projectionAxisLabel = projectionLabel,
+  projectionThreshold,
+  projectionThresholdLabel,
+  projectionComplement,
   comboMarketId,
   comboSeriesTicker,
   comboLabel = 'Blue Wave Combo',
+  comboNewsQuery,
   controlsMarketId,
   controlsSeriesTicker,
   controlsLabel = 'Dem Control',
+  controlsNewsQuery,
   trumpApprovalLabel = 'Trump Approval',
-  trumpApprovalEndpoint = '/api/civic/api/v2/poll/approval/donald-trump',
+  trumpApprovalEndpoint: trumpApprovalPath = '/api/civic/api/v2/poll/approval/donald-trump',
   fredApiKey,
-  fredEndpoint = '/api/fred/fred/series/observations',
+  fredEndpoint: fredPath = '/api/fred/fred/series/observations',
+  fredSearchEndpoint: fredSearchPath = '/api/fred/fred/series/search',
   sp500Label = 'S&P 500',
   unemploymentLabel = 'US Unemployment',
+  streamEndpoint: streamPath = '/api/kalshi-stream',
+  layout = 'full',
+  theme = CHART_THEMES.dark,
+  initialView: initialViewProp,
+  onViewChange,
+  onPriceChange,
 }: KalshiMarketPriceChartProps) {
-  const [timeframe, setTimeframe] = useState<Timeframe>('7D');
-  const [customStartDraft, setCustomStartDraft] = useState<string>(() => toDateTimeLocal(Date.now() - 14 * 24 * 60 * 60 * 1000));
-  const [customEndDraft, setCustomEndDraft] = useState<string>(() => toDateTimeLocal(Date.now()));
-  const [customRangeApplied, setCustomRangeApplied] = useState<{ startMs: number; endMs: number } | null>(null);
+  const location = useLocation();
+  const [initialView] = useState(() => initialViewProp ?? parseChartViewState(location.search));
+  const ownsUrl = !initialViewProp;
+  const compact = layout === 'compact';
+  const [timeframe, setTimeframe] = useState<Timeframe>(initialView.timeframe);
+  const [customStartDraft, setCustomStartDraft] = useState<string>(() =>
+    toDateTimeLocal(initialView.customRange?.startMs ?? Date.now() - 14 * 24 * 60 * 60 * 1000)
+  );
+  const [customEndDraft, setCustomEndDraft] = useState<string>(() =>
+    toDateTimeLocal(initialView.customRange?.endMs ?? Date.now())
+  );
+  const [customRangeApplied, setCustomRangeApplied] = useState<{ startMs: number; endMs: number } | null>(
+    initialView.customRange
+  );
   const [isDragging, setIsDragging] = useState(false);
   const [dragSelection, setDragSelection] = useState<{ startIndex: number; endIndex: number } | null>(null);
-  const [showProjection, setShowProjection] = useState(false);
-  const [showCombo, setShowCombo] = useState(false);
-  const [showControls, setShowControls] = useState(false);
-  const [showTrumpApproval, setShowTrumpApproval] = useState(false);
-  const [showSp500, setShowSp500] = useState(false);
-  const [showUnemployment, setShowUnemployment] = useState(false);
-  const [compareTickerInput, setCompareTickerInput] = useState('');
-  const [compareInputError, setCompareInputError] = useState<string | null>(null);
-  const [customCompareMarkets, setCustomCompareMarkets] = useState<CustomCompareMarket[]>([]);
+  // The last measured span outlives the drag so the data export can be limited to it.
+  const [exportSelection, setExportSelection] = useState<{
+    marketId: string;
+    timeframe: Timeframe;
+    startMs: number;
+    endMs: number;
+    candleCount: number;
+  } | null>(null);
+  const [showProjection, setShowProjection] = useState(initialView.overlays.includes('projection'));
+  const [showDistribution, setShowDistribution] = useState(initialView.overlays.includes('distribution'));
+  const [showCombo, setShowCombo] = useState(initialView.overlays.includes('combo'));
+  const [showControls, setShowControls] = useState(initialView.overlays.includes('controls'));
+  const [showBalance, setShowBalance] = useState(initialView.overlays.includes('balance'));
+  const [showTrumpApproval, setShowTrumpApproval] = useState(initialView.overlays.includes('trump'));
+  const [showSp500, setShowSp500] = useState(initialView.overlays.includes('sp500'));
+  const [showUnemployment, setShowUnemployment] = useState(initialView.overlays.includes('unemployment'));
+  const [customCompareMarkets, setCustomCompareMarkets] = useState<CustomCompareMarket[]>(() =>
+    toCustomCompareMarkets(initialView.compareMarkets, [])
+  );
+  const [customFredSeries, setCustomFredSeries] = useState<CustomFredSeries[]>(() =>
+    toCustomFredSeries(initialView.fredSeries, [])
+  );
   const [revealProgress, setRevealProgress] = useState(1);
+  const [streamingEnabled, setStreamingEnabled] = useState(false);
+  const [showOrderbook, setShowOrderbook] = useState(initialView.overlays.includes('orderbook'));
+  const [showTradesTape, setShowTradesTape] = useState(initialView.overlays.includes('tape'));
+  const [showTakerFlow, setShowTakerFlow] = useState(initialView.overlays.includes('takerFlow'));
+  const [chartStyle, setChartStyle] = useState<ChartStyle>(initialView.chartStyle);
+  const [priceSource, setPriceSource] = useState<PriceSource>(initialView.priceSource);
+  const [showBidAskBand, setShowBidAskBand] = useState(initialView.overlays.includes('bidAsk'));
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>(initialView.indicators);
+  const [showCorrelation, setShowCorrelation] = useState(initialView.overlays.includes('correlation'));
+  const [showNewsMarkers, setShowNewsMarkers] = useState(initialView.overlays.includes('news'));
+  const [showNewsFeed, setShowNewsFeed] = useState(initialView.overlays.includes('newsFeed'));
+  const [showMoves, setShowMoves] = useState(initialView.overlays.includes('moves'));
+  const [showAlerts, setShowAlerts] = useState(initialView.overlays.includes('alerts'));
+  const [moveDetectorConfig, setMoveDetectorConfig] = useState<MoveDetectorConfig>(DEFAULT_MOVE_DETECTOR_CONFIG);
+  const [hoveredNews, setHoveredNews] = useState<{ id: string; x: number; y: number } | null>(null);
   const isMobile = useIsMobile();
   const chartRef = useRef<any>(null);
+  const hasWrittenUrlRef = useRef(false);
+  const queryClient = useQueryClient();
+  const kalshiClient = useMemo(() => createKalshiClient({ baseUrl: apiBaseUrl, apiKey }), [apiBaseUrl, apiKey]);
+  const trumpApprovalEndpoint = absoluteEndpoint(trumpApprovalPath, apiOrigin);
+  const fredEndpoint = absoluteEndpoint(fredPath, apiOrigin);
+  const fredSearchEndpoint = absoluteEndpoint(fredSearchPath, apiOrigin);
+  const streamEndpoint = absoluteEndpoint(streamPath, apiOrigin);
+  const newsEndpoint = absoluteEndpoint(DEFAULT_NEWS_ENDPOINT, apiOrigin);
+
+  const viewState = useMemo<ChartViewState>(() => {
+    const overlayFlags: Record<ChartOverlayKey, boolean> = {
+      projection: showProjection,
+      distribution: showDistribution,
+      combo: showCombo,
+      controls: showControls,
+      balance: showBalance,
+      trump: showTrumpApproval,
+      sp500: showSp500,
+      unemployment: showUnemployment,
+      bidAsk: showBidAskBand,
+      orderbook: showOrderbook,
+      tape: showTradesTape,
+      takerFlow: showTakerFlow,
+      correlation: showCorrelation,
+      news: showNewsMarkers,
+      newsFeed: showNewsFeed,
+      moves: showMoves,
+      alerts: showAlerts,
+    };
+    return {
+      timeframe,
+      customRange: customRangeApplied,
+      overlays: (Object.keys(overlayFlags) as ChartOverlayKey[]).filter((key) => overlayFlags[key]),
+      compareMarkets: customCompareMarkets.map((m) => ({
+        ticker: m.ticker,
+        seriesTicker: m.seriesTicker,
+        enabled: m.enabled,
+        colorTop: m.colorTop,
+        colorBottom: m.colorBottom,
+        newsQuery: m.newsQuery,
+      })),
+      fredSeries: customFredSeries.map(({ seriesId, transform, enabled }) => ({ seriesId, transform, enabled })),
+      indicators,
+      chartStyle,
+      priceSource,
+    };
+  }, [
+    timeframe,
+    customRangeApplied,
+    showProjection,
+    showDistribution,
+    showCombo,
+    showControls,
+    showBalance,
+    showTrumpApproval,
+    showSp500,
+    showUnemployment,
+    showBidAskBand,
+    showOrderbook,
+    showTradesTape,
+    showTakerFlow,
+    showCorrelation,
+    showNewsMarkers,
+    showNewsFeed,
+    showMoves,
+    showAlerts,
+    customCompareMarkets,
+    customFredSeries,
+    indicators,
+    chartStyle,
+    priceSource,
+  ]);
+  const viewSearch = serializeChartViewState(viewState, location.search);
+
+  const applyViewState = (view: ChartViewState) => {
+    setTimeframe(view.timeframe);
+    setCustomRangeApplied(view.customRange);
+    if (view.customRange) {
+      setCustomStartDraft(toDateTimeLocal(view.customRange.startMs));
+      setCustomEndDraft(toDateTimeLocal(view.customRange.endMs));
+    }
+    setShowProjection(view.overlays.includes('projection'));
+    setShowDistribution(view.overlays.includes('distribution'));
+    setShowCombo(view.overlays.includes('combo'));
+    setShowControls(view.overlays.includes('controls'));
+    setShowBalance(view.overlays.includes('balance'));
+    setShowTrumpApproval(view.overlays.includes('trump'));
+    setShowSp500(view.overlays.includes('sp500'));
+    setShowUnemployment(view.overlays.includes('unemployment'));
+    setShowBidAskBand(view.overlays.includes('bidAsk'));
+    setShowOrderbook(view.overlays.includes('orderbook'));
+    setShowTradesTape(view.overlays.includes('tape'));
+    setShowTakerFlow(view.overlays.includes('takerFlow'));
+    setShowCorrelation(view.overlays.includes('correlation'));
+    setShowNewsMarkers(view.overlays.includes('news'));
+    setShowNewsFeed(view.overlays.includes('newsFeed'));
+    setShowMoves(view.overlays.includes('moves'));
+    setShowAlerts(view.overlays.includes('alerts'));
+    setCustomCompareMarkets((prev) => toCustomCompareMarkets(view.compareMarkets, prev));
+    setCustomFredSeries((prev) => toCustomFredSeries(view.fredSeries, prev));
+    setIndicators(view.indicators);
+    setChartStyle(view.chartStyle);
+    setPriceSource(view.priceSource);
+  };
+
+  // Another market's workspace is opened through its route so the page remounts with that market.
+  const openWorkspace = (workspace: ChartWorkspace) => {
+    if (workspace.marketId.toUpperCase() === marketId.toUpperCase()) applyViewState(workspace.view);
+    else navigate(`${marketPath(workspace.marketId)}${serializeChartViewState(workspace.view)}`);
+  };
+
+  // Back/forward lands on a URL this component did not write; adopt it during render so the
+  // restored view and the URL never disagree for a frame.
+  const [syncedSearch, setSyncedSearch] = useState(location.search);
+  if (ownsUrl && location.search !== syncedSearch) {
+    setSyncedSearch(location.search);
+    if (location.search !== viewSearch) applyViewState(parseChartViewState(location.search));
+  }
+
+  useEffect(() => {
+    if (!ownsUrl) return;
+    // CUSTOM is briefly rangeless until the default window is applied; skip that intermediate URL.
+    if (timeframe === 'CUSTOM' && !customRangeApplied) return;
+    const replace = !hasWrittenUrlRef.current;
+    hasWrittenUrlRef.current = true;
+    if (viewSearch === window.location.search) return;
+    navigate(`${window.location.pathname}${viewSearch}`, { replace });
+  }, [ownsUrl, viewSearch, timeframe, customRangeApplied]);
+
+  const onViewChangeRef = useRef(onViewChange);
+  const onPriceChangeRef = useRef(onPriceChange);
+
+  useEffect(() => {
+    onViewChangeRef.current = onViewChange;
+    onPriceChangeRef.current = onPriceChange;
+  }, [onViewChange, onPriceChange]);
+
+  useEffect(() => {
+    onViewChangeRef.current?.(viewState);
+  }, [viewState]);
+
+  const priceQueryKey = [
+    'market-prices',
+    marketId,
+    timeframe,
+    apiBaseUrl,
+    seriesTicker,
+    customRangeApplied?.startMs ?? null,
+    customRangeApplied?.endMs ?? null,
+    priceSource,
+  ];
+  const streamStatus = useKalshiStream({
+    enabled: streamingEnabled && timeframe !== 'CUSTOM',
+    endpoint: streamEndpoint,
+    tickers: [marketId],
+    onTick: (tick) => {
+      if (tick.ticker !== marketId) return;
+      const periodMs = getPeriodIntervalMs(timeframe, customRangeApplied ?? undefined);
+      queryClient.setQueryData<PriceResponse>(priceQueryKey, (prev) =>
+        prev ? { ...prev, candles: applyStreamTick(prev.candles, tick, periodMs, priceSource) } : prev
+      );
+    },
+  });
+
+  // While the stream is live it keeps the latest candle current; polling only resyncs history.
+  const priceRefetchInterval = streamStatus === 'open' ? 120_000 : 20_000;
+  const alertRules = useAlertRules();
+  const alertTickers = useMemo(
+    () => new Set(alertRules.filter((r) => r.enabled).map((r) => r.ticker.toUpperCase())),
+    [alertRules]
+  );
 
   const query = useQuery({
-    queryKey: [
-      'market-prices',
-      marketId,
-      timeframe,
-      apiBaseUrl,
-      seriesTicker,
-      customRangeApplied?.startMs ?? null,
-      customRangeApplied?.endMs ?? null,
-    ],
-    queryFn: () =>
-      fetchMarketPrices(apiBaseUrl, marketId, timeframe, apiKey, seriesTicker, customRangeApplied ?? undefined),
+    queryKey: priceQueryKey,
+    queryFn: async () => {
+      const response = await fetchMarketPrices(
+        apiBaseUrl,
+        marketId,
+        timeframe,
+        apiKey,
+        seriesTicker,
+        customRangeApplied ?? undefined,
+        priceSource
+      );
+      return response;
+    },
     staleTime: 30_000,
-    refetchInterval: 20_000,
+    refetchInterval: priceRefetchInterval,
     refetchIntervalInBackground: true,
     retry: 1,
     enabled: Boolean(marketId && apiBaseUrl),
@@ -952,20 +1504,24 @@ function ChartContent({
       timeframe,
       apiBaseUrl,
       projectionSeriesTicker,
+      projectionStrikeKey,
+      projectionThreshold,
       marketId,
       query.data?.candles?.length ?? 0,
     ],
     queryFn: async () => {
       if (projectionEventTicker) {
-        const points = await fetchExpectedSeatsProjection(
+        const scalar = await fetchScalarProjection(
           apiBaseUrl,
           projectionEventTicker,
           timeframe,
           apiKey,
           projectionSeriesTicker || seriesTicker,
-          query.data?.candles?.map((c) => c.timestamp)
+          query.data?.candles?.map((c) => c.timestamp),
+          projectionStrikeKey,
+          projectionThreshold
         );
-        return { mode: 'seats' as const, points };
+        return { mode: 'scalar' as const, ...scalar };
       }
       const single = await fetchMarketPrices(
         apiBaseUrl,
@@ -978,12 +1534,14 @@ function ChartContent({
       return {
         mode: 'percent' as const,
         points: single.candles.map((c) => ({ timestamp: c.timestamp, value: c.close * 100 })),
+        bands: [],
+        latest: null,
       };
     },
     staleTime: 30_000,
     retry: 1,
     enabled: Boolean(
-      showProjection &&
+      (showProjection || (showDistribution && projectionEventTicker)) &&
         apiBaseUrl &&
         ((projectionEventTicker && (projectionSeriesTicker || seriesTicker)) || projectionMarketId)
     ),
@@ -991,34 +1549,38 @@ function ChartContent({
 
   const comboQuery = useQuery({
     queryKey: ['combo-prices', comboMarketId, timeframe, apiBaseUrl, comboSeriesTicker, seriesTicker],
-    queryFn: () =>
-      fetchMarketPrices(
+    queryFn: async () => {
+      const response = await fetchMarketPrices(
         apiBaseUrl,
         comboMarketId as string,
         timeframe,
         apiKey,
         comboSeriesTicker || seriesTicker,
         customRangeApplied ?? undefined
-      ),
+      );
+      return response;
+    },
     staleTime: 30_000,
     retry: 1,
-    enabled: Boolean(showCombo && comboMarketId && apiBaseUrl),
+    enabled: Boolean((showCombo || (showBalance && controlsMarketId)) && comboMarketId && apiBaseUrl),
   });
 
   const controlsQuery = useQuery({
     queryKey: ['controls-prices', controlsMarketId, timeframe, apiBaseUrl, controlsSeriesTicker, seriesTicker],
-    queryFn: () =>
-      fetchMarketPrices(
+    queryFn: async () => {
+      const response = await fetchMarketPrices(
         apiBaseUrl,
         controlsMarketId as string,
         timeframe,
         apiKey,
         controlsSeriesTicker || seriesTicker,
         customRangeApplied ?? undefined
-      ),
+      );
+      return response;
+    },
     staleTime: 30_000,
     retry: 1,
-    enabled: Boolean(showControls && controlsMarketId && apiBaseUrl),
+    enabled: Boolean((showControls || showBalance) && controlsMarketId && apiBaseUrl),
   });
 
   const trumpApprovalQuery = useQuery({
@@ -1051,6 +1613,28 @@ function ChartContent({
     enabled: Boolean(showUnemployment && fredEndpoint),
   });
 
+  // Raw observations are cached per series, so switching a transform redraws without refetching.
+  const customFredQueries = useQueries({
+    queries: customFredSeries.map((series) => ({
+      queryKey: [
+        'fred-custom',
+        series.seriesId,
+        timeframe,
+        fredEndpoint,
+        customRangeApplied?.startMs ?? null,
+        customRangeApplied?.endMs ?? null,
+        !!fredApiKey,
+      ],
+      queryFn: () => {
+        const { startMs, endMs } = getTimeWindow(timeframe, customRangeApplied ?? undefined);
+        return fetchFredObservations(fredEndpoint, series.seriesId, startMs, endMs, fredApiKey);
+      },
+      staleTime: 60_000,
+      retry: 1,
+      enabled: Boolean(series.enabled && fredEndpoint),
+    })),
+  });
+
   const customCompareQueries = useQueries({
     queries: customCompareMarkets.map((overlay) => ({
       queryKey: [
@@ -1062,32 +1646,57 @@ function ChartContent({
         customRangeApplied?.startMs ?? null,
         customRangeApplied?.endMs ?? null,
       ],
-      queryFn: () =>
-        fetchMarketPrices(
+      queryFn: async () => {
+        const response = await fetchMarketPrices(
           apiBaseUrl,
           overlay.ticker,
           timeframe,
           apiKey,
           overlay.seriesTicker,
           customRangeApplied ?? undefined
-        ),
+        );
+        return response;
+      },
       staleTime: 30_000,
       retry: 1,
       enabled: Boolean(apiBaseUrl && overlay.enabled),
     })),
   });
 
+  const takerFlowQuery = useQuery({
+    queryKey: [
+      'market-trades-flow',
+      marketId,
+      timeframe,
+      apiBaseUrl,
+      customRangeApplied?.startMs ?? null,
+      customRangeApplied?.endMs ?? null,
+    ],
+    queryFn: () => {
+      const { startMs, endMs } = getTimeWindow(timeframe, customRangeApplied ?? undefined);
+      return fetchTradeWindow(kalshiClient, marketId, startMs, endMs);
+    },
+    staleTime: 30_000,
+    refetchInterval: priceRefetchInterval,
+    retry: 1,
+    enabled: Boolean(showTakerFlow && marketId && apiBaseUrl),
+  });
+
   const headlinesQuery = useQuery({
-    queryKey: ['political-headlines'],
-    queryFn: () => fetchPoliticalHeadlines(4),
+    queryKey: ['news-headlines', newsQuery, newsEndpoint],
+    // Only the first few scroll in the ticker tape; the rest are kept for timeline markers.
+    queryFn: () => fetchNewsHeadlines(newsQuery, { endpoint: newsEndpoint }),
     staleTime: 15 * 60_000,
     refetchInterval: 30 * 60_000,
     retry: 1,
   });
 
-  const candles = query.data?.candles ?? [];
+  const candles = useMemo(() => query.data?.candles ?? [], [query.data]);
   const projectionPointsRaw = projectionQuery.data?.points ?? [];
   const projectionMode = projectionQuery.data?.mode ?? null;
+  const showProjectionDistribution = showDistribution && Boolean(projectionEventTicker);
+  const showProjectionAxis = projectionMode === 'scalar' && (showProjection || showProjectionDistribution);
+  const showBalancePanel = showBalance && Boolean(controlsMarketId);
   const comboPointsRaw = comboQuery.data?.candles?.map((c) => ({ timestamp: c.timestamp, value: c.close * 100 })) ?? [];
   const controlsPointsRaw =
     controlsQuery.data?.candles?.map((c) => ({ timestamp: c.timestamp, value: c.close * 100 })) ?? [];
@@ -1095,19 +1704,56 @@ function ChartContent({
   const sp500PointsRaw = sp500Query.data ?? [];
   const unemploymentPointsRaw = unemploymentQuery.data ?? [];
   const timestamps = useMemo(() => candles.map((c) => c.timestamp), [candles]);
+  const takerFlow = useMemo(
+    () =>
+      takerFlowQuery.data
+        ? bucketNetTakerFlow(takerFlowQuery.data.trades, timestamps, takerFlowQuery.data.coveredFromMs)
+        : [],
+    [takerFlowQuery.data, timestamps]
+  );
   const latestCandle = candles.length > 0 ? candles[candles.length - 1] : null;
   const liveVolume = latestCandle?.updates ?? 0;
   const liveProbability = latestCandle ? latestCandle.close * 100 : null;
   const liveProbabilityClamped =
     liveProbability == null ? null : Math.max(0, Math.min(100, liveProbability));
-  const headlines = headlinesQuery.data ?? [];
+  const latestTimestamp = latestCandle?.timestamp ?? null;
+
+  useEffect(() => {
+    if (liveProbability == null || latestTimestamp == null) return;
+    onPriceChangeRef.current?.({ probability: liveProbability, timestamp: latestTimestamp });
+  }, [liveProbability, latestTimestamp]);
+
+  const headlines = useMemo(() => headlinesQuery.data ?? [], [headlinesQuery.data]);
   const hasData = candles.length > 0;
   const showVolumeBars = Boolean(showVolume && !isMobile);
+  const showSidePanel =
+    showOrderbook ||
+    showTradesTape ||
+    showCorrelation ||
+    showNewsFeed ||
+    showMoves ||
+    showAlerts ||
+    showProjectionDistribution ||
+    showBalancePanel;
   const marketRange = useMemo(() => {
     if (candles.length === 0) return null;
     return { startMs: candles[0].timestamp, endMs: candles[candles.length - 1].timestamp };
   }, [candles]);
   const projectionPoints = useMemo(() => clipPointsToRange(projectionPointsRaw, marketRange), [projectionPointsRaw, marketRange]);
+  const balanceSeries = useMemo(() => {
+    if (!showBalancePanel || !controlsQuery.data) return [];
+    const toPoints = (rows: Candle[]) => rows.map((c) => ({ timestamp: c.timestamp, value: c.close * 100 }));
+    return buildControlSeries(
+      timestamps,
+      toPoints(candles),
+      toPoints(controlsQuery.data.candles),
+      comboMarketId && comboQuery.data ? toPoints(comboQuery.data.candles) : null
+    );
+  }, [showBalancePanel, timestamps, candles, controlsQuery.data, comboMarketId, comboQuery.data]);
+  const projectionBands = useMemo(
+    () => clipPointsToRange(projectionQuery.data?.bands ?? [], marketRange),
+    [projectionQuery.data, marketRange]
+  );
   const comboPoints = useMemo(() => clipPointsToRange(comboPointsRaw, marketRange), [comboPointsRaw, marketRange]);
   const controlsPoints = useMemo(() => clipPointsToRange(controlsPointsRaw, marketRange), [controlsPointsRaw, marketRange]);
   const trumpApprovalPoints = useMemo(() => clipPointsToRange(trumpApprovalPointsRaw, marketRange), [trumpApprovalPointsRaw, marketRange]);
@@ -1131,20 +1777,192 @@ function ChartContent({
       }),
     [customCompareMarkets, customCompareQueries, marketRange]
   );
-  const customOverlayColorMap = useMemo(
+  const customFredOverlays = useMemo(
     () =>
-      customCompareOverlays.reduce<Record<string, string>>((acc, overlay) => {
-        acc[overlay.label] = overlay.colorTop;
-        return acc;
-      }, {}),
-    [customCompareOverlays]
-  );
-  const tickerTapeText = useMemo(() => {
+      customFredSeries.map((series, idx) => {
+        const q = customFredQueries[idx];
+        const points =
+          q?.data && marketRange
+            ? clipPointsToRange(applyFredTransform(q.data, series.transform, marketRange.startMs), marketRange)
+            : [];
+        return {
+          ...series,
+          label: fredOverlayLabel(series),
+          axisId: fredAxisId(series.seriesId, series.transform),
+          points,
+          isLoading: Boolean(q?.isLoading),
+          isError: Boolean(q?.isError),
+        };
+      }),
+    [customFredSeries, customFredQueries, marketRange]
+  );
+  // One axis per group of series that share units; see fredAxisId.
+  const fredAxes = useMemo(() => {
+    const axes: FredAxis[] = [];
+    for (const overlay of customFredOverlays) {
+      if (!overlay.enabled || overlay.points.length === 0) continue;
+      const values = overlay.points.map((p) => p.value);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      const axis = axes.find((a) => a.id === overlay.axisId);
+      if (axis) {
+        axis.min = Math.min(axis.min, min);
+        axis.max = Math.max(axis.max, max);
+        continue;
+      }
+      const units = overlay.info?.unitsShort;
+      axes.push({
+        id: overlay.axisId,
+        title:
+          overlay.transform === 'level'
+            ? `${overlay.seriesId}${units ? ` (${units})` : ''}`
+            : overlay.transform === 'index'
+              ? 'FRED Index (start = 100)'
+              : 'FRED % Change',
+        color: overlay.color,
+        transform: overlay.transform,
+        min,
+        max,
+      });
+    }
+    return axes.map((axis) => {
+      const pad = Math.max((axis.max - axis.min) * 0.1, Math.abs(axis.max) * 0.005, 0.1);
+      return { ...axis, min: axis.min - pad, max: axis.max + pad };
+    });
+  }, [customFredOverlays]);
+  const fredOverlayColorMap = useMemo(
+    () => Object.fromEntries(customFredOverlays.map((overlay) => [overlay.label, overlay.color])),
+    [customFredOverlays]
+  );
+  const fredValueFormats = useMemo(
+    () =>
+      new Map(
+        customFredOverlays.map((overlay) => [
+          overlay.label,
+          (value: number) => formatFredValue(value, overlay.transform, overlay.info?.unitsShort),
+        ])
+      ),
+    [customFredOverlays]
+  );
+  const customOverlayColorMap = useMemo(
+    () =>
+      customCompareOverlays.reduce<Record<string, string>>((acc, overlay) => {
+        acc[overlay.label] = overlay.colorTop;
+        return acc;
+      }, {}),
+    [customCompareOverlays]
+  );
+  // Only series that are on screen feed indicators and correlations; a hidden source leaves its indicator idle.
+  const visibleSeries = useMemo(() => {
+    const sources: Array<{ id: string; label: string; points: ProjectionPoint[]; yAxisID: string }> = [
+      { id: 'price', label: 'Price', points: candleCloses(candles), yAxisID: 'yPrice' },
+    ];
+    const projectionAxis = projectionMode === 'scalar' ? 'yProjection' : 'yPrice';
+    const overlays: Array<[boolean, string, string, ProjectionPoint[], string]> = [
+      [showProjection, 'projection', projectionLabel, projectionPoints, projectionAxis],
+      [showCombo, 'combo', comboLabel, comboPoints, 'yPrice'],
+      [showControls, 'controls', controlsLabel, controlsPoints, 'yPrice'],
+      [showTrumpApproval, 'trump', trumpApprovalLabel, trumpApprovalPoints, 'yPrice'],
+      [showSp500, 'sp500', sp500Label, sp500Points, 'ySp500'],
+      [showUnemployment, 'unemployment', unemploymentLabel, unemploymentPoints, 'yUnemployment'],
+    ];
+    for (const [visible, id, label, points, yAxisID] of overlays) {
+      if (visible && points.length > 0) sources.push({ id, label, points, yAxisID });
+    }
+    for (const overlay of customCompareOverlays) {
+      if (overlay.enabled && overlay.points.length > 0) {
+        sources.push({ id: overlay.ticker, label: overlay.ticker, points: overlay.points, yAxisID: 'yPrice' });
+      }
+    }
+    for (const overlay of customFredOverlays) {
+      if (overlay.enabled && overlay.points.length > 0) {
+        sources.push({
+          id: `fred:${overlay.seriesId}`,
+          label: overlay.label,
+          points: overlay.points,
+          yAxisID: overlay.axisId,
+        });
+      }
+    }
+    return sources;
+  }, [
+    candles,
+    showProjection,
+    projectionLabel,
+    projectionPoints,
+    projectionMode,
+    showCombo,
+    comboLabel,
+    comboPoints,
+    showControls,
+    controlsLabel,
+    controlsPoints,
+    showTrumpApproval,
+    trumpApprovalLabel,
+    trumpApprovalPoints,
+    showSp500,
+    sp500Label,
+    sp500Points,
+    showUnemployment,
+    unemploymentLabel,
+    unemploymentPoints,
+    customCompareOverlays,
+    customFredOverlays,
+  ]);
+  const indicatorSeries = useMemo(
+    () =>
+      indicators.map((config, idx) => {
+        const source = visibleSeries.find((s) => s.id === config.source);
+        return {
+          config,
+          token: formatIndicatorToken(config),
+          label: indicatorLabel(config, source?.label ?? config.source),
+          color: INDICATOR_COLORS[idx % INDICATOR_COLORS.length],
+          placement: INDICATOR_DEFINITIONS[config.kind].placement,
+          yAxisID: source?.yAxisID ?? 'yPrice',
+          lines: source ? computeIndicator(config, source.points) : [],
+        };
+      }),
+    [indicators, visibleSeries]
+  );
+  const indicatorColorMap = useMemo(
+    () =>
+      indicatorSeries.reduce<Record<string, string>>((acc, series) => {
+        acc[series.label] = series.color;
+        acc[`${series.label} Upper`] = series.color;
+        acc[`${series.label} Lower`] = series.color;
+        return acc;
+      }, {}),
+    [indicatorSeries]
+  );
+  const addIndicator = (config: IndicatorConfig) => {
+    const token = formatIndicatorToken(config);
+    setIndicators((prev) => (prev.some((c) => formatIndicatorToken(c) === token) ? prev : [...prev, config]));
+  };
+
+  const headlinesByLink = useMemo(() => new Map(headlines.map((h) => [h.link, h])), [headlines]);
+  const newsMarkers = useMemo(() => {
+    if (!marketRange) return [];
+    return headlines
+      .map((h) => ({ id: h.link, ts: Date.parse(h.pubDate) }))
+      .filter((m) => Number.isFinite(m.ts) && m.ts >= marketRange.startMs && m.ts <= marketRange.endMs);
+  }, [headlines, marketRange]);
+  const attributedMoves = useMemo(() => {
+    if (!showMoves) return [];
+    const moves = detectMoves(candleCloses(candles), moveDetectorConfig);
+    // Headlines up to a day (or one move horizon, if longer) either side of the move are fair candidates.
+    const periodMs = getPeriodIntervalMs(timeframe, customRangeApplied ?? undefined);
+    return attributeMoves(moves, headlines, Math.max(24 * 60 * 60 * 1000, periodMs * moveDetectorConfig.horizonBars));
+  }, [showMoves, candles, moveDetectorConfig, headlines, timeframe, customRangeApplied]);
+  const hoveredHeadline = showNewsMarkers && hoveredNews ? headlinesByLink.get(hoveredNews.id) ?? null : null;
+
+  const tickerTapeText = useMemo(() => {
     const base = `LIVE VOLUME ${formatCompact(liveVolume)} | UPDATED ${
       latestCandle ? new Date(latestCandle.timestamp).toLocaleTimeString() : '--:--'
     } | News De Jure`;
     if (headlines.length > 0) {
       const headlineText = headlines
+        .slice(0, TICKER_TAPE_HEADLINES)
         .map((h) => {
           const date = h.pubDate ? new Date(h.pubDate) : null;
           const datePart = date && Number.isFinite(date.getTime()) ? date.toLocaleDateString() : null;
@@ -1153,41 +1971,131 @@ function ChartContent({
         .join('   •   ');
       return `${base}   •   ${headlineText}`;
     }
-    if (headlinesQuery.isLoading) return `${base}   •   LOADING POLITICAL HEADLINES`;
+    if (headlinesQuery.isLoading) return `${base}   •   LOADING HEADLINES`;
     if (headlinesQuery.isError) return `${base}   •   HEADLINES TEMPORARILY UNAVAILABLE`;
     return base;
   }, [headlines, headlinesQuery.isError, headlinesQuery.isLoading, liveVolume, latestCandle]);
 
-  const addCustomCompareMarket = () => {
-    const ticker = compareTickerInput.trim().toUpperCase();
-    if (!ticker) {
-      setCompareInputError('Enter a Kalshi ticker (example: CONTROLS-2026-D).');
-      return;
-    }
-    if (customCompareMarkets.some((m) => m.ticker === ticker)) {
-      setCompareInputError('That market is already added.');
-      return;
-    }
-    const derivedSeries = inferSeriesTicker(ticker);
-    if (!derivedSeries) {
-      setCompareInputError('Ticker format is invalid. Expected format like SERIES-... .');
-      return;
+  const newsFeeds = useMemo<NewsFeed[]>(() => {
+    const feeds: NewsFeed[] = [{ id: 'price', label: marketTitle || marketId, query: newsQuery }];
+    if (projectionNewsQuery) feeds.push({ id: 'projection', label: projectionLabel, query: projectionNewsQuery });
+    if (comboNewsQuery) feeds.push({ id: 'combo', label: comboLabel, query: comboNewsQuery });
+    if (controlsNewsQuery) feeds.push({ id: 'controls', label: controlsLabel, query: controlsNewsQuery });
+    // Compare markets added by ticker alone search for the ticker. Their query is part of the view, so an
+    // edit in the news panel is kept in the link and workspace rather than for the session only.
+    for (const m of customCompareMarkets) {
+      feeds.push({
+        id: m.ticker,
+        label: m.label,
+        query: m.newsQuery ?? m.ticker,
+        onQueryChange: (query) =>
+          setCustomCompareMarkets((prev) =>
+            prev.map((c) => (c.ticker === m.ticker ? { ...c, newsQuery: query || undefined } : c))
+          ),
+      });
     }
-    const color = CUSTOM_OVERLAY_COLORS[customCompareMarkets.length % CUSTOM_OVERLAY_COLORS.length];
+    return feeds;
+  }, [
+    marketTitle,
+    marketId,
+    newsQuery,
+    projectionNewsQuery,
+    projectionLabel,
+    comboNewsQuery,
+    comboLabel,
+    controlsNewsQuery,
+    controlsLabel,
+    customCompareMarkets,
+  ]);
+
+  const alertTargets = useMemo<AlertTarget[]>(() => {
+    const targets: AlertTarget[] = [{ ticker: marketId.toUpperCase(), label: marketTitle || marketId, loaded: true }];
+    if (controlsMarketId) targets.push({ ticker: controlsMarketId, label: controlsLabel, loaded: showControls });
+    if (comboMarketId) targets.push({ ticker: comboMarketId, label: comboLabel, loaded: showCombo });
+    for (const m of customCompareMarkets) targets.push({ ticker: m.ticker, label: m.label, loaded: m.enabled });
+    return targets;
+  }, [
+    marketId,
+    marketTitle,
+    controlsMarketId,
+    controlsLabel,
+    showControls,
+    comboMarketId,
+    comboLabel,
+    showCombo,
+    customCompareMarkets,
+  ]);
+
+  // Rules are evaluated on their own fixed-size bars ending now, never on the view's candles, so a daily
+  // chart or a CUSTOM range in the past cannot fire them.
+  const alertSources = useMemo(() => {
+    const series: Record<string, string | null | undefined> = {
+      [marketId.toUpperCase()]: seriesTicker || inferSeriesTicker(marketId),
+    };
+    if (controlsMarketId) series[controlsMarketId.toUpperCase()] = controlsSeriesTicker || seriesTicker;
+    if (comboMarketId) series[comboMarketId.toUpperCase()] = comboSeriesTicker || seriesTicker;
+    for (const m of customCompareMarkets) series[m.ticker.toUpperCase()] = m.seriesTicker;
+    return alertTargets
+      .filter((target) => target.loaded && alertTickers.has(target.ticker.toUpperCase()))
+      .map((target) => ({ ticker: target.ticker, seriesTicker: series[target.ticker.toUpperCase()] }))
+      .filter((source): source is { ticker: string; seriesTicker: string } => Boolean(source.seriesTicker));
+  }, [
+    alertTargets,
+    alertTickers,
+    marketId,
+    seriesTicker,
+    controlsMarketId,
+    controlsSeriesTicker,
+    comboMarketId,
+    comboSeriesTicker,
+    customCompareMarkets,
+  ]);
+
+  useQueries({
+    queries: alertSources.map((source) => {
+      const historyMs = alertHistoryMs(alertRules, source.ticker);
+      return {
+        queryKey: ['alert-bars', source.ticker, source.seriesTicker, apiBaseUrl, historyMs],
+        queryFn: async () => {
+          const bars = await fetchAlertBars(kalshiClient, source.ticker, source.seriesTicker, historyMs);
+          runAlertRules(source.ticker, bars);
+          return bars;
+        },
+        staleTime: 15_000,
+        refetchInterval: 30_000,
+        refetchIntervalInBackground: true,
+        retry: 1,
+      };
+    }),
+  });
+
+  const compareExcludeTickers = useMemo(
+    () => [marketId.toUpperCase(), ...customCompareMarkets.map((m) => m.ticker)],
+    [marketId, customCompareMarkets]
+  );
+
+  const addCustomCompareMarket = ({ ticker, seriesTicker: compareSeries, title }: MarketSearchSelection) => {
+    if (customCompareMarkets.some((m) => m.ticker === ticker)) return;
+    const color = COMPARE_OVERLAY_COLORS[customCompareMarkets.length % COMPARE_OVERLAY_COLORS.length];
     setCustomCompareMarkets((prev) => [
       ...prev,
       {
         id: ticker,
         ticker,
-        seriesTicker: derivedSeries,
+        seriesTicker: compareSeries,
         label: `${ticker} Market`,
         colorTop: color.top,
         colorBottom: color.bottom,
         enabled: true,
+        newsQuery: title && title !== ticker ? title : undefined,
       },
     ]);
-    setCompareInputError(null);
-    setCompareTickerInput('');
+  };
+
+  const addCustomFredSeries = ({ seriesId, transform, info }: FredSeriesSelection) => {
+    if (customFredSeries.some((s) => s.seriesId === seriesId)) return;
+    const color = FRED_OVERLAY_COLORS[customFredSeries.length % FRED_OVERLAY_COLORS.length];
+    setCustomFredSeries((prev) => [...prev, { seriesId, transform, enabled: true, color, info }]);
   };
 
   useEffect(() => {
@@ -1259,8 +2167,23 @@ function ChartContent({
   };
 
   const endDrag = () => {
+    if (!isDragging) return;
     setIsDragging(false);
     setDragSelection(null);
+    const start = dragSelection ? candles[Math.min(dragSelection.startIndex, dragSelection.endIndex)] : undefined;
+    const end = dragSelection ? candles[Math.max(dragSelection.startIndex, dragSelection.endIndex)] : undefined;
+    // A plain click measures a single bar, which also drops the kept selection.
+    setExportSelection(
+      dragSelection && start && end && start !== end
+        ? {
+            marketId,
+            timeframe,
+            startMs: start.timestamp,
+            endMs: end.timestamp,
+            candleCount: Math.abs(dragSelection.endIndex - dragSelection.startIndex) + 1,
+          }
+        : null
+    );
   };
 
   const selectionRange = useMemo(() => {
@@ -1298,6 +2221,19 @@ function ChartContent({
     };
   }, [selectionRange, candles]);
 
+  const activeExportSelection =
+    exportSelection && exportSelection.marketId === marketId && exportSelection.timeframe === timeframe
+      ? exportSelection
+      : null;
+
+  const exportChartData = (format: 'csv' | 'json') => {
+    const table = buildChartExportTable(marketId, candles, visibleSeries.slice(1), activeExportSelection);
+    const scope = activeExportSelection ? 'selection' : timeframe.toLowerCase();
+    const filename = `${marketId.toLowerCase()}-${scope}.${format}`;
+    if (format === 'csv') downloadFile(filename, chartExportToCsv(table), 'text/csv');
+    else downloadFile(filename, chartExportToJson(table), 'application/json');
+  };
+
   const revealedEndIndex = useMemo(() => {
     if (candles.length <= 1) return candles.length - 1;
     if (revealProgress >= 0.995) return candles.length - 1;
@@ -1313,6 +2249,12 @@ function ChartContent({
     return c ? { ts: c.timestamp, price: c.close * 100 } : null;
   }, [candles, revealedEndIndex, showIntroDraw]);
 
+  const displayBars = useMemo(() => {
+    if (chartStyle === 'line') return null;
+    const source = chartStyle === 'heikin-ashi' ? toHeikinAshi(candles) : candles;
+    return source.map((c) => ({ x: c.timestamp, o: c.open * 100, h: c.high * 100, l: c.low * 100, c: c.close * 100 }));
+  }, [candles, chartStyle]);
+
   const chartData = useMemo<ChartData<'bar' | 'line'>>(() => {
     const labels = candles.map((c) => c.timestamp);
     const pricePoints = candles.map((c) => c.close * 100);
@@ -1344,17 +2286,38 @@ function ChartContent({
               },
             ]
           : []),
+        ...(showTakerFlow && takerFlow.length > 0
+          ? [
+              {
+                type: 'bar' as const,
+                label: 'Net Taker Flow',
+                // Periods older than the fetched fills are left blank rather than drawn as zero flow.
+                data: takerFlow.map((b) => (b.complete ? b.net : null)),
+                yAxisID: 'yFlow',
+                backgroundColor: takerFlow.map((b) =>
+                  b.net >= 0 ? 'rgba(34, 197, 94, 0.45)' : 'rgba(239, 68, 68, 0.45)'
+                ),
+                borderColor: takerFlow.map((b) => (b.net >= 0 ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)')),
+                borderWidth: 1,
+                barPercentage: 0.6,
+                categoryPercentage: 0.9,
+                order: 1.5,
+              },
+            ]
+          : []),
         {
           type: 'line' as const,
           label: 'Price',
           data: animatedPricePoints,
           yAxisID: 'yPrice',
           borderColor: (context: any) => {
+            // Bar styles are painted by ohlcCandlesPlugin; the line stays for hover and tooltips.
+            if (chartStyle !== 'line') return 'rgba(0,0,0,0)';
             const area = context.chart?.chartArea;
-            if (!area) return '#ffffff';
+            if (!area) return theme.price;
             const gradient = context.chart.ctx.createLinearGradient(0, area.top, 0, area.bottom);
-            gradient.addColorStop(0, 'rgba(255,255,255,1)');
-            gradient.addColorStop(1, 'rgba(255,255,255,0.92)');
+            gradient.addColorStop(0, hexToRgba(theme.price, 1));
+            gradient.addColorStop(1, hexToRgba(theme.price, 0.92));
             return gradient;
           },
           backgroundColor: 'rgba(148, 163, 184, 0.12)',
@@ -1363,12 +2326,49 @@ function ChartContent({
           pointRadius: 0,
           pointHoverRadius: 4,
           pointHitRadius: 10,
-          pointHoverBackgroundColor: '#ffffff',
-          pointHoverBorderColor: '#ffffff',
+          pointHoverBackgroundColor: theme.price,
+          pointHoverBorderColor: theme.price,
           pointBorderWidth: 0,
           borderWidth: 2.6,
           order: 2,
         },
+        ...(showBidAskBand && candles.some((c) => c.bid != null && c.ask != null)
+          ? [
+              {
+                type: 'line' as const,
+                label: 'Yes Bid',
+                data: candles.map((c) => (c.bid != null ? c.bid * 100 : null)),
+                yAxisID: 'yPrice',
+                borderColor: 'rgba(134, 239, 172, 0.55)',
+                backgroundColor: 'rgba(56, 189, 248, 0.14)',
+                fill: false,
+                stepped: 'after' as const,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+                pointHitRadius: 0,
+                borderWidth: 1,
+                order: 2.6,
+                spanGaps: true,
+              },
+              {
+                type: 'line' as const,
+                label: 'Yes Ask',
+                data: candles.map((c) => (c.ask != null ? c.ask * 100 : null)),
+                yAxisID: 'yPrice',
+                borderColor: 'rgba(252, 165, 165, 0.55)',
+                backgroundColor: 'rgba(56, 189, 248, 0.14)',
+                // Shade down to the bid dataset right before this one.
+                fill: '-1',
+                stepped: 'after' as const,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+                pointHitRadius: 0,
+                borderWidth: 1,
+                order: 2.5,
+                spanGaps: true,
+              },
+            ]
+          : []),
         {
           type: 'line' as const,
           label: 'Measured Range',
@@ -1393,13 +2393,64 @@ function ChartContent({
           order: 3,
           spanGaps: false,
         },
+        ...(showProjectionDistribution && projectionMode === 'scalar' && projectionBands.length > 0
+          ? [
+              {
+                type: 'line' as const,
+                label: `${projectionLabel}${PROJECTION_BAND_SUFFIXES.p10}`,
+                data: projectionBands.map((b) => ({ x: b.timestamp, y: b.p10 })),
+                yAxisID: 'yProjection',
+                borderColor: 'rgba(251, 191, 36, 0.4)',
+                backgroundColor: 'rgba(245, 158, 11, 0.12)',
+                fill: false,
+                // Percentiles land on strike values, so they step rather than slope.
+                stepped: 'after' as const,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+                pointHitRadius: 0,
+                borderWidth: 1,
+                order: 4.4,
+              },
+              {
+                type: 'line' as const,
+                label: `${projectionLabel}${PROJECTION_BAND_SUFFIXES.p90}`,
+                data: projectionBands.map((b) => ({ x: b.timestamp, y: b.p90 })),
+                yAxisID: 'yProjection',
+                borderColor: 'rgba(251, 191, 36, 0.4)',
+                backgroundColor: 'rgba(245, 158, 11, 0.12)',
+                // Shade down to the P10 dataset right before this one.
+                fill: '-1',
+                stepped: 'after' as const,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+                pointHitRadius: 0,
+                borderWidth: 1,
+                order: 4.3,
+              },
+              {
+                type: 'line' as const,
+                label: `${projectionLabel}${PROJECTION_BAND_SUFFIXES.p50}`,
+                data: projectionBands.map((b) => ({ x: b.timestamp, y: b.p50 })),
+                yAxisID: 'yProjection',
+                borderColor: 'rgba(251, 191, 36, 0.85)',
+                borderDash: [5, 4],
+                fill: false,
+                stepped: 'after' as const,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+                pointHitRadius: 0,
+                borderWidth: 1.4,
+                order: 4.2,
+              },
+            ]
+          : []),
         ...(showProjection && projectionPoints.length > 0
           ? [
               {
                 type: 'line' as const,
                 label: `${projectionLabel} Glow`,
                 data: projectionPoints.map((p) => ({ x: p.timestamp, y: p.value })),
-                yAxisID: projectionMode === 'seats' ? 'yProjection' : 'yPrice',
+                yAxisID: projectionMode === 'scalar' ? 'yProjection' : 'yPrice',
                 borderColor: (context: any) => {
                   const area = context.chart?.chartArea;
                   if (!area) return 'rgba(245, 158, 11, 0.42)';
@@ -1420,7 +2471,7 @@ function ChartContent({
                 type: 'line' as const,
                 label: projectionLabel,
                 data: projectionPoints.map((p) => ({ x: p.timestamp, y: p.value })),
-                yAxisID: projectionMode === 'seats' ? 'yProjection' : 'yPrice',
+                yAxisID: projectionMode === 'scalar' ? 'yProjection' : 'yPrice',
                 borderColor: (context: any) => {
                   const area = context.chart?.chartArea;
                   if (!area) return '#f59e0b';
@@ -1711,15 +2762,77 @@ function ChartContent({
             },
           ];
         }),
+        ...customFredOverlays.flatMap((overlay, index) => {
+          if (!overlay.enabled || overlay.points.length === 0) return [];
+          return [
+            {
+              type: 'line' as const,
+              label: `${overlay.label} Glow`,
+              data: overlay.points.map((p) => ({ x: p.timestamp, y: p.value })),
+              yAxisID: overlay.axisId,
+              borderColor: hexToRgba(overlay.color, 0.3),
+              fill: false,
+              tension: 0.15,
+              pointRadius: 0,
+              pointHoverRadius: 0,
+              pointHitRadius: 0,
+              borderWidth: 7,
+              order: 20 + index,
+            },
+            {
+              type: 'line' as const,
+              label: overlay.label,
+              data: overlay.points.map((p) => ({ x: p.timestamp, y: p.value })),
+              yAxisID: overlay.axisId,
+              borderColor: overlay.color,
+              backgroundColor: hexToRgba(overlay.color, 0.2),
+              fill: false,
+              tension: 0.15,
+              pointRadius: 0,
+              pointHoverRadius: 3,
+              pointHitRadius: 8,
+              borderWidth: 2,
+              order: 20.1 + index,
+            },
+          ];
+        }),
+        ...indicatorSeries
+          .filter((series) => series.placement === 'overlay')
+          .flatMap((series, index) =>
+            series.lines.map((line) => ({
+              type: 'line' as const,
+              label:
+                line.role === 'main' ? series.label : `${series.label} ${line.role === 'upper' ? 'Upper' : 'Lower'}`,
+              data: line.points.map((p) => ({ x: p.timestamp, y: p.value })),
+              yAxisID: series.yAxisID,
+              borderColor: line.role === 'main' ? series.color : hexToRgba(series.color, 0.7),
+              backgroundColor: hexToRgba(series.color, 0.08),
+              // The upper band shades down to the lower band two datasets later.
+              fill: line.role === 'upper' ? '+2' : false,
+              tension: 0.2,
+              pointRadius: 0,
+              pointHoverRadius: 3,
+              pointHitRadius: 6,
+              borderDash: line.role === 'main' ? undefined : [3, 3],
+              borderWidth: line.role === 'main' ? 1.8 : 1.1,
+              order: 20 + index,
+            }))
+          ),
       ],
     };
   }, [
     candles,
+    chartStyle,
+    showBidAskBand,
     showVolumeBars,
+    showTakerFlow,
+    takerFlow,
     isDragging,
     selectionRange,
     revealedEndIndex,
     showIntroDraw,
+    showProjectionDistribution,
+    projectionBands,
     showProjection,
     projectionPoints,
     projectionMode,
@@ -1740,16 +2853,23 @@ function ChartContent({
     unemploymentPoints,
     unemploymentLabel,
     customCompareOverlays,
+    customFredOverlays,
+    indicatorSeries,
+    theme,
   ]);
 
   const projectionBounds = useMemo(() => {
-    if (!(showProjection && projectionMode === 'seats' && projectionPoints.length > 0)) return null;
-    const values = projectionPoints.map((p) => p.value);
+    if (projectionMode !== 'scalar') return null;
+    const values = [
+      ...(showProjection ? projectionPoints.map((p) => p.value) : []),
+      ...(showProjectionDistribution ? projectionBands.flatMap((b) => [b.p10, b.p90]) : []),
+    ];
+    if (values.length === 0) return null;
     const min = Math.min(...values);
     const max = Math.max(...values);
     const pad = Math.max(1, (max - min) * 0.12);
     return { min: Math.floor(min - pad), max: Math.ceil(max + pad) };
-  }, [showProjection, projectionMode, projectionPoints]);
+  }, [showProjection, showProjectionDistribution, projectionMode, projectionPoints, projectionBands]);
 
   const sp500Bounds = useMemo(() => {
     if (!(showSp500 && sp500Points.length > 0)) return null;
@@ -1769,6 +2889,12 @@ function ChartContent({
     return { min: Math.max(0, min - pad), max: max + pad };
   }, [showUnemployment, unemploymentPoints]);
 
+  const takerFlowBound = useMemo(() => {
+    if (!(showTakerFlow && takerFlow.length > 0)) return null;
+    const maxAbs = Math.max(1, ...takerFlow.filter((b) => b.complete).map((b) => Math.abs(b.net)));
+    return Math.ceil(maxAbs * 1.15);
+  }, [showTakerFlow, takerFlow]);
+
   const chartOptions = useMemo<ChartOptions<'bar' | 'line'>>(
     () => ({
       responsive: true,
@@ -1791,16 +2917,40 @@ function ChartContent({
           blur: revealProgress < 1 ? 8 : 16,
           alpha: revealProgress < 1 ? 0.55 : 0.8,
           colorsByLabel: {
-            Price: '#ffffff',
+            Price: theme.price,
+            'Yes Bid': '#86efac',
+            'Yes Ask': '#fca5a5',
             [projectionLabel]: '#f59e0b',
+            [`${projectionLabel}${PROJECTION_BAND_SUFFIXES.p10}`]: '#f59e0b',
+            [`${projectionLabel}${PROJECTION_BAND_SUFFIXES.p90}`]: '#f59e0b',
+            [`${projectionLabel}${PROJECTION_BAND_SUFFIXES.p50}`]: '#f59e0b',
             [comboLabel]: '#22c55e',
             [controlsLabel]: '#a855f7',
             [trumpApprovalLabel]: '#f43f5e',
             [sp500Label]: '#0ea5e9',
             [unemploymentLabel]: '#f97316',
             ...customOverlayColorMap,
+            ...fredOverlayColorMap,
+            ...indicatorColorMap,
           },
         },
+        ohlcCandles: {
+          enabled: Boolean(displayBars),
+          style: chartStyle === 'ohlc' ? 'ohlc' : 'candlestick',
+          bars: displayBars ?? [],
+          revealIndex: showIntroDraw ? revealedEndIndex : undefined,
+        },
+        moveAnnotations: {
+          enabled: showMoves,
+          moves: attributedMoves,
+        },
+        newsMarkers: {
+          enabled: showNewsMarkers,
+          markers: newsMarkers,
+          hoveredId: hoveredNews?.id ?? null,
+          onHover: setHoveredNews,
+          onClick: (id: string) => window.open(id, '_blank', 'noopener,noreferrer'),
+        },
         lineHeadGlow: {
           enabled: Boolean(showIntroDraw && introHeadPoint),
           xTs: introHeadPoint?.ts,
@@ -1810,7 +2960,7 @@ function ChartContent({
         tooltip: {
           filter: (item: any) => {
             const label = String(item?.dataset?.label || '');
-            return label !== 'Measured Range' && !label.includes(' Glow');
+            return label !== 'Measured Range' && !label.includes(' Glow') && item?.parsed?.y != null;
           },
           enabled: false,
           external: (context: any) => {
@@ -1839,11 +2989,16 @@ function ChartContent({
             for (const dp of tooltip.dataPoints || []) {
               const label = dp.dataset.label || '';
               const value = Number(dp.parsed.y);
-              if (label === 'Measured Range' || String(label).includes(' Glow')) continue;
+              if (label === 'Measured Range' || String(label).includes(' Glow') || isProjectionBandLabel(label)) {
+                continue;
+              }
+              const fredFormat = fredValueFormats.get(label);
               if (dp.dataset.yAxisID === 'yPrice') rows.push(`${label}: ${formatPercent(value)}`);
-              else if (dp.dataset.yAxisID === 'yProjection') rows.push(`${label}: ${value.toFixed(1)} seats`);
+              else if (dp.dataset.yAxisID === 'yProjection') rows.push(`${label}: ${formatScalar(value, projectionUnit)}`);
               else if (dp.dataset.yAxisID === 'ySp500') rows.push(`${label}: ${Math.round(value).toLocaleString()}`);
               else if (dp.dataset.yAxisID === 'yUnemployment') rows.push(`${label}: ${value.toFixed(1)}%`);
+              else if (fredFormat) rows.push(`${label}: ${fredFormat(value)}`);
+              else if (dp.dataset.yAxisID === 'yFlow') rows.push(`${label}: ${value >= 0 ? '+' : ''}${formatCompact(value)}`);
               else rows.push(`${label}: ${formatCompact(value)}`);
             }
 
@@ -1867,32 +3022,86 @@ function ChartContent({
             const body = rows.map((r) => `<div style="color:#e2e8f0;">${r}</div>`).join('');
             const hoveredTsRaw = (tooltip.dataPoints || [])[0]?.parsed?.x;
             const hoveredTs = Number(hoveredTsRaw);
-            const projectionPoint =
-              showProjection && projectionMode === 'seats'
-                ? nearestPointByTimestamp(
-                    projectionPoints,
-                    Number.isFinite(hoveredTs)
-                      ? hoveredTs
-                      : projectionPoints[projectionPoints.length - 1]?.timestamp ?? 0
-                  )
+            const hoveredBar =
+              displayBars && Number.isFinite(hoveredTs)
+                ? displayBars[nearestIndexByTimestamp(displayBars.map((b) => b.x), hoveredTs)]
                 : null;
-            const demSeats =
+            const hoveredCandle = Number.isFinite(hoveredTs)
+              ? candles[nearestIndexByTimestamp(timestamps, hoveredTs)]
+              : null;
+            const sourceBlock = hoveredCandle
+              ? `<div style="color:#94a3b8;margin-top:4px;">Source: ${PRICE_SOURCE_LABELS[hoveredCandle.source]}${
+                  hoveredCandle.source !== priceSource ? ' (fallback)' : ''
+                }</div>`
+              : '';
+            const ohlcBlock = hoveredBar
+              ? [
+                  `<div style="margin-top:6px;border-top:1px solid rgba(148,163,184,.28);padding-top:6px;color:#cbd5e1;">`,
+                  chartStyle === 'heikin-ashi' ? `<div style="color:#94a3b8;">Heikin-Ashi</div>` : '',
+                  `<div>O ${formatPercent(hoveredBar.o)} · H ${formatPercent(hoveredBar.h)}</div>`,
+                  `<div>L ${formatPercent(hoveredBar.l)} · C ${formatPercent(hoveredBar.c)}</div>`,
+                  `</div>`,
+                ].join('')
+              : '';
+            const projectionPoint = showProjectionAxis
+              ? nearestPointByTimestamp(
+                  projectionPoints,
+                  Number.isFinite(hoveredTs)
+                    ? hoveredTs
+                    : projectionPoints[projectionPoints.length - 1]?.timestamp ?? 0
+                )
+              : null;
+            const projectedValue =
               projectionPoint && Number.isFinite(Number(projectionPoint.value))
                 ? Number(projectionPoint.value)
                 : null;
-            const repSeats = demSeats != null ? Math.max(0, 435 - demSeats) : null;
-            const seatsBlock =
-              demSeats != null
+            const projectionBand =
+              showProjectionDistribution && projectionPoint && projectionBands.length > 0
+                ? projectionBands[
+                    nearestIndexByTimestamp(
+                      projectionBands.map((b) => b.timestamp),
+                      projectionPoint.timestamp
+                    )
+                  ]
+                : null;
+            const bandDigits = projectionBand?.step === 1 ? 0 : 1;
+            const thresholdProbability = projectionBand?.thresholdProbability;
+            const projectionBandBlock = projectionBand
+              ? [
+                  `<div style="color:#fcd34d;margin-top:4px;">`,
+                  `P10–P90: ${projectionBand.p10.toFixed(bandDigits)}–${projectionBand.p90.toFixed(bandDigits)}`,
+                  ` · Median ${projectionBand.p50.toFixed(bandDigits)}`,
+                  `</div>`,
+                  thresholdProbability != null && projectionThreshold != null
+                    ? [
+                        `<div style="color:#cbd5e1;">`,
+                        `${projectionThresholdLabel ?? `≥ ${projectionThreshold}`} `,
+                        `${formatPercent(thresholdProbability * 100)} · `,
+                        `below ${projectionThreshold} ${formatPercent((1 - thresholdProbability) * 100)}`,
+                        `</div>`,
+                      ].join('')
+                    : '',
+                  projectionBand.monotonic ? '' : `<div style="color:#fcd34d;">⚠ Strike ladder not monotonic</div>`,
+                ].join('')
+              : '';
+            const projectionBlock =
+              projectedValue != null
                 ? [
                     `<div style="margin-top:6px;border-top:1px solid rgba(148,163,184,.28);padding-top:6px;">`,
                     `<div style="display:flex;align-items:center;gap:6px;color:#93c5fd;font-weight:700;">`,
                     `<span style="width:9px;height:9px;border-radius:2px;background:#2563eb;display:inline-block;"></span>`,
-                    `Expected Dem Seats: ${demSeats.toFixed(1)}`,
-                    `</div>`,
-                    `<div style="display:flex;align-items:center;gap:6px;color:#fca5a5;font-weight:700;margin-top:2px;">`,
-                    `<span style="width:9px;height:9px;border-radius:2px;background:#dc2626;display:inline-block;"></span>`,
-                    `Expected Republican Seats: ${repSeats?.toFixed(1)}`,
+                    `${projectionAxisLabel}: ${formatScalar(projectedValue, projectionUnit)}`,
                     `</div>`,
+                    projectionComplement
+                      ? [
+                          `<div style="display:flex;align-items:center;gap:6px;color:#fca5a5;font-weight:700;margin-top:2px;">`,
+                          `<span style="width:9px;height:9px;border-radius:2px;background:#dc2626;display:inline-block;"></span>`,
+                          `${projectionComplement.label}: `,
+                          formatScalar(Math.max(0, projectionComplement.total - projectedValue), projectionUnit),
+                          `</div>`,
+                        ].join('')
+                      : '',
+                    projectionBandBlock,
                     `</div>`,
                   ].join('')
                 : '';
@@ -1901,7 +3110,9 @@ function ChartContent({
               `border-radius:8px;padding:8px 10px;font-size:12px;line-height:1.35;box-shadow:0 8px 24px rgba(2,6,23,.35);">`,
               `<div style="color:#cbd5e1;font-weight:700;margin-bottom:6px;">${title}</div>`,
               body,
-              seatsBlock,
+              sourceBlock,
+              ohlcBlock,
+              projectionBlock,
               extra,
               `</div>`,
             ].join('');
@@ -1922,7 +3133,7 @@ function ChartContent({
                 return `${label}: ${formatPercent(value)}`;
               }
               if (context.dataset.yAxisID === 'yProjection') {
-                return `${label}: ${value.toFixed(1)} seats`;
+                return `${label}: ${formatScalar(value, projectionUnit)}`;
               }
               if (context.dataset.yAxisID === 'ySp500') {
                 return `${label}: ${Math.round(value).toLocaleString()}`;
@@ -1930,6 +3141,13 @@ function ChartContent({
               if (context.dataset.yAxisID === 'yUnemployment') {
                 return `${label}: ${value.toFixed(1)}%`;
               }
+              if (context.dataset.yAxisID === 'yFlow') {
+                return `${label}: ${value >= 0 ? '+' : ''}${formatCompact(value)}`;
+              }
+              const fredFormat = fredValueFormats.get(label);
+              if (fredFormat) {
+                return `${label}: ${fredFormat(value)}`;
+              }
 
               return `${label}: ${formatCompact(value)}`;
             },
@@ -1943,15 +3161,15 @@ function ChartContent({
             tooltipFormat: 'PPpp',
           },
           border: {
-            color: 'rgba(148, 163, 184, 0.3)',
+            color: theme.axisBorder,
           },
           grid: {
-            color: 'rgba(148, 163, 184, 0.18)',
+            color: theme.grid,
           },
           ticks: {
             maxRotation: 0,
             autoSkip: true,
-            color: '#cbd5e1',
+            color: theme.tick,
             font: {
               size: 11,
               weight: 600,
@@ -1964,14 +3182,14 @@ function ChartContent({
           min: 0,
           max: 100,
           border: {
-            color: 'rgba(148, 163, 184, 0.3)',
+            color: theme.axisBorder,
           },
           grid: {
-            color: 'rgba(148, 163, 184, 0.18)',
+            color: theme.grid,
           },
           ticks: {
             callback: (value) => `${value}%`,
-            color: '#cbd5e1',
+            color: theme.tick,
             font: {
               size: 11,
               weight: 600,
@@ -1980,7 +3198,7 @@ function ChartContent({
           title: {
             display: true,
             text: 'Price',
-            color: '#e2e8f0',
+            color: theme.axisTitle,
             font: {
               size: 12,
               weight: 700,
@@ -2015,10 +3233,31 @@ function ChartContent({
             },
           },
         },
+        yFlow: {
+          type: 'linear',
+          position: 'right',
+          display: Boolean(showTakerFlow && takerFlowBound != null),
+          min: takerFlowBound != null ? -takerFlowBound : undefined,
+          max: takerFlowBound ?? undefined,
+          grid: {
+            drawOnChartArea: false,
+          },
+          ticks: {
+            callback: (value) => formatCompact(Number(value)),
+            color: '#86efac',
+            font: { size: 10, weight: 700 },
+          },
+          title: {
+            display: Boolean(showTakerFlow && takerFlowBound != null),
+            text: 'Net Taker Flow',
+            color: '#86efac',
+            font: { size: 11, weight: 700 },
+          },
+        },
         yProjection: {
           type: 'linear',
           position: 'right',
-          display: Boolean(showProjection && projectionMode === 'seats'),
+          display: showProjectionAxis,
           min: projectionBounds?.min,
           max: projectionBounds?.max,
           border: {
@@ -2036,8 +3275,8 @@ function ChartContent({
             },
           },
           title: {
-            display: Boolean(showProjection && projectionMode === 'seats'),
-            text: 'Projected Dem Seats',
+            display: showProjectionAxis,
+            text: projectionAxisLabel,
             color: '#fcd34d',
             font: {
               size: 11,
@@ -2087,37 +3326,109 @@ function ChartContent({
             font: { size: 11, weight: 700 },
           },
         },
+        ...Object.fromEntries(
+          fredAxes.map((axis) => [
+            axis.id,
+            {
+              type: 'linear' as const,
+              position: 'right' as const,
+              min: axis.min,
+              max: axis.max,
+              grid: {
+                drawOnChartArea: false,
+              },
+              ticks: {
+                callback: (value: string | number) =>
+                  axis.transform === 'level'
+                    ? formatCompact(Number(value))
+                    : axis.transform === 'index'
+                      ? Number(value).toFixed(0)
+                      : `${Number(value).toFixed(1)}%`,
+                color: axis.color,
+                font: { size: 10, weight: 700 },
+              },
+              title: {
+                display: true,
+                text: axis.title,
+                color: axis.color,
+                font: { size: 11, weight: 700 },
+              },
+            },
+          ])
+        ),
       },
     }),
     [
+      candles,
+      timestamps,
+      priceSource,
+      chartStyle,
+      displayBars,
+      revealedEndIndex,
       showVolumeBars,
+      showTakerFlow,
+      takerFlowBound,
       selectionSummary,
       isDragging,
       introHeadPoint,
       revealProgress,
-      showProjection,
+      showProjectionAxis,
+      showProjectionDistribution,
+      projectionBands,
       projectionMode,
       projectionBounds,
+      projectionUnit,
+      projectionAxisLabel,
+      projectionThreshold,
+      projectionThresholdLabel,
+      projectionComplement,
       showSp500,
       sp500Bounds,
       showUnemployment,
       unemploymentBounds,
+      fredAxes,
+      fredOverlayColorMap,
+      fredValueFormats,
       customOverlayColorMap,
+      indicatorColorMap,
+      showNewsMarkers,
+      newsMarkers,
+      hoveredNews,
+      showMoves,
+      attributedMoves,
+      theme,
     ]
   );
 
+  const takeSnapshot = async (layout: SnapshotLayout, scale: number, format: SnapshotFormat) => {
+    const first = candles[0];
+    const last = candles[candles.length - 1];
+    const rangeLabel =
+      timeframe === 'CUSTOM' && first && last
+        ? `${new Date(first.timestamp).toLocaleDateString()} – ${new Date(last.timestamp).toLocaleDateString()}`
+        : timeframe;
+    const blob = await renderChartSnapshot(layout, format, scale, chartData, chartOptions, {
+      title: marketTitle || DEFAULT_MARKET_TITLE,
+      ticker: marketId,
+      rangeLabel,
+      probability: liveProbability,
+      legend: snapshotLegend(chartData, chartOptions),
+    });
+    const scope = layout === 'card' ? 'card' : timeframe.toLowerCase();
+    downloadFile(`${marketId.toLowerCase()}-${scope}.${format}`, blob, blob.type);
+  };
+
   return (
     <div
       className="h-screen w-screen border border-slate-200 bg-white p-4 shadow-sm"
       style={{
-        width: '100vw',
-        height: '100vh',
+        width: compact ? '100%' : '100vw',
+        height: compact ? '100%' : '100vh',
         display: 'flex',
         flexDirection: 'column',
-        border: '1px solid #1f2937',
-        background:
-          'radial-gradient(1200px 300px at 15% -50%, rgba(37,99,235,0.4), transparent), radial-gradient(1200px 300px at 85% -50%, rgba(239,68,68,0.4), transparent), linear-gradient(180deg, #0b1220 0%, #0f172a 100%)',
-        padding: 14,
+        border: compact ? 'none' : '1px solid #1f2937',
+        background: theme.background,
+        padding: compact ? 8 : 14,
       }}
     >
       <style>{`
@@ -2126,525 +3437,965 @@ function ChartContent({
           100% { transform: translateX(-50%); }
         }
       `}</style>
-      <div
-        className="mb-3"
-        style={{
-          background: 'rgba(15,23,42,0.68)',
-          border: '1px solid rgba(100,116,139,0.35)',
-          borderRadius: 14,
-          padding: '12px 14px',
-          backdropFilter: 'blur(8px)',
-        }}
-      >
-        <div style={{ display: 'flex', flexDirection: 'column', gap: 8, width: '100%' }}>
-          <div>
-            <h3
-              style={{
-                margin: 0,
-                color: '#f8fafc',
-                fontSize: 28,
-                fontWeight: 800,
-                letterSpacing: 0.2,
-                textAlign: 'center',
-                fontFamily: '"Times New Roman", Times, serif',
-              }}
-            >
-              {marketTitle || 'Will Democrats Win the House of Representatives?'}
-            </h3>
-            <p style={{ margin: '4px 0 0 0', color: '#94a3b8', fontSize: 12, fontWeight: 600, textAlign: 'center' }}>
-              {marketId} · project by{' '}
-              <a
-                href="https://www.linkedin.com/in/tanner-lux-0ba791173/"
-                target="_blank"
-                rel="noreferrer"
-                style={{ color: '#7dd3fc', textDecoration: 'underline', textUnderlineOffset: 2 }}
-              >
-                Tanner Lux
-              </a>
-            </p>
+      {compact ? (
+        <div style={{ display: 'flex', alignItems: 'baseline', gap: 8, marginBottom: 6, minWidth: 0 }}>
+          <div
+            style={{
+              flex: 1,
+              minWidth: 0,
+              color: theme.text,
+              fontSize: 15,
+              fontWeight: 800,
+              whiteSpace: 'nowrap',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+            }}
+          >
+            {marketTitle || DEFAULT_MARKET_TITLE}
           </div>
-          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
-            <div
-              style={{
-                flex: 1,
-                minWidth: 260,
-                minHeight: 56,
-                border: '1px solid rgba(71,85,105,0.65)',
-                borderRadius: 10,
-                background: 'rgba(2,6,23,0.75)',
-                overflow: 'hidden',
-                position: 'relative',
-                display: 'flex',
-                alignItems: 'center',
-              }}
-            >
+          <span style={{ color: theme.mutedText, fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>{marketId}</span>
+          <span style={{ color: theme.accent, fontSize: 18, fontWeight: 800, fontVariantNumeric: 'tabular-nums' }}>
+            {liveProbability != null ? `${liveProbability.toFixed(1)}%` : '--'}
+          </span>
+        </div>
+      ) : (
+        <div
+          className="mb-3"
+          style={{
+            background: 'rgba(15,23,42,0.68)',
+            border: '1px solid rgba(100,116,139,0.35)',
+            borderRadius: 14,
+            padding: '12px 14px',
+            backdropFilter: 'blur(8px)',
+          }}
+        >
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8, width: '100%' }}>
+            <div>
+              <h3
+                style={{
+                  margin: 0,
+                  color: '#f8fafc',
+                  fontSize: 28,
+                  fontWeight: 800,
+                  letterSpacing: 0.2,
+                  textAlign: 'center',
+                  fontFamily: '"Times New Roman", Times, serif',
+                }}
+              >
+                {marketTitle || DEFAULT_MARKET_TITLE}
+              </h3>
+              <p style={{ margin: '4px 0 0 0', color: '#94a3b8', fontSize: 12, fontWeight: 600, textAlign: 'center' }}>
+                {marketId} · project by{' '}
+                <a
+                  href="https://www.linkedin.com/in/tanner-lux-0ba791173/"
+                  target="_blank"
+                  rel="noreferrer"
+                  style={{ color: '#7dd3fc', textDecoration: 'underline', textUnderlineOffset: 2 }}
+                >
+                  Tanner Lux
+                </a>
+              </p>
+            </div>
+            <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
               <div
                 style={{
-                  display: 'inline-flex',
-                  width: 'max-content',
-                  minWidth: '100%',
-                  animation: 'marketTickerSlide 16.8s linear infinite',
-                  color: '#a5f3fc',
-                  fontSize: 14,
-                  fontWeight: 700,
-                  letterSpacing: 0.35,
-                  padding: '0',
-                  lineHeight: 1.2,
-                  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+                  flex: 1,
+                  minWidth: 260,
+                  minHeight: 56,
+                  border: '1px solid rgba(71,85,105,0.65)',
+                  borderRadius: 10,
+                  background: 'rgba(2,6,23,0.75)',
+                  overflow: 'hidden',
+                  position: 'relative',
+                  display: 'flex',
+                  alignItems: 'center',
                 }}
               >
-                <div style={{ flex: '0 0 auto', whiteSpace: 'nowrap', paddingLeft: 12, paddingRight: 48 }}>
-                  {tickerTapeText}
-                </div>
-                <div style={{ flex: '0 0 auto', whiteSpace: 'nowrap', paddingLeft: 12, paddingRight: 48 }}>
-                  {tickerTapeText}
+                <div
+                  style={{
+                    display: 'inline-flex',
+                    width: 'max-content',
+                    minWidth: '100%',
+                    animation: 'marketTickerSlide 16.8s linear infinite',
+                    color: '#a5f3fc',
+                    fontSize: 14,
+                    fontWeight: 700,
+                    letterSpacing: 0.35,
+                    padding: '0',
+                    lineHeight: 1.2,
+                    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+                  }}
+                >
+                  <div style={{ flex: '0 0 auto', whiteSpace: 'nowrap', paddingLeft: 12, paddingRight: 48 }}>
+                    {tickerTapeText}
+                  </div>
+                  <div style={{ flex: '0 0 auto', whiteSpace: 'nowrap', paddingLeft: 12, paddingRight: 48 }}>
+                    {tickerTapeText}
+                  </div>
                 </div>
+                <div
+                  style={{
+                    position: 'absolute',
+                    inset: 0,
+                    boxShadow: 'inset 0 0 26px rgba(6,182,212,0.12)',
+                    pointerEvents: 'none',
+                  }}
+                />
               </div>
               <div
                 style={{
-                  position: 'absolute',
-                  inset: 0,
-                  boxShadow: 'inset 0 0 26px rgba(6,182,212,0.12)',
-                  pointerEvents: 'none',
+                  minWidth: 185,
+                  border: '1px solid rgba(56,189,248,0.55)',
+                  borderRadius: 10,
+                  background: 'linear-gradient(180deg, rgba(2,132,199,0.35), rgba(2,6,23,0.7))',
+                  padding: '8px 12px',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  justifyContent: 'center',
+                  boxShadow: '0 0 18px rgba(56,189,248,0.2)',
                 }}
-              />
+              >
+                <div style={{ color: '#bae6fd', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>
+                  CURRENT PROBABILITY
+                </div>
+                <div
+                  style={{
+                    marginTop: 6,
+                    background: 'linear-gradient(180deg, rgba(2,6,23,0.92), rgba(15,23,42,0.86))',
+                    border: '1px solid rgba(56,189,248,0.45)',
+                    borderRadius: 7,
+                    padding: '7px 8px',
+                    boxShadow: 'inset 0 0 14px rgba(14,165,233,0.2), 0 0 14px rgba(14,165,233,0.22)',
+                  }}
+                >
+                  <div
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'flex-start',
+                      alignItems: 'center',
+                      marginBottom: 6,
+                      color: '#7dd3fc',
+                      fontFamily: '"Lucida Console", "Courier New", monospace',
+                      fontWeight: 700,
+                      letterSpacing: 1.2,
+                      textShadow:
+                        '0 0 6px rgba(125,211,252,0.95), 0 0 12px rgba(56,189,248,0.75), 0 0 18px rgba(14,165,233,0.45)',
+                      fontVariantNumeric: 'tabular-nums',
+                    }}
+                  >
+                    <span style={{ fontSize: 23 }}>
+                      {liveProbability != null ? `${liveProbability.toFixed(1)}%` : '--'}
+                    </span>
+                  </div>
+                  <div
+                    style={{
+                      height: 10,
+                      borderRadius: 999,
+                      border: '1px solid rgba(125,211,252,0.45)',
+                      background: 'rgba(15,23,42,0.95)',
+                      overflow: 'hidden',
+                    }}
+                  >
+                    <div
+                      style={{
+                        width: `${liveProbabilityClamped ?? 0}%`,
+                        height: '100%',
+                        borderRadius: 999,
+                        background:
+                          'linear-gradient(90deg, rgba(14,165,233,0.95), rgba(56,189,248,1), rgba(125,211,252,0.95))',
+                        boxShadow: '0 0 10px rgba(56,189,248,0.65), 0 0 18px rgba(56,189,248,0.35)',
+                        transition: 'width 420ms ease',
+                      }}
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!compact && (
+        <>
+          <WorkspaceMenu marketId={marketId} view={viewState} onOpen={openWorkspace} />
+
+          <div
+            className="mb-3"
+            style={{
+              background: 'rgba(15,23,42,0.55)',
+              border: '1px solid rgba(71,85,105,0.45)',
+              borderRadius: 10,
+              padding: '8px 10px',
+            }}
+          >
+            <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+              DATA OVERLAYS
             </div>
             <div
               style={{
-                minWidth: 185,
-                border: '1px solid rgba(56,189,248,0.55)',
-                borderRadius: 10,
-                background: 'linear-gradient(180deg, rgba(2,132,199,0.35), rgba(2,6,23,0.7))',
-                padding: '8px 12px',
                 display: 'flex',
-                flexDirection: 'column',
-                justifyContent: 'center',
-                boxShadow: '0 0 18px rgba(56,189,248,0.2)',
+                alignItems: 'center',
+                gap: 10,
+                flexWrap: 'nowrap',
+                overflowX: 'auto',
+                paddingBottom: 2,
               }}
             >
-              <div style={{ color: '#bae6fd', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>
-                CURRENT PROBABILITY
-              </div>
               <div
                 style={{
-                  marginTop: 6,
-                  background: 'linear-gradient(180deg, rgba(2,6,23,0.92), rgba(15,23,42,0.86))',
-                  border: '1px solid rgba(56,189,248,0.45)',
-                  borderRadius: 7,
-                  padding: '7px 8px',
-                  boxShadow: 'inset 0 0 14px rgba(14,165,233,0.2), 0 0 14px rgba(14,165,233,0.22)',
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
                 }}
               >
-                <div
+                <MarketSearchInput
+                  client={kalshiClient}
+                  excludeTickers={compareExcludeTickers}
+                  onSelect={addCustomCompareMarket}
+                />
+              </div>
+              {customCompareOverlays.map((overlay) => (
+                <label
+                  key={overlay.id}
                   style={{
-                    display: 'flex',
-                    justifyContent: 'flex-start',
+                    display: 'inline-flex',
                     alignItems: 'center',
-                    marginBottom: 6,
-                    color: '#7dd3fc',
-                    fontFamily: '"Lucida Console", "Courier New", monospace',
-                    fontWeight: 700,
-                    letterSpacing: 1.2,
-                    textShadow:
-                      '0 0 6px rgba(125,211,252,0.95), 0 0 12px rgba(56,189,248,0.75), 0 0 18px rgba(14,165,233,0.45)',
-                    fontVariantNumeric: 'tabular-nums',
+                    gap: 8,
+                    fontSize: 12,
+                    color: '#cbd5e1',
+                    userSelect: 'none',
+                    background: 'rgba(15,23,42,0.55)',
+                    border: '1px solid rgba(71,85,105,0.6)',
+                    borderRadius: 8,
+                    padding: '5px 8px',
                   }}
                 >
-                  <span style={{ fontSize: 23 }}>
-                    {liveProbability != null ? `${liveProbability.toFixed(1)}%` : '--'}
-                  </span>
-                </div>
-                <div
+                  <input
+                    type="checkbox"
+                    checked={overlay.enabled}
+                    onChange={(e) =>
+                      setCustomCompareMarkets((prev) =>
+                        prev.map((m) =>
+                          m.id === overlay.id ? { ...m, enabled: e.target.checked } : m
+                        )
+                      )
+                    }
+                  />
+                  Overlay {overlay.label}
+                  {overlay.isLoading ? ' (loading...)' : ''}
+                  {overlay.isError ? ' (error)' : ''}
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      setCustomCompareMarkets((prev) => prev.filter((m) => m.id !== overlay.id));
+                    }}
+                    style={{
+                      border: '1px solid rgba(248,113,113,0.7)',
+                      borderRadius: 6,
+                      background: 'rgba(127,29,29,0.45)',
+                      color: '#fecaca',
+                      fontSize: 11,
+                      fontWeight: 700,
+                      padding: '1px 6px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Remove
+                  </button>
+                </label>
+              ))}
+              <div
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <FredSeriesPicker
+                  endpoint={fredSearchEndpoint}
+                  apiKey={fredApiKey}
+                  excludeIds={customFredSeries.map((s) => s.seriesId)}
+                  onSelect={addCustomFredSeries}
+                />
+              </div>
+              {customFredOverlays.map((overlay) => (
+                <label
+                  key={overlay.seriesId}
+                  title={overlay.info ? `${overlay.info.title} · ${overlay.info.units}` : undefined}
                   style={{
-                    height: 10,
-                    borderRadius: 999,
-                    border: '1px solid rgba(125,211,252,0.45)',
-                    background: 'rgba(15,23,42,0.95)',
-                    overflow: 'hidden',
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    fontSize: 12,
+                    color: '#cbd5e1',
+                    userSelect: 'none',
+                    background: 'rgba(15,23,42,0.55)',
+                    border: `1px solid ${hexToRgba(overlay.color, 0.6)}`,
+                    borderRadius: 8,
+                    padding: '5px 8px',
                   }}
                 >
-                  <div
+                  <input
+                    type="checkbox"
+                    checked={overlay.enabled}
+                    onChange={(e) =>
+                      setCustomFredSeries((prev) =>
+                        prev.map((s) => (s.seriesId === overlay.seriesId ? { ...s, enabled: e.target.checked } : s))
+                      )
+                    }
+                  />
+                  Overlay FRED {overlay.seriesId}
+                  {overlay.enabled && overlay.isLoading ? ' (loading...)' : ''}
+                  {overlay.enabled && overlay.isError ? ' (error)' : ''}
+                  <select
+                    value={overlay.transform}
+                    onChange={(e) =>
+                      setCustomFredSeries((prev) =>
+                        prev.map((s) =>
+                          s.seriesId === overlay.seriesId ? { ...s, transform: e.target.value as FredTransform } : s
+                        )
+                      )
+                    }
                     style={{
-                      width: `${liveProbabilityClamped ?? 0}%`,
-                      height: '100%',
-                      borderRadius: 999,
-                      background:
-                        'linear-gradient(90deg, rgba(14,165,233,0.95), rgba(56,189,248,1), rgba(125,211,252,0.95))',
-                      boxShadow: '0 0 10px rgba(56,189,248,0.65), 0 0 18px rgba(56,189,248,0.35)',
-                      transition: 'width 420ms ease',
+                      border: '1px solid rgba(71,85,105,0.8)',
+                      borderRadius: 6,
+                      padding: '1px 4px',
+                      fontSize: 11,
+                      color: '#e2e8f0',
+                      background: 'rgba(2,6,23,0.85)',
+                    }}
+                  >
+                    {FRED_TRANSFORMS.map((t) => (
+                      <option key={t} value={t}>
+                        {FRED_TRANSFORM_LABELS[t]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      setCustomFredSeries((prev) => prev.filter((s) => s.seriesId !== overlay.seriesId));
+                    }}
+                    style={{
+                      border: '1px solid rgba(248,113,113,0.7)',
+                      borderRadius: 6,
+                      background: 'rgba(127,29,29,0.45)',
+                      color: '#fecaca',
+                      fontSize: 11,
+                      fontWeight: 700,
+                      padding: '1px 6px',
+                      cursor: 'pointer',
                     }}
+                  >
+                    Remove
+                  </button>
+                </label>
+              ))}
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showBidAskBand}
+                  onChange={(e) => setShowBidAskBand(e.target.checked)}
+                />
+                Overlay Bid/Ask Band
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showOrderbook}
+                  onChange={(e) => setShowOrderbook(e.target.checked)}
+                />
+                Show Order Book
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showTradesTape}
+                  onChange={(e) => setShowTradesTape(e.target.checked)}
+                />
+                Show Trades Tape
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showCorrelation}
+                  onChange={(e) => setShowCorrelation(e.target.checked)}
+                />
+                Correlation / Lead-Lag
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showNewsMarkers}
+                  onChange={(e) => setShowNewsMarkers(e.target.checked)}
+                />
+                News Markers
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showNewsFeed}
+                  onChange={(e) => setShowNewsFeed(e.target.checked)}
+                />
+                News Feed
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showMoves}
+                  onChange={(e) => setShowMoves(e.target.checked)}
+                />
+                Move Detector
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showAlerts}
+                  onChange={(e) => setShowAlerts(e.target.checked)}
+                />
+                Alerts
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showTakerFlow}
+                  onChange={(e) => setShowTakerFlow(e.target.checked)}
+                />
+                Overlay Net Taker Flow
+                {showTakerFlow && takerFlowQuery.isLoading ? ' (loading...)' : ''}
+                {showTakerFlow && takerFlowQuery.isError ? ' (error)' : ''}
+                {showTakerFlow && takerFlowQuery.data?.truncated
+                  ? ` (partial: from ${new Date(takerFlowQuery.data.coveredFromMs).toLocaleString()})`
+                  : ''}
+              </label>
+              {(projectionEventTicker || projectionMarketId) && (
+                <label
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    fontSize: 12,
+                    color: '#cbd5e1',
+                    userSelect: 'none',
+                    background: 'rgba(15,23,42,0.55)',
+                    border: '1px solid rgba(71,85,105,0.6)',
+                    borderRadius: 8,
+                    padding: '5px 8px',
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={showProjection}
+                    onChange={(e) => setShowProjection(e.target.checked)}
                   />
-                </div>
-              </div>
+                  Overlay {projectionLabel}
+                  {showProjection && projectionQuery.isLoading ? ' (loading...)' : ''}
+                  {showProjection && projectionQuery.isError ? ' (error)' : ''}
+                  {showProjection && projectionQuery.data?.latest?.monotonic === false ? ' (non-monotonic)' : ''}
+                </label>
+              )}
+              {projectionEventTicker && (
+                <label
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    fontSize: 12,
+                    color: '#cbd5e1',
+                    userSelect: 'none',
+                    background: 'rgba(15,23,42,0.55)',
+                    border: '1px solid rgba(71,85,105,0.6)',
+                    borderRadius: 8,
+                    padding: '5px 8px',
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={showDistribution}
+                    onChange={(e) => setShowDistribution(e.target.checked)}
+                  />
+                  {projectionLabel} Distribution (P10–P90)
+                  {showDistribution && projectionQuery.isLoading ? ' (loading...)' : ''}
+                  {showDistribution && projectionQuery.isError ? ' (error)' : ''}
+                </label>
+              )}
+              {comboMarketId && (
+                <label
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    fontSize: 12,
+                    color: '#cbd5e1',
+                    userSelect: 'none',
+                    background: 'rgba(15,23,42,0.55)',
+                    border: '1px solid rgba(71,85,105,0.6)',
+                    borderRadius: 8,
+                    padding: '5px 8px',
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={showCombo}
+                    onChange={(e) => setShowCombo(e.target.checked)}
+                  />
+                  Overlay {comboLabel}
+                  {showCombo && comboQuery.isLoading ? ' (loading...)' : ''}
+                  {showCombo && comboQuery.isError ? ' (error)' : ''}
+                </label>
+              )}
+              {controlsMarketId && (
+                <label
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    fontSize: 12,
+                    color: '#cbd5e1',
+                    userSelect: 'none',
+                    background: 'rgba(15,23,42,0.55)',
+                    border: '1px solid rgba(71,85,105,0.6)',
+                    borderRadius: 8,
+                    padding: '5px 8px',
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={showControls}
+                    onChange={(e) => setShowControls(e.target.checked)}
+                  />
+                  Overlay {controlsLabel}
+                  {showControls && controlsQuery.isLoading ? ' (loading...)' : ''}
+                  {showControls && controlsQuery.isError ? ' (error)' : ''}
+                </label>
+              )}
+              {controlsMarketId && (
+                <label
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    fontSize: 12,
+                    color: '#cbd5e1',
+                    userSelect: 'none',
+                    background: 'rgba(15,23,42,0.55)',
+                    border: '1px solid rgba(71,85,105,0.6)',
+                    borderRadius: 8,
+                    padding: '5px 8px',
+                  }}
+                >
+                  <input type="checkbox" checked={showBalance} onChange={(e) => setShowBalance(e.target.checked)} />
+                  Balance of Power
+                </label>
+              )}
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showTrumpApproval}
+                  onChange={(e) => setShowTrumpApproval(e.target.checked)}
+                />
+                Overlay {trumpApprovalLabel}
+                {showTrumpApproval && trumpApprovalQuery.isLoading ? ' (loading...)' : ''}
+                {showTrumpApproval && trumpApprovalQuery.isError ? ' (error)' : ''}
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showSp500}
+                  onChange={(e) => setShowSp500(e.target.checked)}
+                />
+                Overlay {sp500Label}
+                {showSp500 && sp500Query.isLoading ? ' (loading...)' : ''}
+                {showSp500 && sp500Query.isError ? ' (error)' : ''}
+              </label>
+              <label
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  fontSize: 12,
+                  color: '#cbd5e1',
+                  userSelect: 'none',
+                  background: 'rgba(15,23,42,0.55)',
+                  border: '1px solid rgba(71,85,105,0.6)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showUnemployment}
+                  onChange={(e) => setShowUnemployment(e.target.checked)}
+                />
+                Overlay {unemploymentLabel}
+                {showUnemployment && unemploymentQuery.isLoading ? ' (loading...)' : ''}
+                {showUnemployment && unemploymentQuery.isError ? ' (error)' : ''}
+              </label>
             </div>
           </div>
-        </div>
-      </div>
+
+          <IndicatorMenu
+            items={indicatorSeries.map((series) => ({
+              token: series.token,
+              label: series.label,
+              color: series.color,
+              available: series.lines.some((line) => line.points.length > 0),
+            }))}
+            sources={visibleSeries.map(({ id, label }) => ({ id, label }))}
+            onAdd={addIndicator}
+            onRemove={(token) => setIndicators((prev) => prev.filter((c) => formatIndicatorToken(c) !== token))}
+          />
+        </>
+      )}
 
       <div
-        className="mb-3"
         style={{
-          background: 'rgba(15,23,42,0.55)',
-          border: '1px solid rgba(71,85,105,0.45)',
-          borderRadius: 10,
-          padding: '8px 10px',
+          flex: 1,
+          minHeight: compact ? 0 : 360,
+          display: 'flex',
+          flexDirection: isMobile ? 'column' : 'row',
+          gap: 10,
         }}
       >
-        <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
-          DATA OVERLAYS
-        </div>
-        <div
-          style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: 10,
-            flexWrap: 'nowrap',
-            overflowX: 'auto',
-            paddingBottom: 2,
-          }}
-        >
+        {query.isLoading ? (
+          <div
+            className="animate-pulse rounded-md bg-slate-100"
+            style={{ flex: 1, minHeight: 360, borderRadius: 12, background: 'rgba(15,23,42,0.45)' }}
+            aria-label="Loading chart"
+          />
+        ) : query.isError ? (
           <div
+            className="overflow-auto rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700"
             style={{
-              display: 'inline-flex',
-              alignItems: 'center',
-              gap: 8,
-              background: 'rgba(15,23,42,0.55)',
+              flex: 1,
+              minHeight: 360,
+              overflow: 'auto',
+              borderRadius: 12,
+              border: '1px solid #fecaca',
+              background: '#fef2f2',
+              padding: 16,
+              color: '#b91c1c',
+            }}
+          >
+            <p className="mb-2 font-medium">Could not load chart data.</p>
+            <p className="whitespace-pre-wrap break-words">
+              {(query.error as Error)?.message || 'Something went wrong while loading chart data.'}
+            </p>
+          </div>
+        ) : !hasData ? (
+          <div
+            className="rounded-md border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600"
+            style={{
+              flex: 1,
+              minHeight: 360,
+              borderRadius: 12,
               border: '1px solid rgba(71,85,105,0.6)',
-              borderRadius: 8,
-              padding: '5px 8px',
+              background: 'rgba(15,23,42,0.45)',
+              padding: 16,
+              color: '#cbd5e1',
             }}
           >
-            <input
-              type="text"
-              value={compareTickerInput}
-              onChange={(e) => {
-                setCompareTickerInput(e.target.value);
-                if (compareInputError) setCompareInputError(null);
-              }}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  e.preventDefault();
-                  addCustomCompareMarket();
-                }
-              }}
-              placeholder="Add ticker (e.g. CONTROLS-2026-D)"
-              style={{
-                border: '1px solid rgba(71,85,105,0.8)',
-                borderRadius: 6,
-                padding: '4px 8px',
-                fontSize: 12,
-                color: '#e2e8f0',
-                background: 'rgba(2,6,23,0.85)',
-                minWidth: 220,
-              }}
-            />
-            <button
-              type="button"
-              onClick={addCustomCompareMarket}
-              style={{
-                border: '1px solid rgba(56,189,248,0.8)',
-                borderRadius: 7,
-                padding: '4px 9px',
-                fontSize: 12,
-                fontWeight: 700,
-                color: '#e0f2fe',
-                background: 'linear-gradient(180deg,#0284c7,#0369a1)',
-                cursor: 'pointer',
-              }}
-            >
-              Add Market
-            </button>
+            No market price data available for this timeframe.
           </div>
-          {compareInputError && (
-            <span style={{ color: '#fca5a5', fontSize: 12, fontWeight: 600 }}>{compareInputError}</span>
-          )}
-          {customCompareOverlays.map((overlay) => (
-            <label
-              key={overlay.id}
-              style={{
-                display: 'inline-flex',
-                alignItems: 'center',
-                gap: 8,
-                fontSize: 12,
-                color: '#cbd5e1',
-                userSelect: 'none',
-                background: 'rgba(15,23,42,0.55)',
-                border: '1px solid rgba(71,85,105,0.6)',
-                borderRadius: 8,
-                padding: '5px 8px',
-              }}
-            >
-              <input
-                type="checkbox"
-                checked={overlay.enabled}
-                onChange={(e) =>
-                  setCustomCompareMarkets((prev) =>
-                    prev.map((m) =>
-                      m.id === overlay.id ? { ...m, enabled: e.target.checked } : m
-                    )
-                  )
-                }
-              />
-              Overlay {overlay.label}
-              {overlay.isLoading ? ' (loading...)' : ''}
-              {overlay.isError ? ' (error)' : ''}
-              <button
-                type="button"
-                onClick={(e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  setCustomCompareMarkets((prev) => prev.filter((m) => m.id !== overlay.id));
-                }}
-                style={{
-                  border: '1px solid rgba(248,113,113,0.7)',
-                  borderRadius: 6,
-                  background: 'rgba(127,29,29,0.45)',
-                  color: '#fecaca',
-                  fontSize: 11,
-                  fontWeight: 700,
-                  padding: '1px 6px',
-                  cursor: 'pointer',
-                }}
-              >
-                Remove
-              </button>
-            </label>
-          ))}
-          {(projectionEventTicker || projectionMarketId) && (
-            <label
+        ) : (
+          <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+            <div
               style={{
-                display: 'inline-flex',
-                alignItems: 'center',
-                gap: 8,
-                fontSize: 12,
-                color: '#cbd5e1',
+                flex: 1,
+                minHeight: compact ? 160 : 360,
+                cursor: isDragging ? 'grabbing' : 'crosshair',
                 userSelect: 'none',
-                background: 'rgba(15,23,42,0.55)',
-                border: '1px solid rgba(71,85,105,0.6)',
-                borderRadius: 8,
-                padding: '5px 8px',
+                position: 'relative',
+                background: theme.panel,
+                border: `1px solid ${theme.border}`,
+                borderRadius: compact ? 10 : 14,
+                padding: 10,
+                backdropFilter: 'blur(6px)',
               }}
-            >
-              <input
-                type="checkbox"
-                checked={showProjection}
-                onChange={(e) => setShowProjection(e.target.checked)}
-              />
-              Overlay {projectionLabel}
-              {showProjection && projectionQuery.isLoading ? ' (loading...)' : ''}
-              {showProjection && projectionQuery.isError ? ' (error)' : ''}
-            </label>
-          )}
-          {comboMarketId && (
-            <label
-              style={{
-                display: 'inline-flex',
-                alignItems: 'center',
-                gap: 8,
-                fontSize: 12,
-                color: '#cbd5e1',
-                userSelect: 'none',
-                background: 'rgba(15,23,42,0.55)',
-                border: '1px solid rgba(71,85,105,0.6)',
-                borderRadius: 8,
-                padding: '5px 8px',
+              onMouseDown={(e) => {
+                // Pressing a news marker opens the headline instead of starting a measurement.
+                if (hoveredHeadline) return;
+                startDrag(e.clientX);
               }}
-            >
-              <input
-                type="checkbox"
-                checked={showCombo}
-                onChange={(e) => setShowCombo(e.target.checked)}
-              />
-              Overlay {comboLabel}
-              {showCombo && comboQuery.isLoading ? ' (loading...)' : ''}
-              {showCombo && comboQuery.isError ? ' (error)' : ''}
-            </label>
-          )}
-          {controlsMarketId && (
-            <label
-              style={{
-                display: 'inline-flex',
-                alignItems: 'center',
-                gap: 8,
-                fontSize: 12,
-                color: '#cbd5e1',
-                userSelect: 'none',
-                background: 'rgba(15,23,42,0.55)',
-                border: '1px solid rgba(71,85,105,0.6)',
-                borderRadius: 8,
-                padding: '5px 8px',
+              onMouseMove={(e) => moveDrag(e.clientX)}
+              onMouseUp={endDrag}
+              onMouseLeave={endDrag}
+              onTouchStart={(e) => startDrag(e.touches[0].clientX)}
+              onTouchMove={(e) => moveDrag(e.touches[0].clientX)}
+              onTouchEnd={endDrag}
+              onDoubleClick={() => {
+                setDragSelection(null);
+                setExportSelection(null);
               }}
             >
-              <input
-                type="checkbox"
-                checked={showControls}
-                onChange={(e) => setShowControls(e.target.checked)}
-              />
-              Overlay {controlsLabel}
-              {showControls && controlsQuery.isLoading ? ' (loading...)' : ''}
-              {showControls && controlsQuery.isError ? ' (error)' : ''}
-            </label>
-          )}
-          <label
-            style={{
-              display: 'inline-flex',
-              alignItems: 'center',
-              gap: 8,
-              fontSize: 12,
-              color: '#cbd5e1',
-              userSelect: 'none',
-              background: 'rgba(15,23,42,0.55)',
-              border: '1px solid rgba(71,85,105,0.6)',
-              borderRadius: 8,
-              padding: '5px 8px',
-            }}
-          >
-            <input
-              type="checkbox"
-              checked={showTrumpApproval}
-              onChange={(e) => setShowTrumpApproval(e.target.checked)}
-            />
-            Overlay {trumpApprovalLabel}
-            {showTrumpApproval && trumpApprovalQuery.isLoading ? ' (loading...)' : ''}
-            {showTrumpApproval && trumpApprovalQuery.isError ? ' (error)' : ''}
-          </label>
-          <label
-            style={{
-              display: 'inline-flex',
-              alignItems: 'center',
-              gap: 8,
-              fontSize: 12,
-              color: '#cbd5e1',
-              userSelect: 'none',
-              background: 'rgba(15,23,42,0.55)',
-              border: '1px solid rgba(71,85,105,0.6)',
-              borderRadius: 8,
-              padding: '5px 8px',
-            }}
-          >
-            <input
-              type="checkbox"
-              checked={showSp500}
-              onChange={(e) => setShowSp500(e.target.checked)}
-            />
-            Overlay {sp500Label}
-            {showSp500 && sp500Query.isLoading ? ' (loading...)' : ''}
-            {showSp500 && sp500Query.isError ? ' (error)' : ''}
-          </label>
-          <label
+              <ReactChart ref={chartRef} type="bar" data={chartData} options={chartOptions} />
+              {hoveredHeadline && hoveredNews && (
+                <div
+                  style={{
+                    position: 'absolute',
+                    // The canvas sits inside this container's 10px padding.
+                    left: hoveredNews.x + 10,
+                    top: hoveredNews.y + 10 - 14,
+                    transform: 'translate(-50%, -100%)',
+                    width: 280,
+                    pointerEvents: 'none',
+                    zIndex: 31,
+                    background: 'rgba(15,23,42,0.96)',
+                    border: '1px solid rgba(251,191,36,0.6)',
+                    borderRadius: 10,
+                    padding: '8px 10px',
+                    boxShadow: '0 8px 24px rgba(2,6,23,.45)',
+                    fontSize: 12,
+                    lineHeight: 1.35,
+                  }}
+                >
+                  <div style={{ color: '#fcd34d', fontSize: 11, fontWeight: 700, marginBottom: 4 }}>
+                    {[hoveredHeadline.source, new Date(hoveredHeadline.pubDate).toLocaleString()]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                  <div style={{ color: '#e2e8f0', fontWeight: 600 }}>{hoveredHeadline.title}</div>
+                  <div style={{ color: '#94a3b8', fontSize: 11, marginTop: 4 }}>Click to open article</div>
+                </div>
+              )}
+            </div>
+            {indicatorSeries
+              .filter((series) => series.placement === 'pane' && series.lines.length > 0)
+              .map((series) => (
+                <IndicatorPane
+                  key={series.token}
+                  label={series.label}
+                  color={series.color}
+                  kind={series.config.kind === 'rsi' ? 'rsi' : 'roc'}
+                  points={series.lines[0].points}
+                  range={marketRange}
+                />
+              ))}
+          </div>
+        )}
+        {showSidePanel && !compact && (
+          <aside
             style={{
-              display: 'inline-flex',
-              alignItems: 'center',
-              gap: 8,
-              fontSize: 12,
-              color: '#cbd5e1',
-              userSelect: 'none',
-              background: 'rgba(15,23,42,0.55)',
-              border: '1px solid rgba(71,85,105,0.6)',
-              borderRadius: 8,
-              padding: '5px 8px',
+              width: isMobile ? '100%' : 340,
+              flex: '0 0 auto',
+              overflowY: 'auto',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 10,
             }}
           >
-            <input
-              type="checkbox"
-              checked={showUnemployment}
-              onChange={(e) => setShowUnemployment(e.target.checked)}
-            />
-            Overlay {unemploymentLabel}
-            {showUnemployment && unemploymentQuery.isLoading ? ' (loading...)' : ''}
-            {showUnemployment && unemploymentQuery.isError ? ' (error)' : ''}
-          </label>
-        </div>
+            {showOrderbook && (
+              <OrderbookPanel client={kalshiClient} ticker={marketId} refetchInterval={priceRefetchInterval} />
+            )}
+            {showTradesTape && (
+              <TradesTapePanel client={kalshiClient} ticker={marketId} refetchInterval={priceRefetchInterval} />
+            )}
+            {showCorrelation && (
+              <CorrelationPanel
+                series={visibleSeries}
+                grid={timestamps}
+                periodMs={getPeriodIntervalMs(timeframe, customRangeApplied ?? undefined)}
+              />
+            )}
+            {showProjectionDistribution && (
+              <ScalarDistributionPanel
+                label={projectionAxisLabel}
+                unit={projectionUnit}
+                threshold={projectionThreshold}
+                thresholdLabel={projectionThresholdLabel}
+                distribution={projectionQuery.data?.latest ?? null}
+                asOf={projectionBands[projectionBands.length - 1]?.timestamp ?? null}
+                nonMonotonicBars={projectionBands.filter((b) => !b.monotonic).length}
+                barCount={projectionBands.length}
+                loading={projectionQuery.isLoading}
+                error={projectionQuery.isError}
+              />
+            )}
+            {showBalancePanel && (
+              <BalanceOfPowerPanel
+                firstChamber={chamberName(marketId) ?? marketTitle ?? marketId}
+                secondChamber={chamberName(controlsMarketId as string) ?? controlsLabel}
+                series={balanceSeries}
+                loading={query.isLoading || controlsQuery.isLoading || comboQuery.isLoading}
+                error={query.isError || controlsQuery.isError}
+              />
+            )}
+            {showNewsFeed && <NewsPanel feeds={newsFeeds} endpoint={newsEndpoint} />}
+            {showMoves && (
+              <MovesPanel
+                marketId={marketId}
+                config={moveDetectorConfig}
+                onConfigChange={setMoveDetectorConfig}
+                moves={attributedMoves}
+                headlinesLoading={headlinesQuery.isLoading}
+              />
+            )}
+            {showAlerts && <AlertsPanel targets={alertTargets} />}
+          </aside>
+        )}
       </div>
 
-      {query.isLoading ? (
-        <div
-          className="animate-pulse rounded-md bg-slate-100"
-          style={{ flex: 1, minHeight: 360, borderRadius: 12, background: 'rgba(15,23,42,0.45)' }}
-          aria-label="Loading chart"
-        />
-      ) : query.isError ? (
-        <div
-          className="overflow-auto rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700"
-          style={{
-            flex: 1,
-            minHeight: 360,
-            overflow: 'auto',
-            borderRadius: 12,
-            border: '1px solid #fecaca',
-            background: '#fef2f2',
-            padding: 16,
-            color: '#b91c1c',
-          }}
-        >
-          <p className="mb-2 font-medium">Could not load chart data.</p>
-          <p className="whitespace-pre-wrap break-words">
-            {(query.error as Error)?.message || 'Something went wrong while loading chart data.'}
-          </p>
-        </div>
-      ) : !hasData ? (
-        <div
-          className="rounded-md border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600"
-          style={{
-            flex: 1,
-            minHeight: 360,
-            borderRadius: 12,
-            border: '1px solid rgba(71,85,105,0.6)',
-            background: 'rgba(15,23,42,0.45)',
-            padding: 16,
-            color: '#cbd5e1',
-          }}
-        >
-          No market price data available for this timeframe.
-        </div>
-      ) : (
-        <div
-          style={{
-            flex: 1,
-            minHeight: 360,
-            cursor: isDragging ? 'grabbing' : 'crosshair',
-            userSelect: 'none',
-            position: 'relative',
-            background: 'linear-gradient(180deg, rgba(15,23,42,0.56), rgba(2,6,23,0.6))',
-            border: '1px solid rgba(100,116,139,0.35)',
-            borderRadius: 14,
-            padding: 10,
-            backdropFilter: 'blur(6px)',
-          }}
-          onMouseDown={(e) => startDrag(e.clientX)}
-          onMouseMove={(e) => moveDrag(e.clientX)}
-          onMouseUp={endDrag}
-          onMouseLeave={endDrag}
-          onTouchStart={(e) => startDrag(e.touches[0].clientX)}
-          onTouchMove={(e) => moveDrag(e.touches[0].clientX)}
-          onTouchEnd={endDrag}
-          onDoubleClick={() => setDragSelection(null)}
-        >
-          <ReactChart ref={chartRef} type="bar" data={chartData} options={chartOptions} />
-        </div>
-      )}
-
-      <div
-        className="mt-3"
-        style={{
-          background: 'rgba(15,23,42,0.55)',
-          border: '1px solid rgba(71,85,105,0.45)',
-          borderRadius: 10,
-          padding: '8px 10px',
-        }}
-      >
-        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-start', gap: 10, flexWrap: 'wrap' }}>
-          <div
-            className="inline-flex rounded-md border border-slate-200 p-1"
-            style={{
-              width: 'fit-content',
-              background: 'rgba(2,6,23,0.65)',
-              border: '1px solid rgba(71,85,105,0.6)',
-              borderRadius: 12,
-              padding: 4,
-            }}
-          >
-            {(Object.keys(TIMEFRAME_CONFIG) as Timeframe[]).map((tf) => {
+      {compact ? (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 4, marginTop: 6 }}>
+          {(Object.keys(TIMEFRAME_CONFIG) as Timeframe[])
+            // A custom window can only arrive from the embed parameters; there is no range picker here.
+            .filter((tf) => tf !== 'CUSTOM' || tf === timeframe)
+            .map((tf) => {
               const active = tf === timeframe;
               return (
                 <button
@@ -2652,78 +4403,270 @@ function ChartContent({
                   type="button"
                   onClick={() => setTimeframe(tf)}
                   style={{
-                    borderRadius: 9,
-                    padding: '6px 11px',
-                    fontSize: 12,
+                    borderRadius: 7,
+                    padding: '3px 8px',
+                    fontSize: 11,
                     fontWeight: 700,
                     letterSpacing: 0.3,
-                    border: active ? '1px solid rgba(14,165,233,0.65)' : '1px solid transparent',
-                    background: active ? 'linear-gradient(180deg,#38bdf8,#0284c7)' : 'transparent',
-                    color: active ? '#fff' : '#cbd5e1',
+                    border: '1px solid transparent',
+                    background: active ? theme.accent : 'transparent',
+                    color: active ? '#fff' : theme.tick,
                     cursor: 'pointer',
-                    transition: 'all 160ms ease',
                   }}
                 >
                   {tf}
                 </button>
               );
             })}
-          </div>
-          <span style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>TIME HORIZON</span>
+          <a
+            href={`${apiOrigin}${marketPath(marketId)}${serializeChartViewState(viewState)}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{
+              marginLeft: 'auto',
+              color: theme.mutedText,
+              fontSize: 11,
+              fontWeight: 700,
+              textDecoration: 'none',
+            }}
+          >
+            Open full chart ↗
+          </a>
         </div>
-        {timeframe === 'CUSTOM' && (
-          <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap', marginTop: 8 }}>
-            <input
-              type="datetime-local"
-              value={customStartDraft}
-              onChange={(e) => setCustomStartDraft(e.target.value)}
+      ) : (
+        <div
+          className="mt-3"
+          style={{
+            background: 'rgba(15,23,42,0.55)',
+            border: '1px solid rgba(71,85,105,0.45)',
+            borderRadius: 10,
+            padding: '8px 10px',
+          }}
+        >
+          <div
+            style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-start', gap: 10, flexWrap: 'wrap' }}
+          >
+            <div
+              className="inline-flex rounded-md border border-slate-200 p-1"
               style={{
-                border: '1px solid #cbd5e1',
-                borderRadius: 6,
-                padding: '4px 6px',
-                fontSize: 12,
-                color: '#e2e8f0',
-                background: 'rgba(15,23,42,0.7)',
+                width: 'fit-content',
+                background: 'rgba(2,6,23,0.65)',
+                border: '1px solid rgba(71,85,105,0.6)',
+                borderRadius: 12,
+                padding: 4,
               }}
-            />
-            <span style={{ fontSize: 12, color: '#64748b' }}>to</span>
-            <input
-              type="datetime-local"
-              value={customEndDraft}
-              onChange={(e) => setCustomEndDraft(e.target.value)}
+            >
+              {(Object.keys(TIMEFRAME_CONFIG) as Timeframe[]).map((tf) => {
+                const active = tf === timeframe;
+                return (
+                  <button
+                    key={tf}
+                    type="button"
+                    onClick={() => setTimeframe(tf)}
+                    style={{
+                      borderRadius: 9,
+                      padding: '6px 11px',
+                      fontSize: 12,
+                      fontWeight: 700,
+                      letterSpacing: 0.3,
+                      border: active ? '1px solid rgba(14,165,233,0.65)' : '1px solid transparent',
+                      background: active ? 'linear-gradient(180deg,#38bdf8,#0284c7)' : 'transparent',
+                      color: active ? '#fff' : '#cbd5e1',
+                      cursor: 'pointer',
+                      transition: 'all 160ms ease',
+                    }}
+                  >
+                    {tf}
+                  </button>
+                );
+              })}
+            </div>
+            <span style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>TIME HORIZON</span>
+            <div
               style={{
-                border: '1px solid #cbd5e1',
-                borderRadius: 6,
-                padding: '4px 6px',
+                display: 'inline-flex',
+                width: 'fit-content',
+                background: 'rgba(2,6,23,0.65)',
+                border: '1px solid rgba(71,85,105,0.6)',
+                borderRadius: 12,
+                padding: 4,
+              }}
+            >
+              {(Object.keys(CHART_STYLE_LABELS) as ChartStyle[]).map((style) => {
+                const active = style === chartStyle;
+                return (
+                  <button
+                    key={style}
+                    type="button"
+                    onClick={() => setChartStyle(style)}
+                    style={{
+                      borderRadius: 9,
+                      padding: '6px 11px',
+                      fontSize: 12,
+                      fontWeight: 700,
+                      letterSpacing: 0.3,
+                      border: active ? '1px solid rgba(14,165,233,0.65)' : '1px solid transparent',
+                      background: active ? 'linear-gradient(180deg,#38bdf8,#0284c7)' : 'transparent',
+                      color: active ? '#fff' : '#cbd5e1',
+                      cursor: 'pointer',
+                      transition: 'all 160ms ease',
+                    }}
+                  >
+                    {CHART_STYLE_LABELS[style]}
+                  </button>
+                );
+              })}
+            </div>
+            <span style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>CHART STYLE</span>
+            <select
+              value={priceSource}
+              onChange={(e) => setPriceSource(e.target.value as PriceSource)}
+              style={{
+                border: '1px solid rgba(71,85,105,0.8)',
+                borderRadius: 8,
+                padding: '5px 8px',
                 fontSize: 12,
+                fontWeight: 700,
                 color: '#e2e8f0',
-                background: 'rgba(15,23,42,0.7)',
+                background: 'rgba(2,6,23,0.85)',
               }}
-            />
+            >
+              {(Object.keys(PRICE_SOURCE_LABELS) as PriceSource[]).map((source) => (
+                <option key={source} value={source}>
+                  {PRICE_SOURCE_LABELS[source]}
+                </option>
+              ))}
+            </select>
+            <span style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>PRICE SOURCE</span>
+            {(['csv', 'json'] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => exportChartData(format)}
+                disabled={candles.length === 0}
+                title="Download the candles and every visible overlay, aligned on the candle timestamps."
+                style={{
+                  border: '1px solid rgba(71,85,105,0.8)',
+                  borderRadius: 8,
+                  padding: '5px 8px',
+                  fontSize: 12,
+                  fontWeight: 700,
+                  color: '#e2e8f0',
+                  background: 'rgba(2,6,23,0.85)',
+                  cursor: candles.length === 0 ? 'not-allowed' : 'pointer',
+                }}
+              >
+                {format.toUpperCase()}
+              </button>
+            ))}
+            <span style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}>
+              {activeExportSelection ? `EXPORT · SELECTION (${activeExportSelection.candleCount} BARS)` : 'EXPORT'}
+            </span>
+            {activeExportSelection && (
+              <button
+                type="button"
+                onClick={() => setExportSelection(null)}
+                title="Export the whole timeframe instead of the measured selection."
+                style={{
+                  border: 'none',
+                  background: 'transparent',
+                  color: '#94a3b8',
+                  fontSize: 13,
+                  fontWeight: 700,
+                  cursor: 'pointer',
+                  padding: 0,
+                }}
+              >
+                ×
+              </button>
+            )}
+            <SnapshotMenu disabled={candles.length === 0} onSnapshot={takeSnapshot} />
             <button
               type="button"
-              onClick={() => {
-                const start = new Date(customStartDraft).getTime();
-                const end = new Date(customEndDraft).getTime();
-                if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) return;
-                setCustomRangeApplied({ startMs: start, endMs: end });
-              }}
+              onClick={() => setStreamingEnabled((prev) => !prev)}
+              disabled={timeframe === 'CUSTOM'}
+              title={
+                timeframe === 'CUSTOM'
+                  ? 'Live streaming is only available for rolling timeframes.'
+                  : 'Patch the latest candle from the Kalshi ticker/trade stream instead of waiting for the next poll.'
+              }
               style={{
-                border: '1px solid rgba(14,165,233,0.75)',
+                marginLeft: 'auto',
+                border: streamingEnabled ? '1px solid rgba(34,197,94,0.75)' : '1px solid rgba(71,85,105,0.8)',
                 borderRadius: 8,
                 padding: '5px 10px',
                 fontSize: 12,
                 fontWeight: 700,
-                color: '#e0f2fe',
-                background: 'linear-gradient(180deg,#0284c7,#0369a1)',
-                cursor: 'pointer',
+                letterSpacing: 0.3,
+                color: streamingEnabled ? '#dcfce7' : '#cbd5e1',
+                background: streamingEnabled ? 'rgba(21,128,61,0.45)' : 'rgba(2,6,23,0.65)',
+                cursor: timeframe === 'CUSTOM' ? 'not-allowed' : 'pointer',
+                opacity: timeframe === 'CUSTOM' ? 0.55 : 1,
               }}
             >
-              Apply
+              {streamStatus === 'open'
+                ? 'LIVE STREAM'
+                : streamStatus === 'connecting'
+                  ? 'CONNECTING...'
+                  : streamStatus === 'error'
+                    ? 'STREAM UNAVAILABLE · POLLING'
+                    : 'POLLING · 20s'}
             </button>
           </div>
-        )}
-      </div>
+          {timeframe === 'CUSTOM' && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap', marginTop: 8 }}>
+              <input
+                type="datetime-local"
+                value={customStartDraft}
+                onChange={(e) => setCustomStartDraft(e.target.value)}
+                style={{
+                  border: '1px solid #cbd5e1',
+                  borderRadius: 6,
+                  padding: '4px 6px',
+                  fontSize: 12,
+                  color: '#e2e8f0',
+                  background: 'rgba(15,23,42,0.7)',
+                }}
+              />
+              <span style={{ fontSize: 12, color: '#64748b' }}>to</span>
+              <input
+                type="datetime-local"
+                value={customEndDraft}
+                onChange={(e) => setCustomEndDraft(e.target.value)}
+                style={{
+                  border: '1px solid #cbd5e1',
+                  borderRadius: 6,
+                  padding: '4px 6px',
+                  fontSize: 12,
+                  color: '#e2e8f0',
+                  background: 'rgba(15,23,42,0.7)',
+                }}
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  const start = new Date(customStartDraft).getTime();
+                  const end = new Date(customEndDraft).getTime();
+                  if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) return;
+                  setCustomRangeApplied({ startMs: start, endMs: end });
+                }}
+                style={{
+                  border: '1px solid rgba(14,165,233,0.75)',
+                  borderRadius: 8,
+                  padding: '5px 10px',
+                  fontSize: 12,
+                  fontWeight: 700,
+                  color: '#e0f2fe',
+                  background: 'linear-gradient(180deg,#0284c7,#0369a1)',
+                  cursor: 'pointer',
+                }}
+              >
+                Apply
+              </button>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,27 @@
+import type { CSSProperties, MouseEvent, ReactNode } from 'react';
+import { navigate } from './router';
+
+export default function Link({
+  to,
+  children,
+  style,
+  title,
+}: {
+  to: string;
+  children: ReactNode;
+  style?: CSSProperties;
+  title?: string;
+}) {
+  const onClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    // Leave modified clicks (new tab/window) to the browser.
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={onClick} style={style} title={title}>
+      {children}
+    </a>
+  );
+}
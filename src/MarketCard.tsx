@@ -0,0 +1,183 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Chart as ReactChart } from 'react-chartjs-2';
+import { marketLastPriceCents, type KalshiCandlestick, type KalshiClient } from './kalshiClient';
+import Link from './Link';
+import { eventPath, marketPath } from './router';
+
+const SPARKLINE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+function closeOf(c: KalshiCandlestick): number | null {
+  const field = c.price?.close_dollars != null || c.price?.close != null ? c.price : c.yes_bid;
+  if (!field) return null;
+  const dollars = field.close_dollars != null ? Number(field.close_dollars) : NaN;
+  if (Number.isFinite(dollars)) return dollars * 100;
+  return typeof field.close === 'number' ? field.close : null;
+}
+
+export default function MarketCard({
+  client,
+  ticker,
+  seriesTicker,
+}: {
+  client: KalshiClient;
+  ticker: string;
+  seriesTicker?: string;
+}) {
+  const marketQuery = useQuery({
+    queryKey: ['card-market', client.baseUrl, ticker],
+    queryFn: () => client.getMarket(ticker),
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+    retry: 1,
+  });
+
+  const eventTicker = marketQuery.data?.event_ticker;
+  const eventQuery = useQuery({
+    queryKey: ['card-event', client.baseUrl, eventTicker],
+    queryFn: () => client.getEvent(eventTicker as string),
+    staleTime: 10 * 60_000,
+    retry: 1,
+    enabled: Boolean(!seriesTicker && eventTicker),
+  });
+  const resolvedSeries = seriesTicker || eventQuery.data?.event?.series_ticker;
+
+  const candlesQuery = useQuery({
+    queryKey: ['card-candles', client.baseUrl, resolvedSeries, ticker],
+    queryFn: () => {
+      const endMs = Date.now();
+      return client.getCandlesticks(resolvedSeries as string, ticker, {
+        startTs: Math.floor((endMs - SPARKLINE_WINDOW_MS) / 1000),
+        endTs: Math.floor(endMs / 1000),
+        periodInterval: 60,
+      });
+    },
+    staleTime: 60_000,
+    refetchInterval: 5 * 60_000,
+    retry: 1,
+    enabled: Boolean(resolvedSeries),
+  });
+
+  const points = useMemo(
+    () =>
+      (candlesQuery.data?.candlesticks ?? [])
+        .map((c) => ({ x: c.end_period_ts * 1000, y: closeOf(c) }))
+        .filter((p): p is { x: number; y: number } => p.y != null),
+    [candlesQuery.data]
+  );
+
+  const market = marketQuery.data;
+  const price = market ? marketLastPriceCents(market) : null;
+  const change = points.length > 1 ? points[points.length - 1].y - points[0].y : null;
+  const lineColor = change != null && change < 0 ? '#ef4444' : '#22c55e';
+
+  const sparkData = useMemo<ChartData<'line'>>(
+    () => ({
+      datasets: [
+        {
+          label: 'Sparkline',
+          data: points,
+          borderColor: lineColor,
+          borderWidth: 1.8,
+          pointRadius: 0,
+          tension: 0.2,
+          fill: false,
+        },
+      ],
+    }),
+    [points, lineColor]
+  );
+
+  const sparkOptions = useMemo<ChartOptions<'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: { duration: 0 },
+      events: [],
+      plugins: {
+        legend: { display: false },
+        tooltip: { enabled: false },
+        lineGlow: { blur: 8, alpha: 0.6, colorsByLabel: { Sparkline: lineColor } },
+      } as ChartOptions<'line'>['plugins'],
+      scales: {
+        x: { type: 'time', display: false },
+        y: { type: 'linear', display: false },
+      },
+    }),
+    [lineColor]
+  );
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.68)',
+        border: '1px solid rgba(100,116,139,0.35)',
+        borderRadius: 14,
+        padding: '12px 14px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        minHeight: 210,
+      }}
+    >
+      <Link
+        to={marketPath(ticker)}
+        style={{ color: '#f8fafc', fontSize: 16, fontWeight: 800, textDecoration: 'none', lineHeight: 1.25 }}
+      >
+        {market?.title || ticker}
+      </Link>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', fontSize: 11, fontWeight: 700, color: '#94a3b8' }}>
+        <span>{ticker}</span>
+        {market?.status && (
+          <span
+            style={{
+              border: '1px solid rgba(71,85,105,0.8)',
+              borderRadius: 999,
+              padding: '1px 7px',
+              color: market.status === 'active' ? '#86efac' : '#cbd5e1',
+              textTransform: 'uppercase',
+            }}
+          >
+            {market.status}
+          </span>
+        )}
+        {eventTicker && (
+          <Link to={eventPath(eventTicker)} style={{ color: '#7dd3fc', marginLeft: 'auto' }}>
+            {eventTicker}
+          </Link>
+        )}
+      </div>
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: 10 }}>
+        <span
+          style={{
+            color: '#7dd3fc',
+            fontSize: 26,
+            fontWeight: 700,
+            fontFamily: '"Lucida Console", "Courier New", monospace',
+            fontVariantNumeric: 'tabular-nums',
+          }}
+        >
+          {price != null ? `${price.toFixed(0)}%` : '--'}
+        </span>
+        {change != null && (
+          <span style={{ color: change >= 0 ? '#86efac' : '#fca5a5', fontSize: 12, fontWeight: 700 }}>
+            {change >= 0 ? '+' : ''}
+            {change.toFixed(1)} pts 7D
+          </span>
+        )}
+      </div>
+      <div style={{ flex: 1, minHeight: 70 }}>
+        {marketQuery.isError ? (
+          <div style={{ color: '#fca5a5', fontSize: 12 }}>Could not load {ticker}.</div>
+        ) : points.length > 1 ? (
+          <ReactChart type="line" data={sparkData} options={sparkOptions} />
+        ) : (
+          <div style={{ color: '#64748b', fontSize: 12 }}>
+            {candlesQuery.isLoading || marketQuery.isLoading ? 'Loading...' : 'No recent price history.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
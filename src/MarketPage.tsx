@@ -0,0 +1,53 @@
+import KalshiMarketPriceChart from './KalshiMarketPriceChart';
+import type { KalshiClient } from './kalshiClient';
+import { PAGE_BACKGROUND } from './Dashboard';
+import Link from './Link';
+import { useMarketChartProps } from './useMarketChartProps';
+
+export default function MarketPage({
+  client,
+  apiBaseUrl,
+  ticker,
+}: {
+  client: KalshiClient;
+  apiBaseUrl: string;
+  ticker: string;
+}) {
+  const { chartProps, marketQuery } = useMarketChartProps(client, ticker);
+
+  if (!chartProps) {
+    return (
+      <div style={{ minHeight: '100vh', background: PAGE_BACKGROUND, padding: 18, color: '#cbd5e1' }}>
+        <Link to="/" style={{ color: '#7dd3fc', fontSize: 12, fontWeight: 700 }}>
+          ← All markets
+        </Link>
+        <div style={{ marginTop: 16, fontSize: 13, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+          {marketQuery.isError
+            ? (marketQuery.error as Error)?.message || `Could not load ${ticker}.`
+            : `Loading ${ticker}...`}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ position: 'relative', width: '100vw', height: '100vh' }}>
+      <KalshiMarketPriceChart key={ticker} {...chartProps} apiBaseUrl={apiBaseUrl} />
+      <Link
+        to="/"
+        style={{
+          position: 'absolute',
+          top: 22,
+          left: 24,
+          zIndex: 40,
+          color: '#7dd3fc',
+          fontSize: 12,
+          fontWeight: 700,
+          textDecoration: 'none',
+        }}
+      >
+        ← All markets
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { marketLastPriceCents, type KalshiClient, type KalshiMarket, type KalshiSeries } from './kalshiClient';
+import SearchCombobox from './SearchCombobox';
+
+export type MarketSearchSelection = {
+  ticker: string;
+  seriesTicker: string;
+  title: string;
+};
+
+type SearchResult =
+  | { kind: 'market'; market: KalshiMarket; seriesTicker: string; score: number }
+  | { kind: 'event'; eventTicker: string; title: string; marketCount: number; score: number }
+  | { kind: 'series'; series: KalshiSeries; score: number };
+
+const MAX_MARKET_RESULTS = 8;
+const MAX_GROUP_RESULTS = 3;
+
+function scoreText(query: string, fields: Array<string | undefined>): number {
+  const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return 0;
+  const haystack = fields.filter(Boolean).join(' ').toLowerCase();
+  if (!tokens.every((t) => haystack.includes(t))) return 0;
+  const ticker = (fields[0] || '').toLowerCase();
+  const q = query.trim().toLowerCase();
+  if (ticker === q) return 100;
+  if (ticker.startsWith(q)) return 60;
+  return 20 + tokens.length;
+}
+
+function statusColor(status?: string): string {
+  if (status === 'active' || status === 'open') return '#86efac';
+  if (status === 'settled' || status === 'finalized' || status === 'determined') return '#fca5a5';
+  return '#cbd5e1';
+}
+
+export default function MarketSearchInput({
+  client,
+  excludeTickers,
+  onSelect,
+}: {
+  client: KalshiClient;
+  excludeTickers: string[];
+  onSelect: (selection: MarketSearchSelection) => void;
+}) {
+  const [input, setInput] = useState('');
+  const [indexWanted, setIndexWanted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  // Kalshi has no full-text search endpoint, so open events (with markets) and series are indexed once.
+  const indexQuery = useQuery({
+    queryKey: ['market-search-index', client.baseUrl],
+    queryFn: async () => {
+      const [events, series] = await Promise.all([
+        client.listAllEvents({ status: 'open', withNestedMarkets: true, limit: 200 }, { maxPages: 15 }),
+        client.listSeries(),
+      ]);
+      return { events, series };
+    },
+    staleTime: 10 * 60_000,
+    retry: 1,
+    enabled: indexWanted || input.trim().length > 0,
+  });
+
+  const results = useMemo<SearchResult[]>(() => {
+    const q = input.trim();
+    if (!q || !indexQuery.data) return [];
+    const excluded = new Set(excludeTickers.map((t) => t.toUpperCase()));
+
+    const markets: SearchResult[] = [];
+    const events: SearchResult[] = [];
+    for (const event of indexQuery.data.events) {
+      const eventScore = scoreText(q, [event.event_ticker, event.title, event.sub_title]);
+      if (eventScore > 0) {
+        events.push({
+          kind: 'event',
+          eventTicker: event.event_ticker,
+          title: event.title || event.event_ticker,
+          marketCount: event.markets?.length ?? 0,
+          score: eventScore,
+        });
+      }
+      for (const market of event.markets ?? []) {
+        if (excluded.has(market.ticker)) continue;
+        const score = scoreText(q, [market.ticker, market.title, market.yes_sub_title, event.title, event.series_ticker]);
+        if (score > 0) {
+          markets.push({ kind: 'market', market, seriesTicker: event.series_ticker, score });
+        }
+      }
+    }
+    const series: SearchResult[] = indexQuery.data.series
+      .map((s) => ({ kind: 'series' as const, series: s, score: scoreText(q, [s.ticker, s.title, s.category]) }))
+      .filter((r) => r.score > 0);
+
+    const byScore = (a: SearchResult, b: SearchResult) => b.score - a.score;
+    return [
+      ...markets.sort(byScore).slice(0, MAX_MARKET_RESULTS),
+      ...events.sort(byScore).slice(0, MAX_GROUP_RESULTS),
+      ...series.sort(byScore).slice(0, MAX_GROUP_RESULTS),
+    ];
+  }, [input, indexQuery.data, excludeTickers]);
+
+  const reset = () => {
+    setInput('');
+    setError(null);
+  };
+
+  const choose = (result: SearchResult) => {
+    if (result.kind === 'market') {
+      onSelect({
+        ticker: result.market.ticker,
+        seriesTicker: result.seriesTicker,
+        title: result.market.title || result.market.ticker,
+      });
+      reset();
+      return;
+    }
+    // Events and series narrow the search down to their markets.
+    setInput(result.kind === 'event' ? `${result.eventTicker}-` : `${result.series.ticker}-`);
+  };
+
+  // Closed or unlisted markets are not in the index; confirm them against the API before adding.
+  const resolveTypedTicker = async () => {
+    const ticker = input.trim().toUpperCase();
+    if (!ticker) {
+      setError('Search by title or enter a Kalshi ticker (example: CONTROLS-2026-D).');
+      return;
+    }
+    if (excludeTickers.some((t) => t.toUpperCase() === ticker)) {
+      setError('That market is already added.');
+      return;
+    }
+    setIsResolving(true);
+    try {
+      const market = await client.getMarket(ticker);
+      const { event } = await client.getEvent(market.event_ticker);
+      onSelect({ ticker: market.ticker, seriesTicker: event.series_ticker, title: market.title || market.ticker });
+      reset();
+    } catch {
+      setError(`No Kalshi market found for ${ticker}.`);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const message = indexQuery.isLoading
+    ? { text: 'Loading Kalshi markets...' }
+    : indexQuery.isError
+      ? { text: 'Search index unavailable. Press Enter to add the exact ticker.', error: true }
+      : results.length === 0
+        ? { text: 'No open markets match. Press Enter to look up the exact ticker.' }
+        : null;
+
+  return (
+    <SearchCombobox
+      value={input}
+      onValueChange={(value) => {
+        setInput(value);
+        if (error) setError(null);
+      }}
+      items={results}
+      itemKey={(result) =>
+        result.kind === 'market'
+          ? `m-${result.market.ticker}`
+          : result.kind === 'event'
+            ? `e-${result.eventTicker}`
+            : `s-${result.series.ticker}`
+      }
+      renderItem={(result) => {
+        if (result.kind === 'event') {
+          return (
+            <div style={{ color: '#cbd5e1' }}>
+              <span style={{ color: '#fcd34d', fontWeight: 700 }}>EVENT</span> {result.title}{' '}
+              <span style={{ color: '#94a3b8' }}>
+                {result.eventTicker} · {result.marketCount} markets
+              </span>
+            </div>
+          );
+        }
+        if (result.kind === 'series') {
+          return (
+            <div style={{ color: '#cbd5e1' }}>
+              <span style={{ color: '#c4b5fd', fontWeight: 700 }}>SERIES</span> {result.series.title}{' '}
+              <span style={{ color: '#94a3b8' }}>{result.series.ticker}</span>
+            </div>
+          );
+        }
+        const price = marketLastPriceCents(result.market);
+        return (
+          <>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'baseline' }}>
+              <span style={{ color: '#e2e8f0', fontWeight: 700, flex: 1 }}>
+                {result.market.title || result.market.ticker}
+                {result.market.yes_sub_title ? ` · ${result.market.yes_sub_title}` : ''}
+              </span>
+              <span style={{ color: '#7dd3fc', fontWeight: 700, fontVariantNumeric: 'tabular-nums' }}>
+                {price != null ? `${price.toFixed(0)}%` : '--'}
+              </span>
+            </div>
+            <div style={{ display: 'flex', gap: 8, color: '#94a3b8', fontSize: 11 }}>
+              <span>{result.market.ticker}</span>
+              <span style={{ color: statusColor(result.market.status), textTransform: 'uppercase' }}>
+                {result.market.status || 'unknown'}
+              </span>
+              <span>series {result.seriesTicker}</span>
+            </div>
+          </>
+        );
+      }}
+      onChoose={choose}
+      onSubmitText={() => void resolveTypedTicker()}
+      message={message}
+      placeholder="Search markets by title or ticker"
+      highlight="rgba(2,132,199,0.28)"
+      menuWidth={420}
+      onOpen={() => setIndexWanted(true)}
+      controls={(submit) => (
+        <>
+          <button
+            type="button"
+            onClick={submit}
+            disabled={isResolving}
+            style={{
+              border: '1px solid rgba(56,189,248,0.8)',
+              borderRadius: 7,
+              padding: '4px 9px',
+              fontSize: 12,
+              fontWeight: 700,
+              color: '#e0f2fe',
+              background: 'linear-gradient(180deg,#0284c7,#0369a1)',
+              cursor: isResolving ? 'wait' : 'pointer',
+            }}
+          >
+            {isResolving ? 'Checking...' : 'Add Market'}
+          </button>
+          {error && <span style={{ color: '#fca5a5', fontSize: 12, fontWeight: 600 }}>{error}</span>}
+        </>
+      )}
+    />
+  );
+}
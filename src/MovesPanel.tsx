@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { downloadFile } from './download';
+import {
+  MOVE_HORIZON_RANGE,
+  movesToCsv,
+  movesToJson,
+  type AttributedMove,
+  type MoveDetectorConfig,
+  type MoveMeasure,
+} from './moveDetector';
+
+const fieldStyle = {
+  border: '1px solid rgba(71,85,105,0.8)',
+  borderRadius: 6,
+  padding: '3px 6px',
+  fontSize: 11,
+  color: '#e2e8f0',
+  background: 'rgba(2,6,23,0.85)',
+  minWidth: 0,
+} as const;
+
+const buttonStyle = { ...fieldStyle, cursor: 'pointer', fontWeight: 700 } as const;
+
+function formatOffset(offsetMs: number): string {
+  if (offsetMs === 0) return 'during';
+  const minutes = Math.round(Math.abs(offsetMs) / 60_000);
+  let span = `${minutes}m`;
+  if (minutes >= 48 * 60) span = `${Math.round(minutes / 1440)}d`;
+  else if (minutes >= 60) span = `${Math.round(minutes / 60)}h`;
+  return offsetMs < 0 ? `${span} before` : `${span} after`;
+}
+
+function formatChange(change: number): string {
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)} pts`;
+}
+
+export default function MovesPanel({
+  marketId,
+  config,
+  onConfigChange,
+  moves,
+  headlinesLoading,
+}: {
+  marketId: string;
+  config: MoveDetectorConfig;
+  onConfigChange: (config: MoveDetectorConfig) => void;
+  moves: AttributedMove[];
+  headlinesLoading: boolean;
+}) {
+  const [thresholdDraft, setThresholdDraft] = useState(String(config.threshold));
+  const [horizonDraft, setHorizonDraft] = useState(String(config.horizonBars));
+
+  const updateThreshold = (raw: string) => {
+    setThresholdDraft(raw);
+    const value = Number(raw);
+    if (Number.isFinite(value) && value > 0) onConfigChange({ ...config, threshold: value });
+  };
+
+  const updateHorizon = (raw: string) => {
+    setHorizonDraft(raw);
+    const value = Math.round(Number(raw));
+    if (Number.isFinite(value) && value >= MOVE_HORIZON_RANGE.min && value <= MOVE_HORIZON_RANGE.max) {
+      onConfigChange({ ...config, horizonBars: value });
+    }
+  };
+
+  const exportMoves = (format: 'csv' | 'json') => {
+    const filename = `${marketId.toLowerCase()}-moves.${format}`;
+    if (format === 'csv') downloadFile(filename, movesToCsv(marketId, moves), 'text/csv');
+    else downloadFile(filename, movesToJson(marketId, config, moves), 'application/json');
+  };
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        WHAT MOVED THE MARKET
+      </div>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap', marginBottom: 6 }}>
+        <select
+          value={config.measure}
+          onChange={(e) => onConfigChange({ ...config, measure: e.target.value as MoveMeasure })}
+          style={fieldStyle}
+        >
+          <option value="points">Points</option>
+          <option value="zscore">Z-score</option>
+        </select>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#94a3b8', fontSize: 11 }}>
+          ≥
+          <input
+            type="number"
+            min={0}
+            step={config.measure === 'zscore' ? 0.5 : 1}
+            value={thresholdDraft}
+            onChange={(e) => updateThreshold(e.target.value)}
+            style={{ ...fieldStyle, width: 52 }}
+          />
+          {config.measure === 'zscore' ? 'σ' : 'pts'}
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4, color: '#94a3b8', fontSize: 11 }}>
+          over
+          <input
+            type="number"
+            min={MOVE_HORIZON_RANGE.min}
+            max={MOVE_HORIZON_RANGE.max}
+            value={horizonDraft}
+            onChange={(e) => updateHorizon(e.target.value)}
+            style={{ ...fieldStyle, width: 46 }}
+          />
+          bars
+        </label>
+      </div>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 6 }}>
+        <span style={{ color: '#64748b', fontSize: 10, fontWeight: 700, letterSpacing: 0.3, flex: 1 }}>
+          {moves.length} MOVE{moves.length === 1 ? '' : 'S'}
+          {headlinesLoading ? ' · LOADING HEADLINES' : ''}
+        </span>
+        <button type="button" disabled={moves.length === 0} onClick={() => exportMoves('csv')} style={buttonStyle}>
+          CSV
+        </button>
+        <button type="button" disabled={moves.length === 0} onClick={() => exportMoves('json')} style={buttonStyle}>
+          JSON
+        </button>
+      </div>
+      <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+        {moves.length === 0 ? (
+          <div style={{ color: '#94a3b8', fontSize: 12 }}>No moves clear the threshold in this window.</div>
+        ) : (
+          [...moves].reverse().map((move) => (
+            <div
+              key={`${move.startTs}-${move.endTs}`}
+              style={{ padding: '6px 4px', borderBottom: '1px solid rgba(71,85,105,0.2)', fontSize: 12 }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                <span style={{ color: '#94a3b8', fontSize: 11 }}>
+                  {new Date(move.startTs).toLocaleString()} → {new Date(move.endTs).toLocaleString()}
+                </span>
+                <span
+                  style={{
+                    color: move.change >= 0 ? '#86efac' : '#fca5a5',
+                    fontWeight: 700,
+                    fontVariantNumeric: 'tabular-nums',
+                  }}
+                >
+                  {formatChange(move.change)}
+                </span>
+              </div>
+              <div style={{ color: '#64748b', fontSize: 10, fontVariantNumeric: 'tabular-nums' }}>
+                {move.startValue.toFixed(1)}¢ → {move.endValue.toFixed(1)}¢
+                {move.zScore != null ? ` · z ${move.zScore.toFixed(1)}` : ''}
+              </div>
+              {move.headlines.length === 0 ? (
+                <div style={{ color: '#64748b', fontSize: 11, marginTop: 2 }}>No headlines near this move.</div>
+              ) : (
+                move.headlines.map((h) => (
+                  <a
+                    key={h.link}
+                    href={h.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ display: 'block', color: '#e2e8f0', fontSize: 11, marginTop: 3, textDecoration: 'none' }}
+                  >
+                    <span style={{ color: '#fcd34d', fontWeight: 700 }}>{formatOffset(h.offsetMs)}</span> {h.title}
+                  </a>
+                ))
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
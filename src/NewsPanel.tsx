@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import {
+  dedupeHeadlines,
+  fetchNewsHeadlines,
+  filterStories,
+  formatHeadlineAge,
+  nextNewsPageBefore,
+  type NewsStory,
+} from './news';
+
+export type NewsFeed = {
+  /** `price` for the main market, otherwise the overlay key or compare market ticker. */
+  id: string;
+  label: string;
+  query: string;
+  /** When given, edits to the query are handed here to keep instead of being overridden for the session. */
+  onQueryChange?: (query: string) => void;
+};
+
+const fieldStyle = {
+  border: '1px solid rgba(71,85,105,0.8)',
+  borderRadius: 6,
+  padding: '3px 6px',
+  fontSize: 11,
+  color: '#e2e8f0',
+  background: 'rgba(2,6,23,0.85)',
+  minWidth: 0,
+} as const;
+
+function StoryRow({ story, nowMs }: { story: NewsStory; nowMs: number }) {
+  const outlets = story.duplicates.map((d) => d.source).filter(Boolean);
+  return (
+    <a
+      href={story.link}
+      target="_blank"
+      rel="noopener noreferrer"
+      style={{
+        display: 'block',
+        padding: '6px 4px',
+        borderBottom: '1px solid rgba(71,85,105,0.2)',
+        textDecoration: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontSize: 10, fontWeight: 700 }}>
+        <span style={{ color: '#fcd34d', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {story.source || 'Unknown source'}
+        </span>
+        <span style={{ color: '#64748b', flex: '0 0 auto' }}>{formatHeadlineAge(story.pubDate, nowMs)}</span>
+      </div>
+      <div style={{ color: '#e2e8f0', fontSize: 12, lineHeight: 1.35, marginTop: 2 }}>{story.title}</div>
+      {story.duplicates.length > 0 && (
+        <div title={outlets.join(', ')} style={{ color: '#94a3b8', fontSize: 10, marginTop: 2 }}>
+          +{story.duplicates.length} more outlet{story.duplicates.length === 1 ? '' : 's'}
+        </div>
+      )}
+    </a>
+  );
+}
+
+export default function NewsPanel({ feeds, endpoint }: { feeds: NewsFeed[]; endpoint?: string }) {
+  const [feedId, setFeedId] = useState(feeds[0]?.id ?? 'price');
+  // Edited queries are kept per feed for the session, so switching feeds does not lose them.
+  const [queryOverrides, setQueryOverrides] = useState<Record<string, string>>({});
+  const [queryDraft, setQueryDraft] = useState<string | null>(null);
+  const [keywords, setKeywords] = useState('');
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNowMs(Date.now()), 60_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const feed = feeds.find((f) => f.id === feedId) ?? feeds[0];
+  const activeQuery = (feed && queryOverrides[feed.id]) || feed?.query || '';
+
+  const newsQuery = useInfiniteQuery({
+    queryKey: ['news-feed', activeQuery, endpoint],
+    queryFn: ({ pageParam }) => fetchNewsHeadlines(activeQuery, { before: pageParam, endpoint }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage, _allPages, lastPageParam) => nextNewsPageBefore(lastPage, lastPageParam),
+    staleTime: 15 * 60_000,
+    retry: 1,
+    enabled: Boolean(activeQuery),
+  });
+
+  const stories = useMemo(() => dedupeHeadlines(newsQuery.data?.pages.flat() ?? []), [newsQuery.data]);
+  const visibleStories = useMemo(() => filterStories(stories, keywords), [stories, keywords]);
+  const syndicatedCount = stories.reduce((sum, s) => sum + s.duplicates.length, 0);
+
+  const applyQuery = () => {
+    if (!feed || queryDraft == null) return;
+    const next = queryDraft.trim();
+    if (feed.onQueryChange) {
+      if (next !== feed.query) feed.onQueryChange(next);
+      setQueryDraft(null);
+      return;
+    }
+    setQueryOverrides((prev) => {
+      const rest = { ...prev };
+      delete rest[feed.id];
+      return next && next !== feed.query ? { ...rest, [feed.id]: next } : rest;
+    });
+    setQueryDraft(null);
+  };
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        NEWS{feed ? ` · ${feed.label.toUpperCase()}` : ''}
+      </div>
+      <div style={{ display: 'grid', gap: 6, marginBottom: 6 }}>
+        {feeds.length > 1 && (
+          <select
+            value={feed?.id}
+            onChange={(e) => {
+              setFeedId(e.target.value);
+              setQueryDraft(null);
+            }}
+            style={fieldStyle}
+          >
+            {feeds.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        )}
+        <div style={{ display: 'flex', gap: 6 }}>
+          <input
+            value={queryDraft ?? activeQuery}
+            onChange={(e) => setQueryDraft(e.target.value)}
+            onBlur={applyQuery}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applyQuery();
+              if (e.key === 'Escape') setQueryDraft(null);
+            }}
+            placeholder="News search query"
+            title="Google News search query for this market"
+            style={{ ...fieldStyle, flex: 1 }}
+          />
+          {feed && queryOverrides[feed.id] && (
+            <button
+              type="button"
+              onClick={() => {
+                setQueryOverrides((prev) => {
+                  const rest = { ...prev };
+                  delete rest[feed.id];
+                  return rest;
+                });
+                setQueryDraft(null);
+              }}
+              style={{ ...fieldStyle, cursor: 'pointer', fontWeight: 700 }}
+            >
+              Reset
+            </button>
+          )}
+        </div>
+        <input
+          value={keywords}
+          onChange={(e) => setKeywords(e.target.value)}
+          placeholder="Filter by keyword or outlet"
+          style={fieldStyle}
+        />
+      </div>
+      {newsQuery.isLoading ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>Loading headlines...</div>
+      ) : newsQuery.isError ? (
+        <div style={{ color: '#fca5a5', fontSize: 12, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+          {(newsQuery.error as Error)?.message || 'Could not load headlines.'}
+        </div>
+      ) : (
+        <>
+          <div style={{ color: '#64748b', fontSize: 10, fontWeight: 700, letterSpacing: 0.3, marginBottom: 2 }}>
+            {visibleStories.length} OF {stories.length} STORIES
+            {syndicatedCount > 0 ? ` · ${syndicatedCount} SYNDICATED COPIES HIDDEN` : ''}
+          </div>
+          <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+            {visibleStories.length === 0 ? (
+              <div style={{ color: '#94a3b8', fontSize: 12, padding: '6px 4px' }}>
+                {stories.length === 0 ? 'No headlines for this query.' : 'No headlines match the filter.'}
+              </div>
+            ) : (
+              visibleStories.map((story) => <StoryRow key={story.link} story={story} nowMs={nowMs} />)
+            )}
+            {newsQuery.hasNextPage && (
+              <button
+                type="button"
+                disabled={newsQuery.isFetchingNextPage}
+                onClick={() => void newsQuery.fetchNextPage()}
+                style={{
+                  ...fieldStyle,
+                  width: '100%',
+                  marginTop: 6,
+                  cursor: newsQuery.isFetchingNextPage ? 'wait' : 'pointer',
+                  fontWeight: 700,
+                }}
+              >
+                {newsQuery.isFetchingNextPage ? 'Loading older headlines...' : 'Load older headlines'}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Chart as ReactChart } from 'react-chartjs-2';
+import type { KalshiClient, KalshiOrderbook } from './kalshiClient';
+
+type BookLevel = {
+  /** YES price in cents. */
+  price: number;
+  quantity: number;
+  cumulative: number;
+};
+
+type BookSummary = {
+  bids: BookLevel[];
+  asks: BookLevel[];
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  mid: number | null;
+};
+
+const LADDER_ROWS = 10;
+
+function toCentLevels(cents?: Array<[number, number]> | null, dollars?: Array<[string, number]> | null) {
+  if (cents && cents.length > 0) return cents.map(([price, qty]) => ({ price, quantity: qty }));
+  return (dollars ?? []).map(([price, qty]) => ({ price: Math.round(Number(price) * 100), quantity: qty }));
+}
+
+function accumulate(levels: Array<{ price: number; quantity: number }>): BookLevel[] {
+  let running = 0;
+  return levels.map((level) => {
+    running += level.quantity;
+    return { ...level, cumulative: running };
+  });
+}
+
+// Kalshi only rests bids on each side: a NO bid at p is the same liquidity as a YES ask at 100 - p.
+function summarizeOrderbook(book: KalshiOrderbook): BookSummary {
+  const yesBids = toCentLevels(book.yes, book.yes_dollars)
+    .filter((l) => Number.isFinite(l.price) && l.quantity > 0)
+    .sort((a, b) => b.price - a.price);
+  const yesAsks = toCentLevels(book.no, book.no_dollars)
+    .filter((l) => Number.isFinite(l.price) && l.quantity > 0)
+    .map((l) => ({ price: 100 - l.price, quantity: l.quantity }))
+    .sort((a, b) => a.price - b.price);
+
+  const bids = accumulate(yesBids);
+  const asks = accumulate(yesAsks);
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    spread: bestBid != null && bestAsk != null ? bestAsk - bestBid : null,
+    mid: bestBid != null && bestAsk != null ? (bestBid + bestAsk) / 2 : null,
+  };
+}
+
+function formatQty(value: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+}
+
+function LadderRow({ level, side, maxCumulative }: { level: BookLevel; side: 'bid' | 'ask'; maxCumulative: number }) {
+  const color = side === 'bid' ? '34,197,94' : '239,68,68';
+  const width = maxCumulative > 0 ? (level.cumulative / maxCumulative) * 100 : 0;
+  return (
+    <div
+      style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr 1fr 1fr',
+        position: 'relative',
+        padding: '2px 6px',
+        fontSize: 12,
+        fontVariantNumeric: 'tabular-nums',
+        color: '#e2e8f0',
+      }}
+    >
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          left: 'auto',
+          width: `${width}%`,
+          background: `rgba(${color},0.16)`,
+          pointerEvents: 'none',
+        }}
+      />
+      <span style={{ color: `rgb(${color})`, fontWeight: 700 }}>{level.price}¢</span>
+      <span style={{ color: '#94a3b8' }}>{100 - level.price}¢</span>
+      <span style={{ textAlign: 'right' }}>{formatQty(level.quantity)}</span>
+      <span style={{ textAlign: 'right', color: '#94a3b8' }}>{formatQty(level.cumulative)}</span>
+    </div>
+  );
+}
+
+export default function OrderbookPanel({
+  client,
+  ticker,
+  refetchInterval,
+}: {
+  client: KalshiClient;
+  ticker: string;
+  refetchInterval: number;
+}) {
+  const orderbookQuery = useQuery({
+    queryKey: ['market-orderbook', client.baseUrl, ticker],
+    queryFn: () => client.getOrderbook(ticker),
+    staleTime: 10_000,
+    refetchInterval,
+    refetchIntervalInBackground: true,
+    retry: 1,
+    enabled: Boolean(ticker),
+  });
+
+  const summary = useMemo(
+    () => (orderbookQuery.data ? summarizeOrderbook(orderbookQuery.data) : null),
+    [orderbookQuery.data]
+  );
+
+  const depthData = useMemo<ChartData<'line'>>(
+    () => ({
+      datasets: [
+        {
+          label: 'Bid Depth',
+          data: [...(summary?.bids ?? [])].reverse().map((l) => ({ x: l.price, y: l.cumulative })),
+          borderColor: '#22c55e',
+          backgroundColor: 'rgba(34,197,94,0.22)',
+          fill: 'origin',
+          stepped: 'after',
+          pointRadius: 0,
+          borderWidth: 1.8,
+        },
+        {
+          label: 'Ask Depth',
+          data: (summary?.asks ?? []).map((l) => ({ x: l.price, y: l.cumulative })),
+          borderColor: '#ef4444',
+          backgroundColor: 'rgba(239,68,68,0.22)',
+          fill: 'origin',
+          stepped: 'before',
+          pointRadius: 0,
+          borderWidth: 1.8,
+        },
+      ],
+    }),
+    [summary]
+  );
+
+  const depthOptions = useMemo<ChartOptions<'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: { duration: 0 },
+      interaction: { mode: 'nearest', intersect: false },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            title: (items) => `${items[0]?.parsed.x ?? ''}¢ YES`,
+            label: (item) => `${item.dataset.label}: ${formatQty(Number(item.parsed.y))}`,
+          },
+        },
+        lineGlow: { blur: 8, alpha: 0.5, colorsByLabel: { 'Bid Depth': '#22c55e', 'Ask Depth': '#ef4444' } },
+      } as ChartOptions<'line'>['plugins'],
+      scales: {
+        x: {
+          type: 'linear',
+          min: 0,
+          max: 100,
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, callback: (value) => `${value}¢` },
+        },
+        y: {
+          type: 'linear',
+          beginAtZero: true,
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, callback: (value) => formatQty(Number(value)) },
+        },
+      },
+    }),
+    []
+  );
+
+  const maxCumulative = Math.max(
+    summary?.bids[Math.min(LADDER_ROWS, summary.bids.length) - 1]?.cumulative ?? 0,
+    summary?.asks[Math.min(LADDER_ROWS, summary.asks.length) - 1]?.cumulative ?? 0
+  );
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        ORDER BOOK · {ticker}
+      </div>
+      {orderbookQuery.isLoading ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>Loading order book...</div>
+      ) : orderbookQuery.isError ? (
+        <div style={{ color: '#fca5a5', fontSize: 12, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+          {(orderbookQuery.error as Error)?.message || 'Could not load order book.'}
+        </div>
+      ) : !summary || (summary.bids.length === 0 && summary.asks.length === 0) ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>No resting orders.</div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: 12, fontSize: 12, fontWeight: 700, marginBottom: 8, flexWrap: 'wrap' }}>
+            <span style={{ color: '#86efac' }}>Bid {summary.bestBid != null ? `${summary.bestBid}¢` : '--'}</span>
+            <span style={{ color: '#fca5a5' }}>Ask {summary.bestAsk != null ? `${summary.bestAsk}¢` : '--'}</span>
+            <span style={{ color: '#e2e8f0' }}>Spread {summary.spread != null ? `${summary.spread}¢` : '--'}</span>
+            <span style={{ color: '#94a3b8' }}>Mid {summary.mid != null ? `${summary.mid.toFixed(1)}¢` : '--'}</span>
+          </div>
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '1fr 1fr 1fr 1fr',
+              padding: '0 6px 4px',
+              fontSize: 10,
+              fontWeight: 700,
+              color: '#64748b',
+              letterSpacing: 0.3,
+            }}
+          >
+            <span>YES</span>
+            <span>NO</span>
+            <span style={{ textAlign: 'right' }}>QTY</span>
+            <span style={{ textAlign: 'right' }}>CUM</span>
+          </div>
+          {summary.asks
+            .slice(0, LADDER_ROWS)
+            .reverse()
+            .map((level) => (
+              <LadderRow key={`ask-${level.price}`} level={level} side="ask" maxCumulative={maxCumulative} />
+            ))}
+          <div
+            style={{
+              borderTop: '1px dashed rgba(148,163,184,0.35)',
+              borderBottom: '1px dashed rgba(148,163,184,0.35)',
+              margin: '3px 0',
+              padding: '2px 6px',
+              fontSize: 11,
+              color: '#94a3b8',
+              textAlign: 'center',
+            }}
+          >
+            {summary.spread != null ? `${summary.spread}¢ spread` : 'one-sided book'}
+          </div>
+          {summary.bids.slice(0, LADDER_ROWS).map((level) => (
+            <LadderRow key={`bid-${level.price}`} level={level} side="bid" maxCumulative={maxCumulative} />
+          ))}
+          <div style={{ height: 150, marginTop: 10 }}>
+            <ReactChart type="line" data={depthData} options={depthOptions} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
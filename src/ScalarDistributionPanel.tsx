@@ -0,0 +1,193 @@
+import { useMemo } from 'react';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Chart as ReactChart } from 'react-chartjs-2';
+import { formatScalar, strikeBinLabel, type ScalarDistribution, type StrikeLayout } from './scalarProjection';
+
+const LAYOUT_NOTES: Record<StrikeLayout, string> = {
+  bucket: 'Strike buckets; prices are rescaled to sum to 100%.',
+  atLeast: '"N or more" thresholds, differenced into ranges. Tails sit on the outermost strike.',
+  atMost: '"N or fewer" thresholds, differenced into ranges. Tails sit on the outermost strike.',
+};
+
+const BAR_COLORS = {
+  above: 'rgba(37, 99, 235, 0.75)',
+  below: 'rgba(220, 38, 38, 0.65)',
+  straddle: 'rgba(168, 85, 247, 0.7)',
+  neutral: 'rgba(245, 158, 11, 0.7)',
+};
+
+function formatProbability(p: number): string {
+  const pct = p * 100;
+  if (pct > 0 && pct < 1) return '<1%';
+  if (pct < 100 && pct > 99) return '>99%';
+  return `${pct.toFixed(0)}%`;
+}
+
+function Stat({ label, value, color = '#e2e8f0' }: { label: string; value: string; color?: string }) {
+  return (
+    <div style={{ minWidth: 0 }}>
+      <div style={{ color: '#64748b', fontSize: 9, fontWeight: 700, letterSpacing: 0.3 }}>{label}</div>
+      <div style={{ color, fontSize: 14, fontWeight: 800, fontVariantNumeric: 'tabular-nums' }}>{value}</div>
+    </div>
+  );
+}
+
+export default function ScalarDistributionPanel({
+  label,
+  unit,
+  threshold,
+  thresholdLabel,
+  distribution,
+  asOf,
+  nonMonotonicBars,
+  barCount,
+  loading,
+  error,
+}: {
+  label: string;
+  unit?: string;
+  /** Bars at or above it are blue, below red; its probability leads the stats. */
+  threshold?: number;
+  thresholdLabel?: string;
+  distribution: ScalarDistribution | null;
+  asOf: number | null;
+  /** Bars in the window whose cumulative ladder was inverted. */
+  nonMonotonicBars: number;
+  barCount: number;
+  loading: boolean;
+  error: boolean;
+}) {
+  const bins = useMemo(() => distribution?.bins ?? [], [distribution]);
+  const step = distribution?.step ?? 1;
+  // Running totals from both ends, so the tooltip can answer tail questions directly.
+  const tails = useMemo(() => {
+    const out: Array<{ atMost: number; atLeast: number }> = [];
+    let below = 0;
+    for (const bin of bins) {
+      out.push({ atMost: below + bin.probability, atLeast: 1 - below });
+      below += bin.probability;
+    }
+    return out;
+  }, [bins]);
+
+  const data = useMemo<ChartData<'bar'>>(
+    () => ({
+      labels: bins.map((b) => strikeBinLabel(b, step)),
+      datasets: [
+        {
+          label: 'Probability',
+          data: bins.map((b) => b.probability * 100),
+          backgroundColor: bins.map((b) => {
+            if (threshold == null) return BAR_COLORS.neutral;
+            if (b.low != null && b.low < threshold && b.high != null && b.high >= threshold) {
+              return BAR_COLORS.straddle;
+            }
+            return b.value >= threshold ? BAR_COLORS.above : BAR_COLORS.below;
+          }),
+          borderWidth: 0,
+        },
+      ],
+    }),
+    [bins, step, threshold]
+  );
+
+  const options = useMemo<ChartOptions<'bar'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: { duration: 0 },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            title: (items) => `${label}: ${items[0]?.label ?? ''}`,
+            label: (item) => {
+              const tail = tails[item.dataIndex];
+              return [
+                `This range: ${Number(item.parsed.y).toFixed(1)}%`,
+                `This range or fewer: ${formatProbability(tail?.atMost ?? 0)}`,
+                `This range or more: ${formatProbability(tail?.atLeast ?? 0)}`,
+              ];
+            },
+          },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { color: '#94a3b8', font: { size: 9 }, autoSkip: true, maxTicksLimit: 10, maxRotation: 0 },
+        },
+        y: {
+          beginAtZero: true,
+          grid: { color: 'rgba(148, 163, 184, 0.12)' },
+          ticks: { color: '#94a3b8', font: { size: 10 }, maxTicksLimit: 4, callback: (value) => `${value}%` },
+        },
+      },
+    }),
+    [label, tails]
+  );
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        {label.toUpperCase()} DISTRIBUTION
+        {asOf != null && (
+          <span style={{ color: '#64748b', fontWeight: 600 }}> · {new Date(asOf).toLocaleString()}</span>
+        )}
+      </div>
+      {!distribution ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>
+          {loading
+            ? 'Loading strike markets...'
+            : error
+              ? 'Could not load the strike markets.'
+              : 'No priced strike markets in this window.'}
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: 6, marginBottom: 6 }}>
+            {threshold != null && distribution.thresholdProbability != null && (
+              <>
+                <Stat
+                  label={(thresholdLabel ?? `≥ ${threshold}`).toUpperCase()}
+                  value={formatProbability(distribution.thresholdProbability)}
+                  color="#93c5fd"
+                />
+                <Stat
+                  label={`BELOW ${threshold}`}
+                  value={formatProbability(1 - distribution.thresholdProbability)}
+                  color="#fca5a5"
+                />
+              </>
+            )}
+            <Stat label="MEAN" value={formatScalar(distribution.mean, unit)} />
+            <Stat label="P10" value={formatScalar(distribution.p10, unit, distribution.step === 1 ? 0 : 1)} />
+            <Stat label="MEDIAN" value={formatScalar(distribution.p50, unit, distribution.step === 1 ? 0 : 1)} />
+            <Stat label="P90" value={formatScalar(distribution.p90, unit, distribution.step === 1 ? 0 : 1)} />
+          </div>
+          <div style={{ height: 140 }}>
+            <ReactChart type="bar" data={data} options={options} />
+          </div>
+          {nonMonotonicBars > 0 && (
+            <div style={{ color: '#fcd34d', fontSize: 11, fontWeight: 700, marginTop: 6 }}>
+              ⚠ {distribution.monotonic ? '' : 'Current ladder is not monotonic. '}
+              {nonMonotonicBars} of {barCount} bars imply negative probability for some range; those ranges are
+              zeroed.
+            </div>
+          )}
+          <div style={{ color: '#64748b', fontSize: 10, marginTop: 4 }}>
+            {LAYOUT_NOTES[distribution.layout]}
+            {threshold != null ? ` Blue ranges reach ${threshold}; purple ones straddle it.` : ''}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useRef, useState, type ReactNode } from 'react';
+
+export type SearchComboboxMessage = { text: string; error?: boolean };
+
+/**
+ * Text input with a keyboard-navigable results menu. Enter picks the highlighted result, or hands the typed
+ * text to `onSubmitText` when nothing is highlighted; `controls` renders beside the input and gets the same submit.
+ */
+export default function SearchCombobox<T>({
+  value,
+  onValueChange,
+  items,
+  itemKey,
+  renderItem,
+  onChoose,
+  onSubmitText,
+  message,
+  placeholder,
+  highlight,
+  menuWidth,
+  controls,
+  onOpen,
+}: {
+  value: string;
+  onValueChange: (value: string) => void;
+  items: T[];
+  itemKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  onChoose: (item: T) => void;
+  onSubmitText: () => void;
+  /** Shown in the menu instead of the items while loading, on error or when nothing matches. */
+  message: SearchComboboxMessage | null;
+  placeholder: string;
+  /** Background of the highlighted row. */
+  highlight: string;
+  menuWidth: number;
+  controls?: (submit: () => void) => ReactNode;
+  /** Called whenever the menu opens, e.g. to start loading what it will search. */
+  onOpen?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [menuPosition, setMenuPosition] = useState<{ left: number; top: number } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // The overlays row scrolls horizontally and would clip an absolutely positioned menu.
+  const openMenu = () => {
+    const rect = inputRef.current?.getBoundingClientRect();
+    if (rect) setMenuPosition({ left: rect.left, top: rect.bottom + 4 });
+    setOpen(true);
+    onOpen?.();
+  };
+
+  const choose = (item: T) => {
+    setActiveIndex(0);
+    onChoose(item);
+  };
+
+  const submit = () => {
+    const highlighted = items[activeIndex];
+    if (highlighted) choose(highlighted);
+    else onSubmitText();
+  };
+
+  return (
+    <div style={{ display: 'inline-flex', alignItems: 'center', gap: 8 }}>
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          setActiveIndex(0);
+          openMenu();
+        }}
+        onFocus={openMenu}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex((i) => Math.min(i + 1, Math.max(0, items.length - 1)));
+          } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex((i) => Math.max(0, i - 1));
+          } else if (e.key === 'Enter') {
+            e.preventDefault();
+            submit();
+          } else if (e.key === 'Escape') {
+            setOpen(false);
+          }
+        }}
+        placeholder={placeholder}
+        style={{
+          border: '1px solid rgba(71,85,105,0.8)',
+          borderRadius: 6,
+          padding: '4px 8px',
+          fontSize: 12,
+          color: '#e2e8f0',
+          background: 'rgba(2,6,23,0.85)',
+          minWidth: 240,
+        }}
+      />
+      {controls?.(submit)}
+      {open && menuPosition && value.trim() && (
+        <div
+          style={{
+            position: 'fixed',
+            left: menuPosition.left,
+            top: menuPosition.top,
+            zIndex: 50,
+            width: menuWidth,
+            maxHeight: 360,
+            overflowY: 'auto',
+            background: 'rgba(15,23,42,0.98)',
+            border: '1px solid rgba(71,85,105,0.8)',
+            borderRadius: 8,
+            boxShadow: '0 8px 24px rgba(2,6,23,.45)',
+          }}
+        >
+          {message ? (
+            <div style={{ padding: 8, color: message.error ? '#fca5a5' : '#94a3b8', fontSize: 12 }}>{message.text}</div>
+          ) : (
+            items.map((item, idx) => (
+              <div
+                key={itemKey(item)}
+                onMouseDown={(e) => {
+                  // Keep focus in the input so onBlur does not close the list before the click lands.
+                  e.preventDefault();
+                  choose(item);
+                }}
+                onMouseEnter={() => setActiveIndex(idx)}
+                style={{
+                  padding: '6px 8px',
+                  cursor: 'pointer',
+                  background: idx === activeIndex ? highlight : 'transparent',
+                  borderBottom: '1px solid rgba(71,85,105,0.25)',
+                  fontSize: 12,
+                }}
+              >
+                {renderItem(item)}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
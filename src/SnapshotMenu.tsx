@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { SNAPSHOT_LAYOUTS, SNAPSHOT_SCALES, type SnapshotFormat, type SnapshotLayout } from './chartSnapshot';
+
+const fieldStyle = {
+  border: '1px solid rgba(71,85,105,0.8)',
+  borderRadius: 8,
+  padding: '5px 8px',
+  fontSize: 12,
+  fontWeight: 700,
+  color: '#e2e8f0',
+  background: 'rgba(2,6,23,0.85)',
+} as const;
+
+export default function SnapshotMenu({
+  disabled,
+  onSnapshot,
+}: {
+  disabled: boolean;
+  onSnapshot: (layout: SnapshotLayout, scale: number, format: SnapshotFormat) => Promise<void>;
+}) {
+  const [layout, setLayout] = useState<SnapshotLayout>('chart');
+  const [scale, setScale] = useState(2);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { width, height } = SNAPSHOT_LAYOUTS[layout];
+
+  const snapshot = async (format: SnapshotFormat) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSnapshot(layout, scale, format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Snapshot failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <select value={layout} onChange={(e) => setLayout(e.target.value as SnapshotLayout)} style={fieldStyle}>
+        {(Object.keys(SNAPSHOT_LAYOUTS) as SnapshotLayout[]).map((key) => (
+          <option key={key} value={key}>
+            {SNAPSHOT_LAYOUTS[key].label}
+          </option>
+        ))}
+      </select>
+      <select value={scale} onChange={(e) => setScale(Number(e.target.value))} style={fieldStyle}>
+        {SNAPSHOT_SCALES.map((s) => (
+          <option key={s} value={s}>
+            {width * s}×{height * s}
+          </option>
+        ))}
+      </select>
+      {(['png', 'svg'] as const).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => void snapshot(format)}
+          disabled={disabled || isBusy}
+          style={{ ...fieldStyle, cursor: disabled || isBusy ? 'not-allowed' : 'pointer' }}
+        >
+          {format.toUpperCase()}
+        </button>
+      ))}
+      <span
+        title={error ?? undefined}
+        style={{ color: error ? '#fca5a5' : '#94a3b8', fontSize: 11, fontWeight: 700, letterSpacing: 0.35 }}
+      >
+        {error ? 'SNAPSHOT FAILED' : isBusy ? 'RENDERING...' : 'SNAPSHOT'}
+      </span>
+    </>
+  );
+}
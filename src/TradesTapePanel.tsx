@@ -0,0 +1,119 @@
+import { useQuery } from '@tanstack/react-query';
+import type { KalshiClient } from './kalshiClient';
+import { tradeTimestamp, tradeYesPrice } from './tradeFlow';
+
+const TAPE_LIMIT = 100;
+
+export default function TradesTapePanel({
+  client,
+  ticker,
+  refetchInterval,
+}: {
+  client: KalshiClient;
+  ticker: string;
+  refetchInterval: number;
+}) {
+  const tradesQuery = useQuery({
+    queryKey: ['market-trades-tape', client.baseUrl, ticker],
+    queryFn: async () => (await client.listTrades({ ticker, limit: TAPE_LIMIT })).items,
+    staleTime: 10_000,
+    refetchInterval,
+    refetchIntervalInBackground: true,
+    retry: 1,
+    enabled: Boolean(ticker),
+  });
+
+  const trades = tradesQuery.data ?? [];
+  const buyVolume = trades.filter((t) => t.taker_side === 'yes').reduce((sum, t) => sum + t.count, 0);
+  const sellVolume = trades.filter((t) => t.taker_side === 'no').reduce((sum, t) => sum + t.count, 0);
+  const total = buyVolume + sellVolume;
+
+  return (
+    <div
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        RECENT TRADES · {ticker}
+      </div>
+      {total > 0 && (
+        <div style={{ marginBottom: 8 }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, fontWeight: 700 }}>
+            <span style={{ color: '#86efac' }}>Taker buys {Math.round((buyVolume / total) * 100)}%</span>
+            <span style={{ color: '#fca5a5' }}>Taker sells {Math.round((sellVolume / total) * 100)}%</span>
+          </div>
+          <div
+            style={{
+              marginTop: 4,
+              height: 6,
+              borderRadius: 999,
+              overflow: 'hidden',
+              display: 'flex',
+              background: 'rgba(2,6,23,0.8)',
+            }}
+          >
+            <div style={{ width: `${(buyVolume / total) * 100}%`, background: '#22c55e' }} />
+            <div style={{ flex: 1, background: '#ef4444' }} />
+          </div>
+        </div>
+      )}
+      {tradesQuery.isLoading ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>Loading trades...</div>
+      ) : tradesQuery.isError ? (
+        <div style={{ color: '#fca5a5', fontSize: 12, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+          {(tradesQuery.error as Error)?.message || 'Could not load trades.'}
+        </div>
+      ) : trades.length === 0 ? (
+        <div style={{ color: '#94a3b8', fontSize: 12 }}>No recent fills.</div>
+      ) : (
+        <div style={{ maxHeight: 260, overflowY: 'auto' }}>
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '1.4fr 0.8fr 0.8fr 0.8fr',
+              padding: '0 4px 4px',
+              fontSize: 10,
+              fontWeight: 700,
+              color: '#64748b',
+              letterSpacing: 0.3,
+              position: 'sticky',
+              top: 0,
+              background: 'rgba(15,23,42,0.95)',
+            }}
+          >
+            <span>TIME</span>
+            <span>SIDE</span>
+            <span style={{ textAlign: 'right' }}>PRICE</span>
+            <span style={{ textAlign: 'right' }}>SIZE</span>
+          </div>
+          {trades.map((trade) => {
+            const isBuy = trade.taker_side === 'yes';
+            return (
+              <div
+                key={trade.trade_id}
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: '1.4fr 0.8fr 0.8fr 0.8fr',
+                  padding: '2px 4px',
+                  fontSize: 12,
+                  fontVariantNumeric: 'tabular-nums',
+                  color: '#e2e8f0',
+                  borderBottom: '1px solid rgba(71,85,105,0.2)',
+                }}
+              >
+                <span style={{ color: '#94a3b8' }}>{new Date(tradeTimestamp(trade)).toLocaleTimeString()}</span>
+                <span style={{ color: isBuy ? '#86efac' : '#fca5a5', fontWeight: 700 }}>{isBuy ? 'BUY' : 'SELL'}</span>
+                <span style={{ textAlign: 'right' }}>{tradeYesPrice(trade).toFixed(0)}¢</span>
+                <span style={{ textAlign: 'right' }}>{trade.count.toLocaleString()}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
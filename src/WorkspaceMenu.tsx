@@ -0,0 +1,269 @@
+import { useMemo, useRef, useState, type CSSProperties } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { serializeChartViewState, type ChartViewState } from './chartViewState';
+import { downloadFile } from './download';
+import {
+  createWorkspaceId,
+  deleteWorkspace,
+  importWorkspaces,
+  listWorkspaces,
+  parseWorkspacesJson,
+  saveWorkspace,
+  workspacesToJson,
+  type ChartWorkspace,
+} from './workspaceStore';
+
+const WORKSPACES_QUERY_KEY = ['chart-workspaces'];
+
+const buttonStyle: CSSProperties = {
+  border: '1px solid rgba(71,85,105,0.8)',
+  borderRadius: 7,
+  padding: '4px 9px',
+  fontSize: 12,
+  fontWeight: 700,
+  color: '#cbd5e1',
+  background: 'rgba(15,23,42,0.85)',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+};
+
+const primaryButtonStyle: CSSProperties = {
+  ...buttonStyle,
+  border: '1px solid rgba(56,189,248,0.8)',
+  color: '#e0f2fe',
+  background: 'linear-gradient(180deg,#0284c7,#0369a1)',
+};
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'workspace';
+}
+
+export default function WorkspaceMenu({
+  marketId,
+  view,
+  onOpen,
+}: {
+  marketId: string;
+  view: ChartViewState;
+  onOpen: (workspace: ChartWorkspace) => void;
+}) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const workspacesQuery = useQuery({
+    queryKey: WORKSPACES_QUERY_KEY,
+    queryFn: listWorkspaces,
+    staleTime: Infinity,
+    retry: false,
+  });
+  const workspaces = useMemo(() => workspacesQuery.data ?? [], [workspacesQuery.data]);
+
+  const viewSearch = serializeChartViewState(view);
+  // With nothing picked yet (fresh mount after opening a workspace on another market), fall back to
+  // whichever saved workspace matches what is on screen.
+  const activeWorkspace =
+    workspaces.find((w) => w.id === selectedId) ??
+    (selectedId == null
+      ? workspaces.find((w) => w.marketId === marketId && serializeChartViewState(w.view) === viewSearch)
+      : undefined);
+  const isModified =
+    activeWorkspace != null &&
+    (activeWorkspace.marketId !== marketId || serializeChartViewState(activeWorkspace.view) !== viewSearch);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+    } catch (err) {
+      setError((err as Error)?.message || 'Workspace action failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveNew = () =>
+    run(async () => {
+      const now = Date.now();
+      const workspace: ChartWorkspace = {
+        id: createWorkspaceId(),
+        name: nameDraft.trim() || `${marketId} ${new Date(now).toLocaleDateString()}`,
+        marketId,
+        view,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await saveWorkspace(workspace);
+      setSelectedId(workspace.id);
+      setNameDraft(workspace.name);
+    });
+
+  const updateActive = () =>
+    run(async () => {
+      if (!activeWorkspace) return;
+      await saveWorkspace({ ...activeWorkspace, marketId, view, updatedAt: Date.now() });
+    });
+
+  const renameActive = () =>
+    run(async () => {
+      const name = nameDraft.trim();
+      if (!activeWorkspace) return;
+      if (!name) throw new Error('Enter a workspace name first.');
+      await saveWorkspace({ ...activeWorkspace, name, updatedAt: Date.now() });
+    });
+
+  const deleteActive = () => {
+    if (!activeWorkspace || !window.confirm(`Delete workspace "${activeWorkspace.name}"?`)) return;
+    void run(async () => {
+      await deleteWorkspace(activeWorkspace.id);
+      setSelectedId(null);
+      setNameDraft('');
+    });
+  };
+
+  const exportWorkspaces = () => {
+    const selection = activeWorkspace ? [activeWorkspace] : workspaces;
+    if (selection.length === 0) return;
+    const filename = activeWorkspace ? `${slugify(activeWorkspace.name)}.workspace.json` : 'chart-workspaces.json';
+    downloadFile(filename, workspacesToJson(selection), 'application/json');
+  };
+
+  const importFile = (file: File) =>
+    run(async () => {
+      const imported = await importWorkspaces(parseWorkspacesJson(await file.text()));
+      setSelectedId(imported[0].id);
+      setNameDraft(imported[0].name);
+    });
+
+  return (
+    <div
+      className="mb-3"
+      style={{
+        background: 'rgba(15,23,42,0.55)',
+        border: '1px solid rgba(71,85,105,0.45)',
+        borderRadius: 10,
+        padding: '8px 10px',
+      }}
+    >
+      <div style={{ color: '#94a3b8', fontSize: 11, fontWeight: 700, marginBottom: 6, letterSpacing: 0.35 }}>
+        WORKSPACES
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <select
+          value={activeWorkspace?.id ?? ''}
+          disabled={workspacesQuery.isError}
+          onChange={(e) => {
+            const workspace = workspaces.find((w) => w.id === e.target.value);
+            setSelectedId(workspace?.id ?? null);
+            setNameDraft(workspace?.name ?? '');
+            setError(null);
+            if (workspace) onOpen(workspace);
+          }}
+          style={{
+            border: '1px solid rgba(71,85,105,0.8)',
+            borderRadius: 6,
+            padding: '4px 8px',
+            fontSize: 12,
+            color: '#e2e8f0',
+            background: 'rgba(2,6,23,0.85)',
+            minWidth: 220,
+          }}
+        >
+          <option value="">
+            {workspacesQuery.isLoading
+              ? 'Loading workspaces...'
+              : workspaces.length === 0
+                ? 'No saved workspaces'
+                : 'Open a workspace...'}
+          </option>
+          {workspaces.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.name} · {workspace.marketId}
+            </option>
+          ))}
+        </select>
+        {isModified && <span style={{ color: '#fcd34d', fontSize: 11, fontWeight: 700 }}>MODIFIED</span>}
+        <input
+          type="text"
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              void saveNew();
+            }
+          }}
+          placeholder="Workspace name"
+          style={{
+            border: '1px solid rgba(71,85,105,0.8)',
+            borderRadius: 6,
+            padding: '4px 8px',
+            fontSize: 12,
+            color: '#e2e8f0',
+            background: 'rgba(2,6,23,0.85)',
+            minWidth: 160,
+          }}
+        />
+        <button type="button" onClick={() => void saveNew()} disabled={isBusy} style={primaryButtonStyle}>
+          Save New
+        </button>
+        <button
+          type="button"
+          onClick={() => void updateActive()}
+          disabled={isBusy || !isModified}
+          style={{ ...buttonStyle, opacity: isModified ? 1 : 0.5 }}
+        >
+          Update
+        </button>
+        <button
+          type="button"
+          onClick={() => void renameActive()}
+          disabled={isBusy || !activeWorkspace}
+          style={{ ...buttonStyle, opacity: activeWorkspace ? 1 : 0.5 }}
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={deleteActive}
+          disabled={isBusy || !activeWorkspace}
+          style={{ ...buttonStyle, color: '#fca5a5', opacity: activeWorkspace ? 1 : 0.5 }}
+        >
+          Delete
+        </button>
+        <button
+          type="button"
+          onClick={exportWorkspaces}
+          disabled={workspaces.length === 0}
+          style={{ ...buttonStyle, opacity: workspaces.length > 0 ? 1 : 0.5 }}
+        >
+          {activeWorkspace ? 'Export' : 'Export All'}
+        </button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isBusy} style={buttonStyle}>
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) void importFile(file);
+          }}
+        />
+        {(error || workspacesQuery.isError) && (
+          <span style={{ color: '#fca5a5', fontSize: 12, fontWeight: 600 }}>
+            {error || (workspacesQuery.error as Error)?.message || 'Workspaces are unavailable.'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
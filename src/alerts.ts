@@ -0,0 +1,274 @@
+import { useSyncExternalStore } from 'react';
+
+export type AlertKind = 'cross' | 'move' | 'volume';
+export type AlertDirection = 'up' | 'down' | 'either';
+
+export type AlertRule = {
+  id: string;
+  /** Market the rule watches; it is evaluated on any chart that has this market loaded. */
+  ticker: string;
+  kind: AlertKind;
+  direction: AlertDirection;
+  /** `cross`: price level in cents. */
+  level?: number;
+  /** `move`: percent change of the price within `windowMinutes`. */
+  percent?: number;
+  windowMinutes?: number;
+  /** `volume`: latest bar's volume against this multiple of the average of the previous `lookbackBars`. */
+  multiple?: number;
+  lookbackBars?: number;
+  enabled: boolean;
+  createdAt: number;
+  /** Bar timestamp the rule last fired on, so refetches of the same bar do not fire it again. */
+  lastTriggeredTs?: number;
+};
+
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  ticker: string;
+  /** Bar timestamp that triggered the rule. */
+  barTs: number;
+  firedAt: number;
+  message: string;
+};
+
+export type AlertBar = { timestamp: number; close: number; updates: number };
+
+/**
+ * Rules are checked on bars of this size whatever the chart is showing, so "within 15m" or "the 20-bar
+ * average" means the same on a 1D and an ALL view.
+ */
+export const ALERT_BAR_MINUTES = 1;
+
+const RULES_STORAGE_KEY = 'kalshi-chart:alert-rules';
+const LOG_STORAGE_KEY = 'kalshi-chart:alert-log';
+const MAX_LOG_ENTRIES = 200;
+const NO_RULES: AlertRule[] = [];
+const NO_EVENTS: AlertEvent[] = [];
+
+export function createAlertId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function formatCents(value: number): string {
+  return `${Number(value.toFixed(1))}¢`;
+}
+
+function directionWord(direction: AlertDirection, up: string, down: string): string {
+  if (direction === 'up') return up;
+  if (direction === 'down') return down;
+  return `${up}/${down}`;
+}
+
+export function describeAlertRule(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'cross': {
+      const direction = directionWord(rule.direction, 'above', 'below');
+      return `${rule.ticker} crosses ${direction} ${formatCents(rule.level ?? 0)}`;
+    }
+    case 'move': {
+      const direction = directionWord(rule.direction, 'up', 'down');
+      return `${rule.ticker} moves ${direction} ${rule.percent ?? 0}% within ${rule.windowMinutes ?? 0}m`;
+    }
+    case 'volume': {
+      const average = `${rule.lookbackBars ?? 0}-bar average`;
+      return `${rule.ticker} ${ALERT_BAR_MINUTES}m volume ≥ ${rule.multiple ?? 0}× the ${average}`;
+    }
+  }
+}
+
+function matchesDirection(direction: AlertDirection, change: number): boolean {
+  if (direction === 'up') return change > 0;
+  if (direction === 'down') return change < 0;
+  return change !== 0;
+}
+
+/**
+ * Checks a rule against the market's bars (close in 0–1) and returns the message to raise, or null.
+ * Crosses and volume spikes fire once per bar; percent moves are held back for one window after firing.
+ */
+export function evaluateAlertRule(rule: AlertRule, bars: AlertBar[]): { barTs: number; message: string } | null {
+  if (!rule.enabled || bars.length < 2) return null;
+  const latest = bars[bars.length - 1];
+  const previous = bars[bars.length - 2];
+  const last = rule.lastTriggeredTs;
+
+  switch (rule.kind) {
+    case 'cross': {
+      if (rule.level == null || (last != null && latest.timestamp <= last)) return null;
+      const before = previous.close * 100;
+      const now = latest.close * 100;
+      const crossedUp = before < rule.level && now >= rule.level;
+      const crossedDown = before > rule.level && now <= rule.level;
+      if (!(crossedUp && rule.direction !== 'down') && !(crossedDown && rule.direction !== 'up')) return null;
+      return {
+        barTs: latest.timestamp,
+        message: `${rule.ticker} crossed ${crossedUp ? 'above' : 'below'} ${formatCents(rule.level)} (now ${formatCents(
+          now
+        )})`,
+      };
+    }
+    case 'move': {
+      if (rule.percent == null || rule.windowMinutes == null) return null;
+      const windowMs = rule.windowMinutes * 60_000;
+      if (last != null && latest.timestamp - last < windowMs) return null;
+      const reference = [...bars].reverse().find((b) => b.timestamp <= latest.timestamp - windowMs);
+      if (!reference || reference.close <= 0) return null;
+      const change = ((latest.close - reference.close) / reference.close) * 100;
+      if (Math.abs(change) < rule.percent || !matchesDirection(rule.direction, change)) return null;
+      const sign = change >= 0 ? '+' : '';
+      const prices = `${formatCents(reference.close * 100)} → ${formatCents(latest.close * 100)}`;
+      return {
+        barTs: latest.timestamp,
+        message: `${rule.ticker} moved ${sign}${change.toFixed(1)}% in ${rule.windowMinutes}m (${prices})`,
+      };
+    }
+    case 'volume': {
+      if (rule.multiple == null || rule.lookbackBars == null || (last != null && latest.timestamp <= last)) return null;
+      const window = bars.slice(-(rule.lookbackBars + 1), -1);
+      if (window.length === 0) return null;
+      const average = window.reduce((acc, b) => acc + b.updates, 0) / window.length;
+      // A quiet market averaging zero would otherwise flag its very first trade.
+      if (latest.updates < rule.multiple * Math.max(average, 1)) return null;
+      return {
+        barTs: latest.timestamp,
+        message: `${rule.ticker} volume spike: ${latest.updates.toLocaleString()} vs ${average.toFixed(0)} average`,
+      };
+    }
+  }
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled (private mode); alerts keep working for this session.
+  }
+}
+
+let rulesSnapshot: AlertRule[] | null = null;
+let logSnapshot: AlertEvent[] | null = null;
+const listeners = new Set<() => void>();
+
+function subscribe(onChange: () => void) {
+  listeners.add(onChange);
+  // Keeps other tabs' edits in sync; they share the same storage.
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === RULES_STORAGE_KEY) rulesSnapshot = null;
+    else if (event.key === LOG_STORAGE_KEY) logSnapshot = null;
+    else return;
+    onChange();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(onChange);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function getAlertRules(): AlertRule[] {
+  if (!rulesSnapshot) {
+    const stored = readJson<unknown>(RULES_STORAGE_KEY, []);
+    rulesSnapshot = Array.isArray(stored) ? (stored as AlertRule[]) : [];
+  }
+  return rulesSnapshot;
+}
+
+function getAlertLog(): AlertEvent[] {
+  if (!logSnapshot) {
+    const stored = readJson<unknown>(LOG_STORAGE_KEY, []);
+    logSnapshot = Array.isArray(stored) ? (stored as AlertEvent[]) : [];
+  }
+  return logSnapshot;
+}
+
+function setRules(next: AlertRule[]) {
+  rulesSnapshot = next;
+  writeJson(RULES_STORAGE_KEY, next);
+  listeners.forEach((listener) => listener());
+}
+
+function setLog(next: AlertEvent[]) {
+  logSnapshot = next;
+  writeJson(LOG_STORAGE_KEY, next);
+  listeners.forEach((listener) => listener());
+}
+
+export function useAlertRules(): AlertRule[] {
+  return useSyncExternalStore(subscribe, getAlertRules, () => NO_RULES);
+}
+
+/** Newest first. */
+export function useAlertLog(): AlertEvent[] {
+  return useSyncExternalStore(subscribe, getAlertLog, () => NO_EVENTS);
+}
+
+export function saveAlertRule(rule: AlertRule) {
+  const rules = getAlertRules();
+  setRules(rules.some((r) => r.id === rule.id) ? rules.map((r) => (r.id === rule.id ? rule : r)) : [...rules, rule]);
+}
+
+export function deleteAlertRule(id: string) {
+  setRules(getAlertRules().filter((r) => r.id !== id));
+}
+
+export function clearAlertLog() {
+  setLog([]);
+}
+
+/** Marks the rules as fired, prepends the events to the log and shows a browser notification for each. */
+export function recordAlertEvents(events: AlertEvent[]) {
+  if (events.length === 0) return;
+  const firedOn = new Map(events.map((e) => [e.ruleId, e.barTs]));
+  setRules(getAlertRules().map((r) => (firedOn.has(r.id) ? { ...r, lastTriggeredTs: firedOn.get(r.id) } : r)));
+  setLog([...[...events].reverse(), ...getAlertLog()].slice(0, MAX_LOG_ENTRIES));
+
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  for (const event of events) {
+    try {
+      new Notification(`Kalshi alert · ${event.ticker}`, { body: event.message, tag: event.ruleId });
+    } catch {
+      // Some mobile browsers only allow notifications from a service worker; the in-app log still has it.
+    }
+  }
+}
+
+/** History the enabled rules watching `ticker` need: the widest move window or volume lookback, plus slack. */
+export function alertHistoryMs(rules: AlertRule[], ticker: string): number {
+  const barMs = ALERT_BAR_MINUTES * 60_000;
+  const key = ticker.toUpperCase();
+  let widest = 0;
+  for (const rule of rules) {
+    if (!rule.enabled || rule.ticker.toUpperCase() !== key) continue;
+    widest = Math.max(widest, (rule.windowMinutes ?? 0) * 60_000, (rule.lookbackBars ?? 1) * barMs);
+  }
+  return widest + 3 * barMs;
+}
+
+/**
+ * Evaluates the enabled rules watching `ticker`. `bars` must be `ALERT_BAR_MINUTES` bars ending now; a
+ * chart's own candles change size with the timeframe and can end in the past.
+ */
+export function runAlertRules(ticker: string, bars: AlertBar[]) {
+  const key = ticker.toUpperCase();
+  const firedAt = Date.now();
+  const events: AlertEvent[] = [];
+  for (const rule of getAlertRules()) {
+    if (rule.ticker.toUpperCase() !== key) continue;
+    const hit = evaluateAlertRule(rule, bars);
+    if (hit) events.push({ id: createAlertId(), ruleId: rule.id, ticker: rule.ticker, firedAt, ...hit });
+  }
+  recordAlertEvents(events);
+}
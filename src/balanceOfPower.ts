@@ -0,0 +1,73 @@
+import { alignToGrid } from './correlation';
+import type { SeriesPoint } from './indicators';
+
+export type ControlMatrix = {
+  /** First chamber's outcome, then the second's: `dr` is Democrats take the first and Republicans the second. */
+  dd: number;
+  dr: number;
+  rd: number;
+  rr: number;
+  /** Where the D/D cell came from; without a combo market the chambers are assumed independent. */
+  source: 'combo' | 'independent';
+  /** The combo price sat outside what the two marginals allow and was pulled back inside. */
+  clamped: boolean;
+  /** Phi coefficient between the two chambers' outcomes; null when a marginal is 0 or 1. */
+  correlation: number | null;
+};
+
+export type ControlMatrixPoint = { timestamp: number; matrix: ControlMatrix };
+
+const CHAMBER_PREFIXES: Array<[RegExp, string]> = [
+  [/^CONTROLH\b|^KXCONTROLH/i, 'House'],
+  [/^CONTROLS\b|^KXCONTROLS/i, 'Senate'],
+];
+
+/** "House" or "Senate" for the chamber-control markets, otherwise null. */
+export function chamberName(ticker: string): string | null {
+  return CHAMBER_PREFIXES.find(([pattern]) => pattern.test(ticker))?.[1] ?? null;
+}
+
+/**
+ * Fills the 2x2 table from P(D first), P(D second) and, when a combo market exists, P(D both); all as
+ * probabilities. The combo is kept within the Fréchet bounds so no cell goes negative.
+ */
+export function buildControlMatrix(first: number, second: number, both: number | null): ControlMatrix {
+  const lower = Math.max(0, first + second - 1);
+  const upper = Math.min(first, second);
+  const raw = both ?? first * second;
+  const dd = Math.min(upper, Math.max(lower, raw));
+  const spread = Math.sqrt(first * (1 - first) * second * (1 - second));
+  return {
+    dd,
+    dr: first - dd,
+    rd: second - dd,
+    rr: 1 - first - second + dd,
+    source: both == null ? 'independent' : 'combo',
+    clamped: both != null && Math.abs(dd - raw) > 1e-9,
+    correlation: spread > 0 ? (dd - first * second) / spread : null,
+  };
+}
+
+/**
+ * One matrix per bar of `grid`, with the other markets sampled at or before each bar. Inputs are in
+ * percent, as the chart's overlay points are; bars before either marginal has traded are skipped.
+ */
+export function buildControlSeries(
+  grid: number[],
+  first: SeriesPoint[],
+  second: SeriesPoint[],
+  both: SeriesPoint[] | null
+): ControlMatrixPoint[] {
+  const firstValues = alignToGrid(first, grid);
+  const secondValues = alignToGrid(second, grid);
+  const bothValues = both ? alignToGrid(both, grid) : null;
+  const out: ControlMatrixPoint[] = [];
+  grid.forEach((timestamp, i) => {
+    const a = firstValues[i];
+    const b = secondValues[i];
+    if (a == null || b == null) return;
+    const c = bothValues?.[i];
+    out.push({ timestamp, matrix: buildControlMatrix(a / 100, b / 100, c == null ? null : c / 100) });
+  });
+  return out;
+}
@@ -0,0 +1,74 @@
+import { alignToGrid } from './correlation';
+import { toCsv } from './download';
+import type { SeriesPoint } from './indicators';
+
+export type ExportCandle = {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  updates: number;
+};
+
+export type ExportSeries = { id: string; label: string; points: SeriesPoint[] };
+
+export type ChartExportTable = {
+  marketId: string;
+  range: { startMs: number; endMs: number };
+  columns: string[];
+  /** One row per primary candle; overlay cells are null before the overlay's first value. */
+  rows: Array<Array<string | number | null>>;
+};
+
+function round(value: number | null, digits = 4): number | null {
+  return value == null ? null : Number(value.toFixed(digits));
+}
+
+/**
+ * Lines every overlay up with the primary candles. Overlays are sampled with their last value at or
+ * before each candle, so daily or monthly macro series repeat until their next print.
+ */
+export function buildChartExportTable(
+  marketId: string,
+  candles: ExportCandle[],
+  overlays: ExportSeries[],
+  range?: { startMs: number; endMs: number } | null
+): ChartExportTable {
+  const inRange = range ? candles.filter((c) => c.timestamp >= range.startMs && c.timestamp <= range.endMs) : candles;
+  const grid = inRange.map((c) => c.timestamp);
+  const aligned = overlays.map((overlay) => alignToGrid(overlay.points, grid));
+  return {
+    marketId,
+    range: { startMs: grid[0] ?? range?.startMs ?? 0, endMs: grid[grid.length - 1] ?? range?.endMs ?? 0 },
+    columns: ['timestamp', 'open', 'high', 'low', 'close', 'volume', ...overlays.map((o) => o.label)],
+    rows: inRange.map((candle, i) => [
+      new Date(candle.timestamp).toISOString(),
+      round(candle.open * 100),
+      round(candle.high * 100),
+      round(candle.low * 100),
+      round(candle.close * 100),
+      candle.updates,
+      ...aligned.map((values) => round(values[i])),
+    ]),
+  };
+}
+
+export function chartExportToCsv(table: ChartExportTable): string {
+  return toCsv([table.columns, ...table.rows]);
+}
+
+/** Rows become objects keyed by column so the file reads on its own. */
+export function chartExportToJson(table: ChartExportTable): string {
+  return JSON.stringify(
+    {
+      market: table.marketId,
+      start: new Date(table.range.startMs).toISOString(),
+      end: new Date(table.range.endMs).toISOString(),
+      units: 'Prices and Kalshi overlays in cents; other overlays in their own units.',
+      rows: table.rows.map((row) => Object.fromEntries(table.columns.map((column, i) => [column, row[i]]))),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,443 @@
+import { Chart as ChartJS, type ChartData, type ChartOptions } from 'chart.js';
+
+export type SnapshotLayout = 'chart' | 'card';
+export type SnapshotFormat = 'png' | 'svg';
+
+export const SNAPSHOT_LAYOUTS: Record<SnapshotLayout, { label: string; width: number; height: number }> = {
+  chart: { label: 'Full chart', width: 1280, height: 720 },
+  // The usual Open Graph / Twitter large-card size.
+  card: { label: 'Share card', width: 1200, height: 630 },
+};
+
+export const SNAPSHOT_SCALES = [1, 2, 3] as const;
+
+export type SnapshotLegendItem = { label: string; color: string };
+
+export type SnapshotDetails = {
+  title: string;
+  ticker: string;
+  rangeLabel: string;
+  /** Latest close in percent. */
+  probability: number | null;
+  legend: SnapshotLegendItem[];
+};
+
+type Fill = string | { top: string; bottom: string };
+
+type Primitive =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; radius: number; fill: Fill; stroke?: string }
+  | {
+      kind: 'text';
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      weight: number;
+      family: string;
+      color: string;
+      align?: 'left' | 'right';
+      glow?: { color: string; blur: number };
+    }
+  | { kind: 'chart'; x: number; y: number; w: number; h: number };
+
+const SANS = 'ui-sans-serif, system-ui, sans-serif';
+const SERIF = '"Times New Roman", Times, serif';
+const MONO = '"Lucida Console", "Courier New", monospace';
+
+type DatasetLike = { type?: string; label?: string; hidden?: boolean; borderColor?: unknown; data?: unknown[] };
+
+/** Legend entries for the datasets actually drawn, coloured the way the glow plugin colours them. */
+export function snapshotLegend(data: ChartData<'bar' | 'line'>, options: ChartOptions<'bar' | 'line'>) {
+  const glow = (options.plugins as { lineGlow?: { colorsByLabel?: Record<string, string> } } | undefined)?.lineGlow;
+  const seen = new Set<string>();
+  const items: SnapshotLegendItem[] = [];
+  for (const dataset of data.datasets as DatasetLike[]) {
+    const label = dataset.label ?? '';
+    if (!label || label === 'Measured Range' || dataset.hidden || !dataset.data?.length || seen.has(label)) continue;
+    seen.add(label);
+    const color =
+      glow?.colorsByLabel?.[label] ?? (typeof dataset.borderColor === 'string' ? dataset.borderColor : '#94a3b8');
+    items.push({ label, color });
+  }
+  return items;
+}
+
+function font(size: number, weight: number, family: string): string {
+  return `${weight} ${size}px ${family}`;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function measure(text: string, size: number, weight: number, family: string): number {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * size * 0.55;
+  measureContext.font = font(size, weight, family);
+  return measureContext.measureText(text).width;
+}
+
+function wrapText(text: string, maxWidth: number, maxLines: number, size: number, weight: number, family: string) {
+  const lines: string[] = [];
+  let current = '';
+  const words = text.split(/\s+/).filter(Boolean);
+  for (let i = 0; i < words.length; i += 1) {
+    const next = current ? `${current} ${words[i]}` : words[i];
+    if (measure(next, size, weight, family) <= maxWidth || !current) {
+      current = next;
+      continue;
+    }
+    if (lines.length === maxLines - 1) {
+      current = `${current} ${words.slice(i).join(' ')}`;
+      break;
+    }
+    lines.push(current);
+    current = words[i];
+  }
+  if (current) lines.push(current);
+  // Whatever still does not fit on the last line is cut with an ellipsis.
+  const last = lines.length - 1;
+  if (last >= 0 && measure(lines[last], size, weight, family) > maxWidth) {
+    let cut = lines[last];
+    while (cut.length > 1 && measure(`${cut}…`, size, weight, family) > maxWidth) cut = cut.slice(0, -1);
+    lines[last] = `${cut.trimEnd()}…`;
+  }
+  return lines;
+}
+
+function legendPrimitives(legend: SnapshotLegendItem[], x: number, y: number, maxWidth: number, size: number) {
+  const out: Primitive[] = [];
+  let cursor = x;
+  for (let i = 0; i < legend.length; i += 1) {
+    const item = legend[i];
+    const width = size + 6 + measure(item.label, size, 600, SANS) + 18;
+    if (cursor + width > x + maxWidth) {
+      const more = `+${legend.length - i} more`;
+      out.push({ kind: 'text', x: cursor, y, text: more, size, weight: 600, family: SANS, color: '#64748b' });
+      break;
+    }
+    out.push({ kind: 'rect', x: cursor, y: y - size * 0.8, w: size * 0.8, h: size * 0.8, radius: 2, fill: item.color });
+    out.push({
+      kind: 'text',
+      x: cursor + size + 4,
+      y,
+      text: item.label,
+      size,
+      weight: 600,
+      family: SANS,
+      color: '#cbd5e1',
+    });
+    cursor += width;
+  }
+  return out;
+}
+
+function layoutPrimitives(layout: SnapshotLayout, details: SnapshotDetails, takenAt: number): Primitive[] {
+  const { width: W, height: H } = SNAPSHOT_LAYOUTS[layout];
+  const probability = details.probability != null ? `${details.probability.toFixed(1)}%` : '--';
+  const stamp = new Date(takenAt).toLocaleString();
+  const probabilityGlow = { color: 'rgba(56,189,248,0.75)', blur: 12 };
+  const out: Primitive[] = [
+    { kind: 'rect', x: 0, y: 0, w: W, h: H, radius: 0, fill: { top: '#0b1220', bottom: '#0f172a' } },
+  ];
+
+  if (layout === 'chart') {
+    const title = wrapText(details.title, W - 340, 1, 30, 800, SERIF)[0] ?? '';
+    out.push(
+      { kind: 'text', x: 40, y: 54, text: title, size: 30, weight: 800, family: SERIF, color: '#f8fafc' },
+      {
+        kind: 'text',
+        x: 40,
+        y: 80,
+        text: `${details.ticker} · ${details.rangeLabel} · ${stamp}`,
+        size: 13,
+        weight: 600,
+        family: SANS,
+        color: '#94a3b8',
+      },
+      {
+        kind: 'rect',
+        x: W - 260,
+        y: 22,
+        w: 220,
+        h: 68,
+        radius: 10,
+        fill: { top: 'rgba(2,132,199,0.35)', bottom: 'rgba(2,6,23,0.7)' },
+        stroke: 'rgba(56,189,248,0.55)',
+      },
+      {
+        kind: 'text',
+        x: W - 246,
+        y: 42,
+        text: 'CURRENT PROBABILITY',
+        size: 11,
+        weight: 700,
+        family: SANS,
+        color: '#bae6fd',
+      },
+      {
+        kind: 'text',
+        x: W - 246,
+        y: 76,
+        text: probability,
+        size: 26,
+        weight: 700,
+        family: MONO,
+        color: '#7dd3fc',
+        glow: probabilityGlow,
+      }
+    );
+    out.push(...chartPanel(24, 106, W - 48, H - 106 - 52));
+    out.push(...legendPrimitives(details.legend, 40, H - 20, W - 80, 12));
+    return out;
+  }
+
+  const titleLines = wrapText(details.title, W - 96 - 300, 2, 40, 800, SERIF);
+  out.push({
+    kind: 'text',
+    x: 48,
+    y: 58,
+    text: details.ticker,
+    size: 15,
+    weight: 700,
+    family: MONO,
+    color: '#7dd3fc',
+  });
+  titleLines.forEach((line, i) =>
+    out.push({
+      kind: 'text',
+      x: 48,
+      y: 108 + i * 46,
+      text: line,
+      size: 40,
+      weight: 800,
+      family: SERIF,
+      color: '#f8fafc',
+    })
+  );
+  out.push(
+    {
+      kind: 'text',
+      x: W - 48,
+      y: 58,
+      text: 'CURRENT PROBABILITY',
+      size: 13,
+      weight: 700,
+      family: SANS,
+      color: '#bae6fd',
+      align: 'right',
+    },
+    {
+      kind: 'text',
+      x: W - 48,
+      y: 136,
+      text: probability,
+      size: 64,
+      weight: 700,
+      family: MONO,
+      color: '#7dd3fc',
+      align: 'right',
+      glow: { ...probabilityGlow, blur: 22 },
+    }
+  );
+  out.push(...chartPanel(32, 200, W - 64, H - 200 - 62));
+  out.push(...legendPrimitives(details.legend, 48, H - 26, W - 96 - 320, 14));
+  out.push({
+    kind: 'text',
+    x: W - 48,
+    y: H - 26,
+    text: `${details.rangeLabel} · ${stamp}`,
+    size: 14,
+    weight: 600,
+    family: SANS,
+    color: '#64748b',
+    align: 'right',
+  });
+  return out;
+}
+
+// Same frame as the on-screen chart container, with the canvas inset by its 10px padding.
+function chartPanel(x: number, y: number, w: number, h: number): Primitive[] {
+  return [
+    {
+      kind: 'rect',
+      x,
+      y,
+      w,
+      h,
+      radius: 14,
+      fill: { top: 'rgba(15,23,42,0.56)', bottom: 'rgba(2,6,23,0.6)' },
+      stroke: 'rgba(100,116,139,0.35)',
+    },
+    { kind: 'chart', x: x + 10, y: y + 10, w: w - 20, h: h - 20 },
+  ];
+}
+
+/**
+ * Draws the chart again off screen at `pixelRatio` with the live data and options, so the registered
+ * plugins (backdrop, glow, candles, markers) paint exactly as they do on screen, only sharper.
+ */
+function renderChartCanvas(
+  data: ChartData<'bar' | 'line'>,
+  options: ChartOptions<'bar' | 'line'>,
+  width: number,
+  height: number,
+  pixelRatio: number
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.style.cssText = `position:fixed;left:-100000px;top:0;width:${width}px;height:${height}px`;
+  document.body.appendChild(canvas);
+
+  const plugins = (options.plugins ?? {}) as Record<string, unknown> & { lineGlow?: { blur?: number } };
+  const chart = new ChartJS(canvas, {
+    type: 'bar',
+    data: { ...data, datasets: data.datasets.map((dataset) => ({ ...dataset })) },
+    options: {
+      ...options,
+      responsive: false,
+      maintainAspectRatio: false,
+      animation: false,
+      devicePixelRatio: pixelRatio,
+      events: [],
+      plugins: {
+        ...plugins,
+        tooltip: { enabled: false },
+        // Canvas shadows ignore the context's scale, so the blur is widened to keep the same look.
+        lineGlow: { ...plugins.lineGlow, blur: (plugins.lineGlow?.blur ?? 16) * pixelRatio },
+      } as ChartOptions<'bar' | 'line'>['plugins'],
+    },
+  });
+
+  const out = document.createElement('canvas');
+  out.width = canvas.width;
+  out.height = canvas.height;
+  out.getContext('2d')?.drawImage(canvas, 0, 0);
+  chart.destroy();
+  canvas.remove();
+  return out;
+}
+
+function roundedRectPath(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  ctx.beginPath();
+  if (r > 0) ctx.roundRect(x, y, w, h, r);
+  else ctx.rect(x, y, w, h);
+}
+
+function paintCanvas(primitives: Primitive[], chartImage: HTMLCanvasElement, W: number, H: number, scale: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(W * scale);
+  canvas.height = Math.round(H * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available in this browser.');
+  ctx.scale(scale, scale);
+
+  for (const p of primitives) {
+    ctx.save();
+    if (p.kind === 'rect') {
+      if (typeof p.fill === 'string') {
+        ctx.fillStyle = p.fill;
+      } else {
+        const gradient = ctx.createLinearGradient(0, p.y, 0, p.y + p.h);
+        gradient.addColorStop(0, p.fill.top);
+        gradient.addColorStop(1, p.fill.bottom);
+        ctx.fillStyle = gradient;
+      }
+      roundedRectPath(ctx, p.x, p.y, p.w, p.h, p.radius);
+      ctx.fill();
+      if (p.stroke) {
+        ctx.strokeStyle = p.stroke;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      }
+    } else if (p.kind === 'text') {
+      ctx.font = font(p.size, p.weight, p.family);
+      ctx.fillStyle = p.color;
+      ctx.textAlign = p.align ?? 'left';
+      ctx.textBaseline = 'alphabetic';
+      if (p.glow) {
+        ctx.shadowColor = p.glow.color;
+        ctx.shadowBlur = p.glow.blur * scale;
+      }
+      ctx.fillText(p.text, p.x, p.y);
+    } else {
+      ctx.drawImage(chartImage, p.x, p.y, p.w, p.h);
+    }
+    ctx.restore();
+  }
+  return canvas;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Text and frames stay vector; the chart itself is embedded as a PNG since Chart.js only draws to canvas. */
+function paintSvg(primitives: Primitive[], chartImage: HTMLCanvasElement, W: number, H: number, scale: number) {
+  const defs: string[] = [];
+  const body: string[] = [];
+  primitives.forEach((p, i) => {
+    if (p.kind === 'rect') {
+      let fill = typeof p.fill === 'string' ? p.fill : '';
+      if (typeof p.fill !== 'string') {
+        defs.push(
+          `<linearGradient id="fill${i}" x1="0" y1="0" x2="0" y2="1">` +
+            `<stop offset="0" stop-color="${p.fill.top}"/><stop offset="1" stop-color="${p.fill.bottom}"/>` +
+            '</linearGradient>'
+        );
+        fill = `url(#fill${i})`;
+      }
+      const stroke = p.stroke ? ` stroke="${p.stroke}" stroke-width="1"` : '';
+      body.push(
+        `<rect x="${p.x}" y="${p.y}" width="${p.w}" height="${p.h}" rx="${p.radius}" fill="${fill}"${stroke}/>`
+      );
+    } else if (p.kind === 'text') {
+      let filter = '';
+      if (p.glow) {
+        defs.push(
+          `<filter id="glow${i}" x="-50%" y="-50%" width="200%" height="200%">` +
+            `<feDropShadow dx="0" dy="0" stdDeviation="${p.glow.blur / 2}" flood-color="${p.glow.color}"/></filter>`
+        );
+        filter = ` filter="url(#glow${i})"`;
+      }
+      const anchor = p.align === 'right' ? ' text-anchor="end"' : '';
+      body.push(
+        `<text x="${p.x}" y="${p.y}" font-family="${escapeXml(p.family)}" font-size="${p.size}" ` +
+          `font-weight="${p.weight}" fill="${p.color}"${anchor}${filter}>${escapeXml(p.text)}</text>`
+      );
+    } else {
+      const href = chartImage.toDataURL('image/png');
+      body.push(
+        `<image x="${p.x}" y="${p.y}" width="${p.w}" height="${p.h}" preserveAspectRatio="none" href="${href}"/>`
+      );
+    }
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${W * scale}" height="${H * scale}" viewBox="0 0 ${W} ${H}">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
+
+/** Renders the snapshot as a PNG blob or SVG markup, stamped with the time it was taken. */
+export async function renderChartSnapshot(
+  layout: SnapshotLayout,
+  format: SnapshotFormat,
+  scale: number,
+  data: ChartData<'bar' | 'line'>,
+  options: ChartOptions<'bar' | 'line'>,
+  details: SnapshotDetails
+): Promise<Blob> {
+  const { width, height } = SNAPSHOT_LAYOUTS[layout];
+  const primitives = layoutPrimitives(layout, details, Date.now());
+  const slot = primitives.find((p) => p.kind === 'chart');
+  const chartImage = renderChartCanvas(data, options, slot?.w ?? width, slot?.h ?? height, scale);
+
+  if (format === 'svg') {
+    return new Blob([paintSvg(primitives, chartImage, width, height, scale)], { type: 'image/svg+xml' });
+  }
+  const canvas = paintCanvas(primitives, chartImage, width, height, scale);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG.'))), 'image/png')
+  );
+}
@@ -0,0 +1,62 @@
+export type ChartThemeName = 'dark' | 'light';
+
+/** Colors the chart takes from its host; series and overlay colors stay fixed so they read the same everywhere. */
+export type ChartTheme = {
+  name: ChartThemeName;
+  /** CSS background of the whole widget. */
+  background: string;
+  /** CSS background of the framed chart area. */
+  panel: string;
+  border: string;
+  text: string;
+  mutedText: string;
+  tick: string;
+  axisTitle: string;
+  grid: string;
+  axisBorder: string;
+  /** Hex color of the primary price line. */
+  price: string;
+  /** Hex color for the active timeframe and the headline probability. */
+  accent: string;
+};
+
+export const CHART_THEMES: Record<ChartThemeName, ChartTheme> = {
+  dark: {
+    name: 'dark',
+    background:
+      'radial-gradient(1200px 300px at 15% -50%, rgba(37,99,235,0.4), transparent), radial-gradient(1200px 300px at 85% -50%, rgba(239,68,68,0.4), transparent), linear-gradient(180deg, #0b1220 0%, #0f172a 100%)',
+    panel: 'linear-gradient(180deg, rgba(15,23,42,0.56), rgba(2,6,23,0.6))',
+    border: 'rgba(100,116,139,0.35)',
+    text: '#f8fafc',
+    mutedText: '#94a3b8',
+    tick: '#cbd5e1',
+    axisTitle: '#e2e8f0',
+    grid: 'rgba(148, 163, 184, 0.18)',
+    axisBorder: 'rgba(148, 163, 184, 0.3)',
+    price: '#ffffff',
+    accent: '#38bdf8',
+  },
+  light: {
+    name: 'light',
+    background: '#ffffff',
+    panel: 'linear-gradient(180deg, #f8fafc, #f1f5f9)',
+    border: 'rgba(148,163,184,0.45)',
+    text: '#0f172a',
+    mutedText: '#475569',
+    tick: '#334155',
+    axisTitle: '#1e293b',
+    grid: 'rgba(100, 116, 139, 0.18)',
+    axisBorder: 'rgba(100, 116, 139, 0.35)',
+    price: '#0f172a',
+    accent: '#0284c7',
+  },
+};
+
+const HEX_COLOR = /^#?[0-9a-f]{6}$/i;
+
+/** Unknown names fall back to dark; `accent` must be a 6-digit hex, with or without the `#`. */
+export function resolveChartTheme(name: string | null | undefined, accent?: string | null): ChartTheme {
+  const base = name === 'light' ? CHART_THEMES.light : CHART_THEMES.dark;
+  if (!accent || !HEX_COLOR.test(accent)) return base;
+  return { ...base, accent: `#${accent.replace('#', '').toLowerCase()}` };
+}
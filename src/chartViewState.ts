@@ -0,0 +1,338 @@
+import { FRED_TRANSFORMS, type FredTransform } from './fred';
+import {
+  formatIndicatorToken,
+  normalizeIndicatorConfig,
+  parseIndicatorToken,
+  type IndicatorConfig,
+} from './indicators';
+import { inferSeriesTicker } from './kalshiClient';
+
+export type Timeframe = '1D' | '7D' | '30D' | 'ALL' | 'CUSTOM';
+
+export type ChartStyle = 'line' | 'ohlc' | 'candlestick' | 'heikin-ashi';
+
+export type PriceSource = 'last' | 'bid' | 'ask' | 'mid';
+
+export type ChartOverlayKey =
+  | 'projection'
+  | 'distribution'
+  | 'combo'
+  | 'controls'
+  | 'balance'
+  | 'trump'
+  | 'sp500'
+  | 'unemployment'
+  | 'bidAsk'
+  | 'orderbook'
+  | 'tape'
+  | 'takerFlow'
+  | 'correlation'
+  | 'news'
+  | 'newsFeed'
+  | 'moves'
+  | 'alerts';
+
+export type ChartCompareMarketState = {
+  ticker: string;
+  seriesTicker: string;
+  enabled: boolean;
+  colorTop?: string;
+  colorBottom?: string;
+  /** Google News search behind the market's news feed; absent means its ticker. */
+  newsQuery?: string;
+};
+
+export type ChartFredSeriesState = {
+  seriesId: string;
+  transform: FredTransform;
+  enabled: boolean;
+};
+
+export const COMPARE_OVERLAY_COLORS: Array<{ top: string; bottom: string }> = [
+  { top: '#38bdf8', bottom: '#0ea5e9' },
+  { top: '#a3e635', bottom: '#65a30d' },
+  { top: '#fda4af', bottom: '#e11d48' },
+  { top: '#fcd34d', bottom: '#d97706' },
+  { top: '#c4b5fd', bottom: '#7c3aed' },
+  { top: '#5eead4', bottom: '#0f766e' },
+];
+
+/** Everything a pasted link needs to reproduce the chart; transient UI (drafts, drag, stream) is left out. */
+export type ChartViewState = {
+  timeframe: Timeframe;
+  customRange: { startMs: number; endMs: number } | null;
+  overlays: ChartOverlayKey[];
+  compareMarkets: ChartCompareMarketState[];
+  fredSeries: ChartFredSeriesState[];
+  indicators: IndicatorConfig[];
+  chartStyle: ChartStyle;
+  priceSource: PriceSource;
+};
+
+const TIMEFRAMES: Timeframe[] = ['1D', '7D', '30D', 'ALL', 'CUSTOM'];
+const CHART_STYLES: ChartStyle[] = ['line', 'ohlc', 'candlestick', 'heikin-ashi'];
+const PRICE_SOURCES: PriceSource[] = ['last', 'bid', 'ask', 'mid'];
+const OVERLAY_KEYS: ChartOverlayKey[] = [
+  'projection',
+  'distribution',
+  'combo',
+  'controls',
+  'balance',
+  'trump',
+  'sp500',
+  'unemployment',
+  'bidAsk',
+  'orderbook',
+  'tape',
+  'takerFlow',
+  'correlation',
+  'news',
+  'newsFeed',
+  'moves',
+  'alerts',
+];
+
+/** Query parameters owned by the chart; anything else in the URL is passed through untouched. */
+const VIEW_PARAMS = ['tf', 'from', 'to', 'ov', 'cmp', 'fred', 'ind', 'style', 'src'] as const;
+
+export const DEFAULT_CHART_VIEW_STATE: ChartViewState = {
+  timeframe: '7D',
+  customRange: null,
+  overlays: [],
+  compareMarkets: [],
+  fredSeries: [],
+  indicators: [],
+  chartStyle: 'line',
+  priceSource: 'last',
+};
+
+function pickOne<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return value != null && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function dedupeIndicators(configs: Array<IndicatorConfig | null>): IndicatorConfig[] {
+  const seen = new Set<string>();
+  return configs.filter((config): config is IndicatorConfig => {
+    if (!config) return false;
+    const token = formatIndicatorToken(config);
+    if (seen.has(token)) return false;
+    seen.add(token);
+    return true;
+  });
+}
+
+function parseIsoMs(value: string | null): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function formatIso(ms: number): string {
+  return new Date(ms).toISOString().replace(/(:00)?\.000Z$/, 'Z');
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function parseHexColor(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const color = value.startsWith('#') ? value : `#${value}`;
+  return HEX_COLOR.test(color) ? color.toLowerCase() : undefined;
+}
+
+// Compare entries look like `TICKER`, `TICKER*SERIES` when the series is not the ticker prefix,
+// `TICKER*SERIES*TOP*BOTTOM` when the colors differ from the palette slot, end in `~news query` when
+// the feed searches something other than the ticker, and carry a leading `-` when the overlay is toggled off.
+function parseCompareEntry(raw: string): ChartCompareMarketState | null {
+  const enabled = !raw.startsWith('-');
+  const queryAt = raw.indexOf('~');
+  const newsQuery = queryAt === -1 ? '' : raw.slice(queryAt + 1).trim();
+  const [tickerPart, seriesPart, topPart, bottomPart] = raw
+    .slice(0, queryAt === -1 ? undefined : queryAt)
+    .replace(/^-/, '')
+    .split('*');
+  const ticker = tickerPart?.trim().toUpperCase();
+  if (!ticker) return null;
+  const seriesTicker = seriesPart?.trim().toUpperCase() || inferSeriesTicker(ticker);
+  if (!seriesTicker) return null;
+  const colorTop = parseHexColor(topPart);
+  const colorBottom = parseHexColor(bottomPart);
+  return {
+    ticker,
+    seriesTicker,
+    enabled,
+    ...(colorTop && colorBottom ? { colorTop, colorBottom } : {}),
+    ...(newsQuery ? { newsQuery } : {}),
+  };
+}
+
+function formatCompareEntry(market: ChartCompareMarketState, idx: number): string {
+  const palette = COMPARE_OVERLAY_COLORS[idx % COMPARE_OVERLAY_COLORS.length];
+  const customColors =
+    market.colorTop && market.colorBottom && (market.colorTop !== palette.top || market.colorBottom !== palette.bottom);
+  const series =
+    market.seriesTicker === inferSeriesTicker(market.ticker) && !customColors ? '' : `*${market.seriesTicker}`;
+  const colors = customColors ? `*${market.colorTop?.slice(1)}*${market.colorBottom?.slice(1)}` : '';
+  const newsQuery = market.newsQuery ? `~${market.newsQuery}` : '';
+  return `${market.enabled ? '' : '-'}${market.ticker}${series}${colors}${newsQuery}`;
+}
+
+const FRED_SERIES_ID = /^[A-Z0-9_]{1,40}$/;
+
+function normalizeFredSeriesId(value: unknown): string | null {
+  const id = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return FRED_SERIES_ID.test(id) ? id : null;
+}
+
+// FRED entries look like `CPIAUCSL` for the level or `CPIAUCSL*yoy` for a transform, with a leading `-`
+// when the overlay is toggled off.
+function parseFredEntry(raw: string): ChartFredSeriesState | null {
+  const enabled = !raw.startsWith('-');
+  const [idPart, transformPart] = raw.replace(/^-/, '').split('*');
+  const seriesId = normalizeFredSeriesId(idPart);
+  if (!seriesId) return null;
+  return { seriesId, transform: pickOne(transformPart ?? null, FRED_TRANSFORMS, 'level'), enabled };
+}
+
+function formatFredEntry(series: ChartFredSeriesState): string {
+  const transform = series.transform === 'level' ? '' : `*${series.transform}`;
+  return `${series.enabled ? '' : '-'}${series.seriesId}${transform}`;
+}
+
+function dedupeFredSeries(entries: Array<ChartFredSeriesState | null>): ChartFredSeriesState[] {
+  const seen = new Set<string>();
+  return entries.filter((entry): entry is ChartFredSeriesState => {
+    if (!entry || seen.has(entry.seriesId)) return false;
+    seen.add(entry.seriesId);
+    return true;
+  });
+}
+
+export function parseChartViewState(search: string): ChartViewState {
+  const params = new URLSearchParams(search);
+  const timeframe = pickOne(params.get('tf'), TIMEFRAMES, DEFAULT_CHART_VIEW_STATE.timeframe);
+  const startMs = parseIsoMs(params.get('from'));
+  const endMs = parseIsoMs(params.get('to'));
+  let customRange: ChartViewState['customRange'] = null;
+  if (timeframe === 'CUSTOM') {
+    // A custom link without a usable range opens on the same trailing two weeks the CUSTOM button uses.
+    const now = Date.now();
+    customRange =
+      startMs != null && endMs != null && endMs > startMs
+        ? { startMs, endMs }
+        : { startMs: now - 14 * 24 * 60 * 60 * 1000, endMs: now };
+  }
+
+  const overlays = (params.get('ov') ?? '')
+    .split('.')
+    .filter((key): key is ChartOverlayKey => (OVERLAY_KEYS as string[]).includes(key));
+
+  const seen = new Set<string>();
+  const compareMarkets = params
+    .getAll('cmp')
+    .map(parseCompareEntry)
+    .filter((m): m is ChartCompareMarketState => {
+      if (!m || seen.has(m.ticker)) return false;
+      seen.add(m.ticker);
+      return true;
+    });
+
+  return {
+    timeframe,
+    customRange,
+    overlays: OVERLAY_KEYS.filter((key) => overlays.includes(key)),
+    compareMarkets,
+    fredSeries: dedupeFredSeries(params.getAll('fred').map(parseFredEntry)),
+    indicators: dedupeIndicators(params.getAll('ind').map(parseIndicatorToken)),
+    chartStyle: pickOne(params.get('style'), CHART_STYLES, DEFAULT_CHART_VIEW_STATE.chartStyle),
+    priceSource: pickOne(params.get('src'), PRICE_SOURCES, DEFAULT_CHART_VIEW_STATE.priceSource),
+  };
+}
+
+/**
+ * Writes the view into `baseSearch`, dropping parameters that match the defaults so an untouched
+ * chart keeps a clean URL. Returns a `?`-prefixed string, or an empty string when nothing is set.
+ */
+export function serializeChartViewState(view: ChartViewState, baseSearch = ''): string {
+  const params = new URLSearchParams(baseSearch);
+  VIEW_PARAMS.forEach((key) => params.delete(key));
+
+  if (view.timeframe !== DEFAULT_CHART_VIEW_STATE.timeframe) params.set('tf', view.timeframe);
+  if (view.timeframe === 'CUSTOM' && view.customRange) {
+    params.set('from', formatIso(view.customRange.startMs));
+    params.set('to', formatIso(view.customRange.endMs));
+  }
+  const overlays = OVERLAY_KEYS.filter((key) => view.overlays.includes(key));
+  if (overlays.length > 0) params.set('ov', overlays.join('.'));
+  view.compareMarkets.forEach((market, idx) => params.append('cmp', formatCompareEntry(market, idx)));
+  view.fredSeries.forEach((series) => params.append('fred', formatFredEntry(series)));
+  view.indicators.forEach((config) => params.append('ind', formatIndicatorToken(config)));
+  if (view.chartStyle !== DEFAULT_CHART_VIEW_STATE.chartStyle) params.set('style', view.chartStyle);
+  if (view.priceSource !== DEFAULT_CHART_VIEW_STATE.priceSource) params.set('src', view.priceSource);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/** Validates a view that came from outside the app (an imported workspace file), dropping bad fields. */
+export function normalizeChartViewState(raw: unknown): ChartViewState {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const timeframe = pickOne(asString(value.timeframe), TIMEFRAMES, DEFAULT_CHART_VIEW_STATE.timeframe);
+  const range = (value.customRange && typeof value.customRange === 'object' ? value.customRange : {}) as Record<
+    string,
+    unknown
+  >;
+  const startMs = Number(range.startMs);
+  const endMs = Number(range.endMs);
+  const customRange =
+    Number.isFinite(startMs) && Number.isFinite(endMs) && endMs > startMs ? { startMs, endMs } : null;
+  const overlays = Array.isArray(value.overlays) ? value.overlays : [];
+  const indicators: unknown[] = Array.isArray(value.indicators) ? value.indicators : [];
+  const fredSeries: unknown[] = Array.isArray(value.fredSeries) ? value.fredSeries : [];
+
+  const seen = new Set<string>();
+  const compareMarkets = (Array.isArray(value.compareMarkets) ? value.compareMarkets : [])
+    .map((entry): ChartCompareMarketState | null => {
+      const market = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      const ticker = typeof market.ticker === 'string' ? market.ticker.trim().toUpperCase() : '';
+      const seriesTicker =
+        typeof market.seriesTicker === 'string' && market.seriesTicker.trim()
+          ? market.seriesTicker.trim().toUpperCase()
+          : inferSeriesTicker(ticker);
+      if (!ticker || !seriesTicker || seen.has(ticker)) return null;
+      seen.add(ticker);
+      const colorTop = parseHexColor(market.colorTop);
+      const colorBottom = parseHexColor(market.colorBottom);
+      const newsQuery = typeof market.newsQuery === 'string' ? market.newsQuery.trim() : '';
+      return {
+        ticker,
+        seriesTicker,
+        enabled: market.enabled !== false,
+        ...(colorTop && colorBottom ? { colorTop, colorBottom } : {}),
+        ...(newsQuery ? { newsQuery } : {}),
+      };
+    })
+    .filter((m): m is ChartCompareMarketState => m != null);
+
+  return {
+    timeframe,
+    customRange: timeframe === 'CUSTOM' ? customRange : null,
+    overlays: OVERLAY_KEYS.filter((key) => overlays.includes(key)),
+    compareMarkets,
+    fredSeries: dedupeFredSeries(
+      fredSeries.map((entry) => {
+        const series = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+        const seriesId = normalizeFredSeriesId(series.seriesId);
+        if (!seriesId) return null;
+        const transform = pickOne(asString(series.transform), FRED_TRANSFORMS, 'level');
+        return { seriesId, transform, enabled: series.enabled !== false };
+      })
+    ),
+    indicators: dedupeIndicators(indicators.map(normalizeIndicatorConfig)),
+    chartStyle: pickOne(asString(value.chartStyle), CHART_STYLES, DEFAULT_CHART_VIEW_STATE.chartStyle),
+    priceSource: pickOne(asString(value.priceSource), PRICE_SOURCES, DEFAULT_CHART_VIEW_STATE.priceSource),
+  };
+}
@@ -0,0 +1,103 @@
+import type { SeriesPoint } from './indicators';
+
+export type LagCorrelation = {
+  /** Positive when the first series leads: its change at t lines up with the second's at t + lag. */
+  lag: number;
+  value: number | null;
+};
+
+/**
+ * Samples each series on `grid` with the last value at or before every timestamp, so daily macro
+ * series and hourly markets can be compared bar for bar. Bars before a series starts are null.
+ */
+export function alignToGrid(points: SeriesPoint[], grid: number[]): Array<number | null> {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const out: Array<number | null> = [];
+  let cursor = -1;
+  for (const ts of grid) {
+    while (cursor + 1 < sorted.length && sorted[cursor + 1].timestamp <= ts) cursor += 1;
+    out.push(cursor >= 0 ? sorted[cursor].value : null);
+  }
+  return out;
+}
+
+/** Bar-to-bar changes; correlating levels would mostly measure two shared trends. */
+export function toChanges(values: Array<number | null>): Array<number | null> {
+  return values.map((v, i) => {
+    const prev = i > 0 ? values[i - 1] : null;
+    return v != null && prev != null ? v - prev : null;
+  });
+}
+
+/** Pearson correlation over the bars where both inputs have a value; null with fewer than 3 pairs or no variance. */
+export function pearson(a: Array<number | null>, b: Array<number | null>): number | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i += 1) {
+    const x = a[i];
+    const y = b[i];
+    if (x == null || y == null) continue;
+    xs.push(x);
+    ys.push(y);
+  }
+  if (xs.length < 3) return null;
+  const meanX = xs.reduce((acc, v) => acc + v, 0) / xs.length;
+  const meanY = ys.reduce((acc, v) => acc + v, 0) / ys.length;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < xs.length; i += 1) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+  if (varX === 0 || varY === 0) return null;
+  return cov / Math.sqrt(varX * varY);
+}
+
+export function correlationMatrix(changes: Array<Array<number | null>>): Array<Array<number | null>> {
+  return changes.map((a, i) => changes.map((b, j) => (i === j ? 1 : pearson(a, b))));
+}
+
+export function rollingCorrelation(
+  a: Array<number | null>,
+  b: Array<number | null>,
+  grid: number[],
+  window: number
+): Array<{ timestamp: number; value: number | null }> {
+  const out: Array<{ timestamp: number; value: number | null }> = [];
+  for (let end = window; end <= grid.length; end += 1) {
+    out.push({ timestamp: grid[end - 1], value: pearson(a.slice(end - window, end), b.slice(end - window, end)) });
+  }
+  return out;
+}
+
+export function crossCorrelation(a: Array<number | null>, b: Array<number | null>, maxLag: number): LagCorrelation[] {
+  const out: LagCorrelation[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag += 1) {
+    // Shift so index i pairs a[i] with b[i + lag].
+    const left = lag >= 0 ? a.slice(0, a.length - lag) : a.slice(-lag);
+    const right = lag >= 0 ? b.slice(lag) : b.slice(0, b.length + lag);
+    out.push({ lag, value: pearson(left, right) });
+  }
+  return out;
+}
+
+/** Lag with the strongest absolute correlation; ties go to the lag closest to zero. */
+export function strongestLag(lags: LagCorrelation[]): LagCorrelation | null {
+  let best: LagCorrelation | null = null;
+  for (const entry of lags) {
+    if (entry.value == null) continue;
+    if (
+      !best ||
+      Math.abs(entry.value) > Math.abs(best.value ?? 0) + 1e-9 ||
+      (Math.abs(Math.abs(entry.value) - Math.abs(best.value ?? 0)) <= 1e-9 && Math.abs(entry.lag) < Math.abs(best.lag))
+    ) {
+      best = entry;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,25 @@
+/** Saves `contents` through a temporary object URL, the way the browser's own "Save link as" would. */
+export function downloadFile(filename: string, contents: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.style.display = 'none';
+  // Firefox only follows links that are in the document, and cancels the save if the URL is revoked
+  // before the download has started.
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function csvCell(value: string | number | null): string {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 quoting; null cells are left empty. */
+export function toCsv(rows: Array<Array<string | number | null>>): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
@@ -0,0 +1,80 @@
+import { parseChartViewState, type ChartOverlayKey, type ChartViewState, type Timeframe } from './chartViewState';
+import { resolveChartTheme, type ChartTheme } from './chartTheme';
+
+/** `source` on every message the widget posts, and the `target` hosts address commands to. */
+export const EMBED_MESSAGE_SOURCE = 'kalshi-chart-embed';
+
+/**
+ * Options shared by the `/embed` query string, the `<kalshi-chart>` attributes and `setOptions`:
+ * `ticker`, `timeframe` (1D, 7D, 30D, ALL, or CUSTOM with `from`/`to`), `overlays` (comma-separated
+ * overlay keys), `compare` (comma-separated tickers), `fred` (comma-separated FRED series IDs, each
+ * optionally suffixed `*pct`, `*yoy` or `*index`), `style`, `source`, `theme` (dark or light),
+ * `accent` (hex), `height` (px), `id` (echoed back on messages) and `origin` (the only parent origin
+ * that may send commands and receive events).
+ */
+export type EmbedParams = Record<string, string | null | undefined>;
+
+export type EmbedOptions = {
+  ticker: string;
+  view: ChartViewState;
+  theme: ChartTheme;
+  height: number | null;
+  id: string | null;
+  parentOrigin: string | null;
+};
+
+export type EmbedEvent =
+  | { type: 'ready'; ticker: string }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'price'; ticker: string; probability: number; timestamp: number }
+  | { type: 'view'; ticker: string; timeframe: Timeframe; overlays: ChartOverlayKey[] }
+  | { type: 'error'; message: string };
+
+export type EmbedCommand = { type: 'setOptions'; options: EmbedParams } | { type: 'requestSize' };
+
+// Tickers can carry decimal strikes (`...-B67.5`), so only overlay keys may also be separated by dots.
+function splitList(value: string | null | undefined, separator: RegExp = /,/): string[] {
+  return (value ?? '')
+    .split(separator)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+export function parseEmbedOptions(params: EmbedParams): EmbedOptions {
+  // The chart already validates its own URL format, so the friendlier embed names are mapped onto it.
+  const viewParams = new URLSearchParams();
+  const timeframe = params.timeframe?.trim().toUpperCase();
+  if (timeframe) viewParams.set('tf', timeframe);
+  if (params.from) viewParams.set('from', params.from);
+  if (params.to) viewParams.set('to', params.to);
+  const overlays = splitList(params.overlays, /[,.\s]+/);
+  if (overlays.length > 0) viewParams.set('ov', overlays.join('.'));
+  splitList(params.compare).forEach((ticker) => viewParams.append('cmp', ticker));
+  splitList(params.fred).forEach((entry) => viewParams.append('fred', entry));
+  if (params.style) viewParams.set('style', params.style);
+  if (params.source) viewParams.set('src', params.source);
+
+  const height = Number(params.height);
+  return {
+    ticker: (params.ticker ?? '').trim().toUpperCase(),
+    view: parseChartViewState(`?${viewParams.toString()}`),
+    theme: resolveChartTheme(params.theme, params.accent),
+    height: Number.isFinite(height) && height >= 160 ? Math.round(height) : null,
+    id: params.id || null,
+    parentOrigin: params.origin || null,
+  };
+}
+
+/** Returns the command in a host message, or null for anything else posted to the frame. */
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as { target?: unknown; type?: unknown; options?: unknown };
+  if (message.target !== EMBED_MESSAGE_SOURCE) return null;
+  if (message.type === 'requestSize') return { type: 'requestSize' };
+  if (message.type !== 'setOptions' || !message.options || typeof message.options !== 'object') return null;
+  const options: EmbedParams = {};
+  for (const [key, value] of Object.entries(message.options)) {
+    if (typeof value === 'string' || typeof value === 'number') options[key] = String(value);
+  }
+  return { type: 'setOptions', options };
+}
@@ -0,0 +1,180 @@
+import { fetchJsonOrThrow, resolveEndpointUrl } from './http';
+import type { SeriesPoint } from './indicators';
+
+/**
+ * How an overlaid FRED series is drawn: as published (`level`), change from the previous observation
+ * (`pct`), change from the same date a year earlier (`yoy`), or rebased so its first value in range is 100.
+ */
+export type FredTransform = 'level' | 'pct' | 'yoy' | 'index';
+
+export const FRED_TRANSFORMS: FredTransform[] = ['level', 'pct', 'yoy', 'index'];
+
+export const FRED_TRANSFORM_LABELS: Record<FredTransform, string> = {
+  level: 'Level',
+  pct: '% Change',
+  yoy: 'YoY %',
+  index: 'Index = 100',
+};
+
+export const FRED_OVERLAY_COLORS = ['#facc15', '#2dd4bf', '#f472b6', '#818cf8', '#a3e635', '#fb923c'];
+
+export type FredSeriesInfo = {
+  id: string;
+  title: string;
+  /** Display units, e.g. "Index 1982-1984=100"; `unitsShort` is the compact form FRED uses on axes. */
+  units: string;
+  unitsShort: string;
+  frequency: string;
+  observationStart: string;
+  observationEnd: string;
+};
+
+type FredSearchResponse = {
+  seriess?: Array<{
+    id: string;
+    title?: string;
+    units?: string;
+    units_short?: string;
+    frequency?: string;
+    observation_start?: string;
+    observation_end?: string;
+  }>;
+};
+
+type FredObservationsResponse = {
+  observations?: Array<{ date: string; value: string }>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEARCH_LIMIT = 12;
+
+// FRED writes "." for dates it has no value for: market holidays on daily series, gaps in discontinued ones.
+const MISSING_VALUE = '.';
+
+// Year-over-year needs a year before the window, with slack for weekly and quarterly dates.
+const LOOKBACK_MS = 400 * DAY_MS;
+
+// A year-ago observation further than this from the anniversary is treated as missing, not stretched.
+const YOY_TOLERANCE_MS = 16 * DAY_MS;
+
+/** Full-text search over FRED series, most popular first. */
+export async function searchFredSeries(endpoint: string, text: string, apiKey?: string): Promise<FredSeriesInfo[]> {
+  const url = resolveEndpointUrl(endpoint);
+  url.searchParams.set('search_text', text);
+  url.searchParams.set('file_type', 'json');
+  url.searchParams.set('order_by', 'popularity');
+  url.searchParams.set('sort_order', 'desc');
+  url.searchParams.set('limit', String(SEARCH_LIMIT));
+  if (apiKey) url.searchParams.set('api_key', apiKey);
+
+  const data = await fetchJsonOrThrow<FredSearchResponse>(url, {}, 'FRED series search');
+  return (data.seriess ?? []).map((s) => ({
+    id: s.id,
+    title: s.title || s.id,
+    units: s.units || '',
+    unitsShort: s.units_short || s.units || '',
+    frequency: s.frequency || '',
+    observationStart: s.observation_start || '',
+    observationEnd: s.observation_end || '',
+  }));
+}
+
+/**
+ * Observations of `seriesId` from a year before `startMs` through `endMs`, so the change transforms have
+ * history to compare against. Missing-value rows are dropped, leaving the line to bridge the gap.
+ */
+export async function fetchFredObservations(
+  endpoint: string,
+  seriesId: string,
+  startMs: number,
+  endMs: number,
+  apiKey?: string
+): Promise<SeriesPoint[]> {
+  const url = resolveEndpointUrl(endpoint);
+  url.searchParams.set('series_id', seriesId);
+  url.searchParams.set('file_type', 'json');
+  url.searchParams.set('sort_order', 'asc');
+  url.searchParams.set('observation_start', new Date(Math.max(0, startMs - LOOKBACK_MS)).toISOString().slice(0, 10));
+  url.searchParams.set('observation_end', new Date(endMs).toISOString().slice(0, 10));
+  if (apiKey) url.searchParams.set('api_key', apiKey);
+
+  const data = await fetchJsonOrThrow<FredObservationsResponse>(url, {}, `FRED ${seriesId}`);
+  const points: SeriesPoint[] = [];
+  for (const o of data.observations ?? []) {
+    if (o.value.trim() === MISSING_VALUE) continue;
+    const timestamp = new Date(`${o.date}T00:00:00Z`).getTime();
+    const value = Number(o.value);
+    if (Number.isFinite(timestamp) && Number.isFinite(value)) points.push({ timestamp, value });
+  }
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function yearEarlier(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setUTCFullYear(date.getUTCFullYear() - 1);
+  return date.getTime();
+}
+
+/**
+ * Points from `startMs` on. The last value published before it is carried to `startMs`, so a monthly series
+ * still draws a line across a window shorter than its release cycle.
+ */
+function fromStart(points: SeriesPoint[], startMs: number): SeriesPoint[] {
+  const first = points.findIndex((p) => p.timestamp >= startMs);
+  const visible = first === -1 ? [] : points.slice(first);
+  const carried = points[(first === -1 ? points.length : first) - 1];
+  if (!carried || visible[0]?.timestamp === startMs) return visible;
+  return [{ timestamp: startMs, value: carried.value }, ...visible];
+}
+
+/**
+ * Applies `transform` and keeps the points from `startMs` on. Changes are measured against the previous
+ * published value, so a dropped missing row compares across the gap; a zero base yields no point.
+ */
+export function applyFredTransform(points: SeriesPoint[], transform: FredTransform, startMs: number): SeriesPoint[] {
+  if (transform === 'level') return fromStart(points, startMs);
+
+  if (transform === 'index') {
+    const visible = fromStart(points, startMs);
+    const base = visible.find((p) => p.value !== 0)?.value;
+    return base == null ? [] : visible.map((p) => ({ timestamp: p.timestamp, value: (p.value / base) * 100 }));
+  }
+
+  const changes: SeriesPoint[] = [];
+  let j = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const point = points[i];
+    let base: SeriesPoint | undefined;
+    if (transform === 'pct') {
+      base = points[i - 1];
+    } else {
+      const anniversary = yearEarlier(point.timestamp);
+      while (j + 1 < points.length && points[j + 1].timestamp <= anniversary) j += 1;
+      const candidate = points[j];
+      if (candidate.timestamp <= anniversary && anniversary - candidate.timestamp <= YOY_TOLERANCE_MS) {
+        base = candidate;
+      }
+    }
+    if (!base || base.value === 0) continue;
+    changes.push({ timestamp: point.timestamp, value: (point.value / base.value - 1) * 100 });
+  }
+  return fromStart(changes, startMs);
+}
+
+/**
+ * Percent changes share one axis and rebased series another; levels each get their own axis, since
+ * their units rarely agree.
+ */
+export function fredAxisId(seriesId: string, transform: FredTransform): string {
+  if (transform === 'pct' || transform === 'yoy') return 'yFredChange';
+  if (transform === 'index') return 'yFredIndex';
+  return `yFred:${seriesId}`;
+}
+
+export function formatFredValue(value: number, transform: FredTransform, unitsShort?: string): string {
+  if (transform === 'pct' || transform === 'yoy') return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+  if (transform === 'index') return value.toFixed(1);
+  const text = value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) >= 100 ? 1 : 3 });
+  return unitsShort ? `${text} ${unitsShort}` : text;
+}
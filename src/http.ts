@@ -0,0 +1,80 @@
+export async function fetchJsonOrThrow<T>(
+  url: URL,
+  headers: Record<string, string>,
+  requestLabel: string
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url.toString(), { headers, mode: 'cors' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Network error while fetching ${requestLabel}.\nURL: ${url.toString()}\nDetails: ${message}\nHint: likely CORS or network blocking.`
+    );
+  }
+
+  if (!response.ok) {
+    let body = '';
+    try {
+      body = await response.text();
+    } catch {
+      body = '';
+    }
+
+    const bodySnippet = body ? `\nResponse: ${body.slice(0, 300)}` : '';
+    throw new Error(
+      `Request failed for ${requestLabel}.\nURL: ${url.toString()}\nStatus: ${response.status} ${response.statusText}${bodySnippet}`
+    );
+  }
+
+  const raw = await response.text();
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    const snippet = raw ? `\nResponse: ${raw.slice(0, 300)}` : '';
+    const contentType = response.headers.get('content-type');
+    throw new Error(
+      `Invalid JSON while fetching ${requestLabel}.\nURL: ${url.toString()}\nStatus: ${response.status} ${response.statusText}${contentType ? `\nContent-Type: ${contentType}` : ''}${snippet}`
+    );
+  }
+}
+
+export async function fetchTextOrThrow(
+  url: URL,
+  headers: Record<string, string>,
+  requestLabel: string
+): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url.toString(), { headers, mode: 'cors' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Network error while fetching ${requestLabel}.\nURL: ${url.toString()}\nDetails: ${message}\nHint: likely CORS or network blocking.`
+    );
+  }
+
+  if (!response.ok) {
+    let body = '';
+    try {
+      body = await response.text();
+    } catch {
+      body = '';
+    }
+    const bodySnippet = body ? `\nResponse: ${body.slice(0, 300)}` : '';
+    throw new Error(
+      `Request failed for ${requestLabel}.\nURL: ${url.toString()}\nStatus: ${response.status} ${response.statusText}${bodySnippet}`
+    );
+  }
+
+  return response.text();
+}
+
+export function resolveEndpointUrl(endpoint: string, origin = window.location.origin): URL {
+  return endpoint.startsWith('http') ? new URL(endpoint) : new URL(endpoint, origin);
+}
+
+/** `endpoint` as an absolute URL against `origin`; an empty endpoint stays empty, so a disabled feed stays off. */
+export function absoluteEndpoint(endpoint: string, origin: string): string {
+  return endpoint ? resolveEndpointUrl(endpoint, origin).toString() : '';
+}
@@ -0,0 +1,207 @@
+export type SeriesPoint = {
+  timestamp: number;
+  value: number;
+};
+
+export type IndicatorKind = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'roc';
+
+export type IndicatorConfig = {
+  kind: IndicatorKind;
+  /** Lookback in bars of the source series, so the wall-clock span follows the timeframe's candle size. */
+  period: number;
+  /** Band width for Bollinger bands; ignored by the other kinds. */
+  stdDevs?: number;
+  /** `price` for the main market, an overlay key, or a compare market ticker. */
+  source: string;
+};
+
+export type IndicatorLine = {
+  role: 'main' | 'upper' | 'lower';
+  points: SeriesPoint[];
+};
+
+type IndicatorDefinition = {
+  label: string;
+  shortLabel: string;
+  /** Token prefix used in share links. */
+  code: string;
+  /** `overlay` indicators share the source's axis; `pane` indicators get their own chart below. */
+  placement: 'overlay' | 'pane';
+  defaultPeriod: number;
+};
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorKind, IndicatorDefinition> = {
+  sma: { label: 'Simple moving average', shortLabel: 'SMA', code: 'sma', placement: 'overlay', defaultPeriod: 20 },
+  ema: { label: 'Exponential moving average', shortLabel: 'EMA', code: 'ema', placement: 'overlay', defaultPeriod: 20 },
+  bollinger: { label: 'Bollinger bands', shortLabel: 'BB', code: 'bb', placement: 'overlay', defaultPeriod: 20 },
+  rsi: { label: 'Relative strength index', shortLabel: 'RSI', code: 'rsi', placement: 'pane', defaultPeriod: 14 },
+  roc: { label: 'Rate of change', shortLabel: 'ROC', code: 'roc', placement: 'pane', defaultPeriod: 10 },
+};
+
+export const INDICATOR_PERIOD_RANGE = { min: 2, max: 500 };
+export const BOLLINGER_STD_DEV_RANGE = { min: 0.5, max: 4 };
+const DEFAULT_STD_DEVS = 2;
+
+export function candleCloses(candles: Array<{ timestamp: number; close: number }>): SeriesPoint[] {
+  return candles.map((c) => ({ timestamp: c.timestamp, value: c.close * 100 }));
+}
+
+export function sma(points: SeriesPoint[], period: number): SeriesPoint[] {
+  const out: SeriesPoint[] = [];
+  let sum = 0;
+  points.forEach((p, i) => {
+    sum += p.value;
+    if (i >= period) sum -= points[i - period].value;
+    if (i >= period - 1) out.push({ timestamp: p.timestamp, value: sum / period });
+  });
+  return out;
+}
+
+/** Plain exponential smoothing seeded with the first value, for callers that think in `alpha`. */
+export function exponentialSmoothing(points: SeriesPoint[], alpha: number): SeriesPoint[] {
+  if (points.length === 0) return [];
+  let current = points[0].value;
+  return points.map((p) => {
+    current = alpha * p.value + (1 - alpha) * current;
+    return { timestamp: p.timestamp, value: current };
+  });
+}
+
+/** Standard EMA: seeded with the SMA of the first `period` values, then smoothed with 2 / (period + 1). */
+export function ema(points: SeriesPoint[], period: number): SeriesPoint[] {
+  if (points.length < period) return [];
+  const alpha = 2 / (period + 1);
+  let current = points.slice(0, period).reduce((acc, p) => acc + p.value, 0) / period;
+  const out: SeriesPoint[] = [{ timestamp: points[period - 1].timestamp, value: current }];
+  for (let i = period; i < points.length; i += 1) {
+    current = alpha * points[i].value + (1 - alpha) * current;
+    out.push({ timestamp: points[i].timestamp, value: current });
+  }
+  return out;
+}
+
+export function bollingerBands(
+  points: SeriesPoint[],
+  period: number,
+  stdDevs: number = DEFAULT_STD_DEVS
+): { middle: SeriesPoint[]; upper: SeriesPoint[]; lower: SeriesPoint[] } {
+  const middle: SeriesPoint[] = [];
+  const upper: SeriesPoint[] = [];
+  const lower: SeriesPoint[] = [];
+  for (let i = period - 1; i < points.length; i += 1) {
+    const window = points.slice(i - period + 1, i + 1);
+    const mean = window.reduce((acc, p) => acc + p.value, 0) / period;
+    const variance = window.reduce((acc, p) => acc + (p.value - mean) ** 2, 0) / period;
+    const width = Math.sqrt(variance) * stdDevs;
+    const timestamp = points[i].timestamp;
+    middle.push({ timestamp, value: mean });
+    upper.push({ timestamp, value: mean + width });
+    lower.push({ timestamp, value: mean - width });
+  }
+  return { middle, upper, lower };
+}
+
+/** Wilder's RSI on a 0–100 scale. */
+export function rsi(points: SeriesPoint[], period: number): SeriesPoint[] {
+  if (points.length <= period) return [];
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i += 1) {
+    const change = points[i].value - points[i - 1].value;
+    avgGain += Math.max(change, 0) / period;
+    avgLoss += Math.max(-change, 0) / period;
+  }
+  const toRsi = () => {
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  };
+  const out: SeriesPoint[] = [{ timestamp: points[period].timestamp, value: toRsi() }];
+  for (let i = period + 1; i < points.length; i += 1) {
+    const change = points[i].value - points[i - 1].value;
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    out.push({ timestamp: points[i].timestamp, value: toRsi() });
+  }
+  return out;
+}
+
+/** Percent change against the value `period` bars earlier; bars whose base is zero are skipped. */
+export function rateOfChange(points: SeriesPoint[], period: number): SeriesPoint[] {
+  const out: SeriesPoint[] = [];
+  for (let i = period; i < points.length; i += 1) {
+    const base = points[i - period].value;
+    if (base === 0) continue;
+    out.push({ timestamp: points[i].timestamp, value: ((points[i].value - base) / Math.abs(base)) * 100 });
+  }
+  return out;
+}
+
+export function computeIndicator(config: IndicatorConfig, points: SeriesPoint[]): IndicatorLine[] {
+  switch (config.kind) {
+    case 'sma':
+      return [{ role: 'main', points: sma(points, config.period) }];
+    case 'ema':
+      return [{ role: 'main', points: ema(points, config.period) }];
+    case 'bollinger': {
+      const bands = bollingerBands(points, config.period, config.stdDevs);
+      return [
+        { role: 'upper', points: bands.upper },
+        { role: 'main', points: bands.middle },
+        { role: 'lower', points: bands.lower },
+      ];
+    }
+    case 'rsi':
+      return [{ role: 'main', points: rsi(points, config.period) }];
+    case 'roc':
+      return [{ role: 'main', points: rateOfChange(points, config.period) }];
+  }
+}
+
+export function indicatorLabel(config: IndicatorConfig, sourceLabel: string): string {
+  const def = INDICATOR_DEFINITIONS[config.kind];
+  const params =
+    config.kind === 'bollinger' ? `${config.period}, ${config.stdDevs ?? DEFAULT_STD_DEVS}σ` : `${config.period}`;
+  return `${def.shortLabel} ${params} · ${sourceLabel}`;
+}
+
+// Tokens look like `sma20`, `bb20x2.5` or `rsi14*CONTROLS-2026-D`; the `*source` suffix is left off for
+// the main price. They double as stable ids, so the same indicator cannot be added twice.
+export function formatIndicatorToken(config: IndicatorConfig): string {
+  const def = INDICATOR_DEFINITIONS[config.kind];
+  const width = config.kind === 'bollinger' ? `x${config.stdDevs ?? DEFAULT_STD_DEVS}` : '';
+  const source = config.source === 'price' ? '' : `*${config.source}`;
+  return `${def.code}${config.period}${width}${source}`;
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+export function parseIndicatorToken(token: string): IndicatorConfig | null {
+  const match = token.trim().match(/^([a-z]+)(\d+)(?:x(\d+(?:\.\d+)?))?(?:\*(.+))?$/i);
+  if (!match) return null;
+  const kind = (Object.keys(INDICATOR_DEFINITIONS) as IndicatorKind[]).find(
+    (k) => INDICATOR_DEFINITIONS[k].code === match[1].toLowerCase()
+  );
+  if (!kind) return null;
+  return normalizeIndicatorConfig({
+    kind,
+    period: Number(match[2]),
+    stdDevs: match[3] != null ? Number(match[3]) : undefined,
+    source: match[4] ?? 'price',
+  });
+}
+
+export function normalizeIndicatorConfig(raw: unknown): IndicatorConfig | null {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const kind = (Object.keys(INDICATOR_DEFINITIONS) as IndicatorKind[]).find((k) => k === value.kind);
+  const period = Math.round(Number(value.period));
+  if (!kind || !Number.isFinite(period)) return null;
+  const source = typeof value.source === 'string' && value.source.trim() ? value.source.trim() : 'price';
+  const config: IndicatorConfig = { kind, period: clamp(period, INDICATOR_PERIOD_RANGE), source };
+  if (kind === 'bollinger') {
+    const stdDevs = Number(value.stdDevs);
+    config.stdDevs = Number.isFinite(stdDevs) ? clamp(stdDevs, BOLLINGER_STD_DEV_RANGE) : DEFAULT_STD_DEVS;
+  }
+  return config;
+}
@@ -0,0 +1,353 @@
+import { fetchJsonOrThrow } from './http';
+
+export const KALSHI_PROXY_BASE_URL = '/api/kalshi/trade-api/v2';
+export const KALSHI_DIRECT_BASE_URL = 'https://api.elections.kalshi.com/trade-api/v2';
+
+const TRADE_API_PATH = '/trade-api/v2';
+const KALSHI_HOST = /(^|\.)kalshi\.com?$/i;
+
+export type KalshiMarketStatus = 'initialized' | 'unopened' | 'open' | 'active' | 'closed' | 'settled' | 'determined' | 'finalized';
+
+export type KalshiStrikeType =
+  | 'greater'
+  | 'greater_or_equal'
+  | 'less'
+  | 'less_or_equal'
+  | 'between'
+  | 'functional'
+  | 'custom'
+  | 'structured';
+
+export type KalshiSeries = {
+  ticker: string;
+  title: string;
+  category?: string;
+  frequency?: string;
+  tags?: string[];
+  contract_url?: string;
+  settlement_sources?: Array<{ name?: string; url?: string }>;
+};
+
+export type KalshiMarket = {
+  ticker: string;
+  event_ticker: string;
+  market_type?: 'binary' | 'scalar';
+  title?: string;
+  subtitle?: string;
+  yes_sub_title?: string;
+  no_sub_title?: string;
+  status?: KalshiMarketStatus;
+  open_time?: string;
+  close_time?: string;
+  expiration_time?: string;
+  yes_bid?: number;
+  yes_ask?: number;
+  no_bid?: number;
+  no_ask?: number;
+  last_price?: number;
+  previous_price?: number;
+  yes_bid_dollars?: string;
+  yes_ask_dollars?: string;
+  last_price_dollars?: string;
+  volume?: number;
+  volume_24h?: number;
+  open_interest?: number;
+  liquidity?: number;
+  result?: '' | 'yes' | 'no';
+  strike_type?: KalshiStrikeType;
+  floor_strike?: number;
+  cap_strike?: number;
+  custom_strike?: Record<string, string>;
+  rules_primary?: string;
+};
+
+export type KalshiEvent = {
+  event_ticker: string;
+  series_ticker: string;
+  title?: string;
+  sub_title?: string;
+  category?: string;
+  mutually_exclusive?: boolean;
+  strike_date?: string;
+  strike_period?: string;
+  markets?: KalshiMarket[];
+};
+
+export type KalshiCandlestickField = {
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  open_dollars?: string;
+  high_dollars?: string;
+  low_dollars?: string;
+  close_dollars?: string;
+};
+
+export type KalshiCandlestick = {
+  end_period_ts: number;
+  price?: KalshiCandlestickField;
+  yes_bid?: KalshiCandlestickField;
+  yes_ask?: KalshiCandlestickField;
+  volume?: number;
+  volume_fp?: string;
+  open_interest?: number;
+};
+
+export type KalshiTrade = {
+  trade_id: string;
+  ticker: string;
+  count: number;
+  yes_price: number;
+  no_price: number;
+  yes_price_dollars?: string;
+  no_price_dollars?: string;
+  taker_side: 'yes' | 'no';
+  created_time: string;
+};
+
+/** Price levels are `[price in cents, resting contracts]`, ordered from worst to best bid. */
+export type KalshiOrderbookLevel = [number, number];
+
+export type KalshiOrderbook = {
+  yes?: KalshiOrderbookLevel[] | null;
+  no?: KalshiOrderbookLevel[] | null;
+  yes_dollars?: Array<[string, number]> | null;
+  no_dollars?: Array<[string, number]> | null;
+};
+
+export type KalshiCandlestickResponse = {
+  ticker: string;
+  candlesticks: KalshiCandlestick[];
+};
+
+export type KalshiEventResponse = {
+  event: KalshiEvent;
+  markets: KalshiMarket[];
+};
+
+export type KalshiPage<T> = {
+  items: T[];
+  cursor: string | null;
+};
+
+export type KalshiCandlestickParams = {
+  startTs: number;
+  endTs: number;
+  periodInterval: 1 | 60 | 1440;
+  includeLatestBeforeStart?: boolean;
+};
+
+export type KalshiListMarketsParams = {
+  eventTicker?: string;
+  seriesTicker?: string;
+  status?: 'unopened' | 'open' | 'closed' | 'settled';
+  tickers?: string[];
+  limit?: number;
+  cursor?: string;
+};
+
+export type KalshiListEventsParams = {
+  seriesTicker?: string;
+  status?: 'unopened' | 'open' | 'closed' | 'settled';
+  withNestedMarkets?: boolean;
+  limit?: number;
+  cursor?: string;
+};
+
+export type KalshiListTradesParams = {
+  ticker?: string;
+  minTs?: number;
+  maxTs?: number;
+  limit?: number;
+  cursor?: string;
+};
+
+export type KalshiPaginateOptions = {
+  maxPages?: number;
+};
+
+export type KalshiClientOptions = {
+  baseUrl?: string;
+  apiKey?: string;
+};
+
+export type KalshiClient = {
+  baseUrl: string;
+  getSeries: (seriesTicker: string) => Promise<KalshiSeries>;
+  listSeries: (params?: { category?: string }) => Promise<KalshiSeries[]>;
+  getEvent: (eventTicker: string) => Promise<KalshiEventResponse>;
+  listEvents: (params?: KalshiListEventsParams) => Promise<KalshiPage<KalshiEvent>>;
+  listAllEvents: (params?: KalshiListEventsParams, options?: KalshiPaginateOptions) => Promise<KalshiEvent[]>;
+  getMarket: (ticker: string) => Promise<KalshiMarket>;
+  listMarkets: (params?: KalshiListMarketsParams) => Promise<KalshiPage<KalshiMarket>>;
+  listAllMarkets: (params?: KalshiListMarketsParams, options?: KalshiPaginateOptions) => Promise<KalshiMarket[]>;
+  getCandlesticks: (
+    seriesTicker: string,
+    ticker: string,
+    params: KalshiCandlestickParams
+  ) => Promise<KalshiCandlestickResponse>;
+  listTrades: (params?: KalshiListTradesParams) => Promise<KalshiPage<KalshiTrade>>;
+  listAllTrades: (params?: KalshiListTradesParams, options?: KalshiPaginateOptions) => Promise<KalshiTrade[]>;
+  getOrderbook: (ticker: string, depth?: number) => Promise<KalshiOrderbook>;
+};
+
+/**
+ * Returns `baseUrl` as an absolute URL without a trailing slash. A direct Kalshi host gets the
+ * `/trade-api/v2` suffix when it is missing; any other base, such as a custom proxy, is used as given.
+ */
+export function resolveKalshiBaseUrl(baseUrl: string = KALSHI_PROXY_BASE_URL): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  const absolute = /^https?:\/\//i.test(trimmed) ? trimmed : new URL(trimmed || '/', window.location.origin).toString();
+  const normalized = absolute.replace(/\/+$/, '');
+  if (normalized.endsWith(TRADE_API_PATH) || !KALSHI_HOST.test(new URL(normalized).hostname)) return normalized;
+  return `${normalized}${TRADE_API_PATH}`;
+}
+
+export function inferSeriesTicker(marketId: string): string | null {
+  const firstDash = marketId.indexOf('-');
+  if (firstDash <= 0) return null;
+  return marketId.slice(0, firstDash);
+}
+
+export function marketLastPriceCents(market: KalshiMarket): number | null {
+  const dollars = market.last_price_dollars != null ? Number(market.last_price_dollars) : NaN;
+  if (Number.isFinite(dollars)) return dollars * 100;
+  return typeof market.last_price === 'number' ? market.last_price : null;
+}
+
+function setParam(url: URL, key: string, value: string | number | boolean | undefined) {
+  if (value == null || value === '') return;
+  url.searchParams.set(key, String(value));
+}
+
+async function collectPages<T, P extends { cursor?: string }>(
+  fetchPage: (params: P) => Promise<KalshiPage<T>>,
+  params: P,
+  maxPages: number
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor = params.cursor;
+  for (let page = 0; page < maxPages; page += 1) {
+    const result = await fetchPage({ ...params, cursor });
+    items.push(...result.items);
+    if (!result.cursor) break;
+    cursor = result.cursor;
+  }
+  return items;
+}
+
+export function createKalshiClient({ baseUrl, apiKey }: KalshiClientOptions = {}): KalshiClient {
+  const root = resolveKalshiBaseUrl(baseUrl);
+  const headers: Record<string, string> = {};
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const buildUrl = (...segments: string[]) =>
+    new URL(`${root}/${segments.map((s) => encodeURIComponent(s)).join('/')}`);
+
+  const getSeries = async (seriesTicker: string) => {
+    const data = await fetchJsonOrThrow<{ series: KalshiSeries }>(
+      buildUrl('series', seriesTicker),
+      headers,
+      `Kalshi series ${seriesTicker}`
+    );
+    return data.series;
+  };
+
+  const listSeries = async (params: { category?: string } = {}) => {
+    const url = buildUrl('series');
+    setParam(url, 'category', params.category);
+    const data = await fetchJsonOrThrow<{ series?: KalshiSeries[] | null }>(url, headers, 'Kalshi series list');
+    return data.series ?? [];
+  };
+
+  const getEvent = (eventTicker: string) =>
+    fetchJsonOrThrow<KalshiEventResponse>(buildUrl('events', eventTicker), headers, 'Kalshi event markets');
+
+  const listEvents = async (params: KalshiListEventsParams = {}) => {
+    const url = buildUrl('events');
+    setParam(url, 'series_ticker', params.seriesTicker);
+    setParam(url, 'status', params.status);
+    setParam(url, 'with_nested_markets', params.withNestedMarkets);
+    setParam(url, 'limit', params.limit);
+    setParam(url, 'cursor', params.cursor);
+    const data = await fetchJsonOrThrow<{ events?: KalshiEvent[] | null; cursor?: string }>(
+      url,
+      headers,
+      'Kalshi events'
+    );
+    return { items: data.events ?? [], cursor: data.cursor || null };
+  };
+
+  const getMarket = async (ticker: string) => {
+    const data = await fetchJsonOrThrow<{ market: KalshiMarket }>(
+      buildUrl('markets', ticker),
+      headers,
+      `Kalshi market ${ticker}`
+    );
+    return data.market;
+  };
+
+  const listMarkets = async (params: KalshiListMarketsParams = {}) => {
+    const url = buildUrl('markets');
+    setParam(url, 'event_ticker', params.eventTicker);
+    setParam(url, 'series_ticker', params.seriesTicker);
+    setParam(url, 'status', params.status);
+    setParam(url, 'tickers', params.tickers?.join(','));
+    setParam(url, 'limit', params.limit);
+    setParam(url, 'cursor', params.cursor);
+    const data = await fetchJsonOrThrow<{ markets?: KalshiMarket[] | null; cursor?: string }>(
+      url,
+      headers,
+      'Kalshi markets'
+    );
+    return { items: data.markets ?? [], cursor: data.cursor || null };
+  };
+
+  const getCandlesticks = (seriesTicker: string, ticker: string, params: KalshiCandlestickParams) => {
+    const url = buildUrl('series', seriesTicker, 'markets', ticker, 'candlesticks');
+    setParam(url, 'start_ts', params.startTs);
+    setParam(url, 'end_ts', params.endTs);
+    setParam(url, 'period_interval', params.periodInterval);
+    setParam(url, 'include_latest_before_start', params.includeLatestBeforeStart ?? true);
+    return fetchJsonOrThrow<KalshiCandlestickResponse>(url, headers, 'Kalshi candlesticks');
+  };
+
+  const listTrades = async (params: KalshiListTradesParams = {}) => {
+    const url = buildUrl('markets', 'trades');
+    setParam(url, 'ticker', params.ticker);
+    setParam(url, 'min_ts', params.minTs);
+    setParam(url, 'max_ts', params.maxTs);
+    setParam(url, 'limit', params.limit);
+    setParam(url, 'cursor', params.cursor);
+    const data = await fetchJsonOrThrow<{ trades?: KalshiTrade[] | null; cursor?: string }>(
+      url,
+      headers,
+      'Kalshi trades'
+    );
+    return { items: data.trades ?? [], cursor: data.cursor || null };
+  };
+
+  const getOrderbook = async (ticker: string, depth?: number) => {
+    const url = buildUrl('markets', ticker, 'orderbook');
+    setParam(url, 'depth', depth);
+    const data = await fetchJsonOrThrow<{ orderbook: KalshiOrderbook }>(url, headers, 'Kalshi orderbook');
+    return data.orderbook ?? {};
+  };
+
+  return {
+    baseUrl: root,
+    getSeries,
+    listSeries,
+    getEvent,
+    listEvents,
+    listAllEvents: (params = {}, options = {}) => collectPages(listEvents, params, options.maxPages ?? 10),
+    getMarket,
+    listMarkets,
+    listAllMarkets: (params = {}, options = {}) => collectPages(listMarkets, params, options.maxPages ?? 10),
+    getCandlesticks,
+    listTrades,
+    listAllTrades: (params = {}, options = {}) => collectPages(listTrades, params, options.maxPages ?? 10),
+    getOrderbook,
+  };
+}
@@ -0,0 +1,45 @@
+import type { KalshiMarketPriceChartProps } from './KalshiMarketPriceChart';
+
+export type MarketPreset = Omit<KalshiMarketPriceChartProps, 'apiBaseUrl' | 'apiKey'>;
+
+/** Chart configurations for markets that ship with overlays wired up. */
+export const MARKET_PRESETS: Record<string, MarketPreset> = {
+  'CONTROLH-2026-D': {
+    marketId: 'CONTROLH-2026-D',
+    seriesTicker: 'CONTROLH',
+    marketTitle: 'Will Democrats Win the U.S. House in 2026?',
+    newsQuery: '2026 midterm election House majority Democrats Republicans',
+    projectionSeriesTicker: 'KXDHOUSESEATS',
+    projectionEventTicker: 'KXDHOUSESEATS-27',
+    projectionLabel: 'Expected Dem Seats Market',
+    projectionNewsQuery: '2026 House race ratings seat forecast',
+    projectionStrikeKey: 'Seats',
+    projectionUnit: 'seats',
+    projectionAxisLabel: 'Projected Dem Seats',
+    projectionThreshold: 218,
+    projectionThresholdLabel: 'Dem majority',
+    projectionComplement: { total: 435, label: 'Projected Republican Seats' },
+    controlsMarketId: 'CONTROLS-2026-D',
+    controlsSeriesTicker: 'CONTROLS',
+    controlsLabel: 'Democrats Control Senate Market',
+    controlsNewsQuery: '2026 Senate race Democrats Republicans majority',
+    showVolume: true,
+  },
+  'CONTROLS-2026-D': {
+    marketId: 'CONTROLS-2026-D',
+    seriesTicker: 'CONTROLS',
+    marketTitle: 'Will Democrats Win the U.S. Senate in 2026?',
+    newsQuery: '2026 midterm election Senate majority Democrats Republicans',
+    controlsMarketId: 'CONTROLH-2026-D',
+    controlsSeriesTicker: 'CONTROLH',
+    controlsLabel: 'Democrats Control House Market',
+    controlsNewsQuery: '2026 House race Democrats Republicans majority',
+    showVolume: true,
+  },
+};
+
+export const DASHBOARD_MARKETS: string[] = ['CONTROLH-2026-D', 'CONTROLS-2026-D'];
+
+export const DASHBOARD_EVENTS: Array<{ eventTicker: string; label: string }> = [
+  { eventTicker: 'KXDHOUSESEATS-27', label: 'Democratic House seats after the 2026 midterms' },
+];
@@ -0,0 +1,152 @@
+import { toCsv } from './download';
+import type { SeriesPoint } from './indicators';
+import type { NewsHeadline } from './news';
+
+export type MoveMeasure = 'points' | 'zscore';
+
+export type MoveDetectorConfig = {
+  measure: MoveMeasure;
+  /** Probability points or standard deviations, depending on `measure`. */
+  threshold: number;
+  /** Bars the move is measured over, so the wall-clock span follows the timeframe's candle size. */
+  horizonBars: number;
+};
+
+export type DetectedMove = {
+  startTs: number;
+  endTs: number;
+  startValue: number;
+  endValue: number;
+  /** End minus start, in probability points. */
+  change: number;
+  /** `change` against the spread of every other `horizonBars` change in the window; null without variance. */
+  zScore: number | null;
+};
+
+export type AttributedMove = DetectedMove & {
+  headlines: Array<NewsHeadline & { offsetMs: number }>;
+};
+
+export const DEFAULT_MOVE_DETECTOR_CONFIG: MoveDetectorConfig = { measure: 'points', threshold: 5, horizonBars: 3 };
+export const MOVE_HORIZON_RANGE = { min: 1, max: 100 };
+export const MOVE_HEADLINES_PER_MOVE = 3;
+
+/**
+ * Flags every `horizonBars` window whose change clears the threshold, then keeps the largest move out of
+ * each run of overlapping windows, so one jump is reported once instead of once per bar it spans.
+ */
+export function detectMoves(points: SeriesPoint[], config: MoveDetectorConfig): DetectedMove[] {
+  const h = Math.max(1, Math.round(config.horizonBars));
+  const candidates: DetectedMove[] = [];
+  for (let i = h; i < points.length; i += 1) {
+    const start = points[i - h];
+    const end = points[i];
+    candidates.push({
+      startTs: start.timestamp,
+      endTs: end.timestamp,
+      startValue: start.value,
+      endValue: end.value,
+      change: end.value - start.value,
+      zScore: null,
+    });
+  }
+  if (candidates.length === 0) return [];
+
+  const mean = candidates.reduce((acc, m) => acc + m.change, 0) / candidates.length;
+  const sd = Math.sqrt(candidates.reduce((acc, m) => acc + (m.change - mean) ** 2, 0) / candidates.length);
+  if (sd > 0) for (const m of candidates) m.zScore = (m.change - mean) / sd;
+
+  const size = (m: DetectedMove) => Math.abs(config.measure === 'zscore' ? (m.zScore ?? 0) : m.change);
+  const flagged = candidates.filter((m) => size(m) >= config.threshold).sort((a, b) => size(b) - size(a));
+  const kept: DetectedMove[] = [];
+  for (const move of flagged) {
+    if (kept.some((k) => move.startTs < k.endTs && k.startTs < move.endTs)) continue;
+    kept.push(move);
+  }
+  return kept.sort((a, b) => a.startTs - b.startTs);
+}
+
+/**
+ * Nearest headlines to each move by publish time, measured to the move's window (zero inside it).
+ * Headlines further than `maxDistanceMs` away are left out rather than blamed for the move.
+ */
+export function attributeMoves(
+  moves: DetectedMove[],
+  headlines: NewsHeadline[],
+  maxDistanceMs: number,
+  perMove: number = MOVE_HEADLINES_PER_MOVE
+): AttributedMove[] {
+  const dated = headlines
+    .map((h) => ({ ...h, ts: Date.parse(h.pubDate) }))
+    .filter((h) => Number.isFinite(h.ts));
+  return moves.map((move) => {
+    const matches = dated
+      .map(({ ts, ...headline }) => {
+        const offsetMs = ts < move.startTs ? ts - move.startTs : ts > move.endTs ? ts - move.endTs : 0;
+        return { ...headline, offsetMs };
+      })
+      .filter((h) => Math.abs(h.offsetMs) <= maxDistanceMs)
+      .sort((a, b) => Math.abs(a.offsetMs) - Math.abs(b.offsetMs))
+      .slice(0, perMove);
+    return { ...move, headlines: matches };
+  });
+}
+
+/** One row per move; the matched headlines are flattened into numbered columns. */
+export function movesToCsv(
+  marketId: string,
+  moves: AttributedMove[],
+  perMove: number = MOVE_HEADLINES_PER_MOVE
+): string {
+  const headlineColumns = Array.from({ length: perMove }, (_, i) => [
+    `headline_${i + 1}`,
+    `headline_${i + 1}_source`,
+    `headline_${i + 1}_published`,
+    `headline_${i + 1}_link`,
+  ]).flat();
+  const header = [
+    'market',
+    'start',
+    'end',
+    'start_cents',
+    'end_cents',
+    'change_points',
+    'z_score',
+    ...headlineColumns,
+  ];
+  const rows = moves.map((move) => [
+    marketId,
+    new Date(move.startTs).toISOString(),
+    new Date(move.endTs).toISOString(),
+    move.startValue.toFixed(2),
+    move.endValue.toFixed(2),
+    move.change.toFixed(2),
+    move.zScore == null ? null : move.zScore.toFixed(2),
+    ...Array.from({ length: perMove }, (_, i) => {
+      const h = move.headlines[i];
+      return h ? [h.title, h.source ?? '', h.pubDate, h.link] : [null, null, null, null];
+    }).flat(),
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+export function movesToJson(marketId: string, config: MoveDetectorConfig, moves: AttributedMove[]): string {
+  return JSON.stringify(
+    {
+      market: marketId,
+      detector: config,
+      exportedAt: new Date().toISOString(),
+      moves: moves.map((move) => ({
+        start: new Date(move.startTs).toISOString(),
+        end: new Date(move.endTs).toISOString(),
+        startCents: move.startValue,
+        endCents: move.endValue,
+        changePoints: move.change,
+        zScore: move.zScore,
+        headlines: move.headlines,
+      })),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,129 @@
+import { fetchTextOrThrow, resolveEndpointUrl } from './http';
+
+export type NewsHeadline = {
+  title: string;
+  link: string;
+  pubDate: string;
+  source?: string;
+};
+
+/** A headline with the syndicated copies of the same story folded into it. */
+export type NewsStory = NewsHeadline & {
+  /** Other outlets that ran the same story, newest copy first. */
+  duplicates: NewsHeadline[];
+};
+
+export const DEFAULT_NEWS_QUERY = 'US midterm election Congress House Senate';
+export const DEFAULT_NEWS_ENDPOINT = '/api/news/rss/search';
+
+function decodeHtmlEntities(value: string): string {
+  if (typeof window === 'undefined') return value;
+  const doc = new DOMParser().parseFromString(value, 'text/html');
+  return (doc.documentElement.textContent || '').trim();
+}
+
+function toIsoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * Fetches one page of the Google News RSS search. Google returns at most ~100 items per query and has
+ * no offset parameter, so older pages are requested by narrowing the query with `before:YYYY-MM-DD`.
+ */
+export async function fetchNewsHeadlines(
+  query: string,
+  { before, endpoint = DEFAULT_NEWS_ENDPOINT }: { before?: string; endpoint?: string } = {}
+): Promise<NewsHeadline[]> {
+  const url = resolveEndpointUrl(endpoint);
+  url.searchParams.set('q', before ? `${query} before:${before}` : query);
+  url.searchParams.set('hl', 'en-US');
+  url.searchParams.set('gl', 'US');
+  url.searchParams.set('ceid', 'US:en');
+
+  const xmlText = await fetchTextOrThrow(url, {}, 'news feed');
+  const xml = new DOMParser().parseFromString(xmlText, 'application/xml');
+  const parseError = xml.querySelector('parsererror');
+  if (parseError) throw new Error('Invalid RSS XML in news feed.');
+
+  return Array.from(xml.querySelectorAll('item'))
+    .map((item): NewsHeadline | null => {
+      const title = decodeHtmlEntities(item.querySelector('title')?.textContent || '');
+      const link = item.querySelector('link')?.textContent?.trim() || '';
+      const pubDate = item.querySelector('pubDate')?.textContent?.trim() || '';
+      const source = item.querySelector('source')?.textContent?.trim() || undefined;
+      if (!title || !link) return null;
+      return { title, link, pubDate, source };
+    })
+    .filter((h): h is NewsHeadline => h !== null)
+    .sort((a, b) => (Date.parse(b.pubDate) || 0) - (Date.parse(a.pubDate) || 0));
+}
+
+/**
+ * `before:` value for the page after `page`, or undefined once a page comes back empty or would not
+ * reach further back than `previousBefore` (the operator only has day resolution).
+ */
+export function nextNewsPageBefore(page: NewsHeadline[], previousBefore?: string): string | undefined {
+  const times = page.map((h) => Date.parse(h.pubDate)).filter(Number.isFinite);
+  if (times.length === 0) return undefined;
+  const next = toIsoDate(Math.min(...times));
+  return previousBefore && next >= previousBefore ? undefined : next;
+}
+
+// Google News titles end with " - Outlet", and syndicated copies differ only in that suffix, casing or
+// punctuation.
+function storyKey(headline: NewsHeadline): string {
+  let title = headline.title;
+  if (headline.source && title.endsWith(` - ${headline.source}`)) {
+    title = title.slice(0, -(headline.source.length + 3));
+  } else {
+    title = title.replace(/\s+[-–—|]\s+[^-–—|]+$/, '');
+  }
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Groups syndicated copies of a story under its newest headline, keeping the input's order. */
+export function dedupeHeadlines(headlines: NewsHeadline[]): NewsStory[] {
+  const stories: NewsStory[] = [];
+  const byKey = new Map<string, NewsStory>();
+  const seenLinks = new Set<string>();
+  for (const headline of headlines) {
+    if (seenLinks.has(headline.link)) continue;
+    seenLinks.add(headline.link);
+    const key = storyKey(headline);
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.duplicates.push(headline);
+      continue;
+    }
+    const story: NewsStory = { ...headline, duplicates: [] };
+    byKey.set(key, story);
+    stories.push(story);
+  }
+  return stories;
+}
+
+/** Every whitespace-separated keyword has to appear in the title or one of the outlets. */
+export function filterStories(stories: NewsStory[], keywords: string): NewsStory[] {
+  const terms = keywords.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return stories;
+  return stories.filter((story) => {
+    const haystack = [story.title, story.source, ...story.duplicates.map((d) => d.source)]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+export function formatHeadlineAge(pubDate: string, nowMs: number): string {
+  const ts = Date.parse(pubDate);
+  if (!Number.isFinite(ts)) return '';
+  const minutes = Math.max(0, Math.round((nowMs - ts) / 60_000));
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
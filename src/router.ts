@@ -0,0 +1,67 @@
+import { useSyncExternalStore } from 'react';
+
+export type AppRoute =
+  | { name: 'dashboard' }
+  | { name: 'market'; ticker: string }
+  | { name: 'event'; eventTicker: string }
+  | { name: 'embed' }
+  | { name: 'not-found'; pathname: string };
+
+const LOCATION_CHANGE_EVENT = 'app:locationchange';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(LOCATION_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(LOCATION_CHANGE_EVENT, onChange);
+  };
+}
+
+function getLocationSnapshot(): string {
+  return `${window.location.pathname}${window.location.search}`;
+}
+
+/** Re-renders on pushState/replaceState done through `navigate` and on back/forward. */
+export function useLocation(): { pathname: string; search: string } {
+  const href = useSyncExternalStore(subscribe, getLocationSnapshot, () => '/');
+  const url = new URL(href, 'http://local');
+  return { pathname: url.pathname, search: url.search };
+}
+
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}) {
+  if (to === getLocationSnapshot()) return;
+  if (replace) window.history.replaceState(null, '', to);
+  else window.history.pushState(null, '', to);
+  window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+}
+
+export function marketPath(ticker: string): string {
+  return `/market/${encodeURIComponent(ticker)}`;
+}
+
+export function eventPath(eventTicker: string): string {
+  return `/event/${encodeURIComponent(eventTicker)}`;
+}
+
+// A malformed escape such as `%E0%A4%A` makes decodeURIComponent throw; that path is simply not a route.
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+export function matchRoute(pathname: string): AppRoute {
+  const clean = pathname.replace(/\/+$/, '') || '/';
+  if (clean === '/') return { name: 'dashboard' };
+  if (clean === '/embed') return { name: 'embed' };
+  const market = clean.match(/^\/market\/([^/]+)$/);
+  const ticker = market && decodeSegment(market[1]);
+  if (ticker) return { name: 'market', ticker: ticker.toUpperCase() };
+  const event = clean.match(/^\/event\/([^/]+)$/);
+  const eventTicker = event && decodeSegment(event[1]);
+  if (eventTicker) return { name: 'event', eventTicker: eventTicker.toUpperCase() };
+  return { name: 'not-found', pathname };
+}
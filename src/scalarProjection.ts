@@ -0,0 +1,288 @@
+import type { KalshiEvent, KalshiMarket } from './kalshiClient';
+
+/**
+ * How an event's strikes pay out: `bucket` markets are mutually exclusive outcomes, while `atLeast`
+ * ("N or more") and `atMost` ("N or fewer") markets are cumulative thresholds.
+ */
+export type StrikeLayout = 'bucket' | 'atLeast' | 'atMost';
+
+/**
+ * One market on the strike ladder. For thresholds `value` is the inclusive edge of YES, so a strict
+ * "more than 217" on whole-number strikes is stored as 218. Buckets carry their range in `low`/`high`; the
+ * open-ended tails of a range ladder have null on their open side.
+ */
+export type ScalarStrike = { ticker: string; value: number; low: number | null; high: number | null };
+
+export type StrikeBin = {
+  /** Representative value: the range midpoint, or the known edge of an open-ended tail. */
+  value: number;
+  probability: number;
+  /** Range the mass covers; null on the open side of a tail. */
+  low: number | null;
+  high: number | null;
+};
+
+export type ScalarDistribution = {
+  layout: StrikeLayout;
+  /** 1 when every strike is a whole number (seat counts), so ranges are inclusive; 0 for continuous values. */
+  step: 0 | 1;
+  /** Sorted by value; probabilities are normalized to sum to 1. */
+  bins: StrikeBin[];
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  /** Probability of reaching the configured threshold; null when there is none. */
+  thresholdProbability: number | null;
+  /** False when cumulative prices step the wrong way, i.e. some ranges imply negative probability. */
+  monotonic: boolean;
+};
+
+export type ScalarBandPoint = { timestamp: number } & Omit<ScalarDistribution, 'bins'>;
+
+// Cumulative ladders within a cent of each other are treated as flat, not inverted; last trades on
+// neighbouring strikes are rarely simultaneous.
+const MONOTONIC_TOLERANCE = 0.01;
+
+const AT_LEAST_TEXT = /\b(or more|or above|at least|and above)\b|\d\s*\+/i;
+const AT_MOST_TEXT = /\b(or fewer|or less|or below|at most|and below)\b/i;
+
+function marketText(market: KalshiMarket): string {
+  return [market.yes_sub_title, market.subtitle, market.title].filter(Boolean).join(' ');
+}
+
+/**
+ * Reads the payout structure from the metadata: explicit `strike_type`s first, then the wording of the
+ * YES side, then the event's `mutually_exclusive` flag. Events that say nothing are treated as buckets,
+ * which is how the seat projection has always read them.
+ */
+export function detectStrikeLayout(event: KalshiEvent | undefined, markets: KalshiMarket[]): StrikeLayout {
+  const types = new Set(markets.map((m) => m.strike_type).filter(Boolean));
+  if (types.size > 0 && [...types].every((t) => t === 'greater' || t === 'greater_or_equal')) return 'atLeast';
+  if (types.size > 0 && [...types].every((t) => t === 'less' || t === 'less_or_equal')) return 'atMost';
+  if (types.size > 0 && [...types].every((t) => t === 'between')) return 'bucket';
+
+  const texts = markets.map(marketText);
+  if (texts.length > 0 && texts.every((t) => AT_LEAST_TEXT.test(t))) return 'atLeast';
+  if (texts.length > 0 && texts.every((t) => AT_MOST_TEXT.test(t))) return 'atMost';
+
+  if (event?.mutually_exclusive === false) {
+    return texts.some((t) => AT_MOST_TEXT.test(t)) ? 'atMost' : 'atLeast';
+  }
+  return 'bucket';
+}
+
+/** Which open-ended tail a market in a bucket ladder is, if any: its strike type first, then its wording. */
+function tailSide(market: KalshiMarket, floor: number | null, cap: number | null): 'below' | 'above' | null {
+  if (market.strike_type === 'less' || market.strike_type === 'less_or_equal') return 'below';
+  if (market.strike_type === 'greater' || market.strike_type === 'greater_or_equal') return 'above';
+  if (market.strike_type === 'between') return null;
+  if (cap != null && floor == null) return 'below';
+  if (floor != null && cap == null) return 'above';
+  const text = marketText(market);
+  if (AT_MOST_TEXT.test(text)) return 'below';
+  if (AT_LEAST_TEXT.test(text)) return 'above';
+  return null;
+}
+
+function isWhole(value: number | null): boolean {
+  return value == null || Number.isInteger(value);
+}
+
+function toNumber(value: unknown): number | null {
+  const n = value != null && value !== '' ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * The market's number under `custom_strike[strikeKey]`, matched case-insensitively. Without a key the
+ * market's only numeric custom strike is used, which covers events that name it Seats, Margin, Turnout...
+ */
+function customStrike(market: KalshiMarket, strikeKey?: string): number | null {
+  const entries = Object.entries(market.custom_strike ?? {});
+  if (strikeKey) {
+    const wanted = strikeKey.toLowerCase();
+    return toNumber(entries.find(([key]) => key.toLowerCase() === wanted)?.[1]);
+  }
+  const numeric = entries.map(([, value]) => toNumber(value)).filter((n): n is number => n != null);
+  return numeric.length === 1 ? numeric[0] : null;
+}
+
+/** Numeric strikes of an event with their layout; markets without a usable number are dropped. */
+export function readScalarStrikes(
+  event: KalshiEvent | undefined,
+  markets: KalshiMarket[],
+  strikeKey?: string
+): { layout: StrikeLayout; strikes: ScalarStrike[] } {
+  const layout = detectStrikeLayout(event, markets);
+  const raw = markets.map((m) => ({
+    market: m,
+    custom: customStrike(m, strikeKey),
+    floor: toNumber(m.floor_strike),
+    cap: toNumber(m.cap_strike),
+  }));
+  const whole = raw.every(({ custom, floor, cap }) => isWhole(custom) && isWhole(floor) && isWhole(cap));
+
+  const strikes: ScalarStrike[] = [];
+  for (const { market: m, custom, floor, cap } of raw) {
+    // Range ladders usually end in "below X" and "above Y" markets; those keep their mass on an open tail.
+    const tail = layout === 'bucket' ? tailSide(m, floor, cap) : null;
+    if (layout === 'atLeast' || tail === 'above') {
+      const edge = custom ?? floor;
+      if (edge == null) continue;
+      // A strict "greater than" on a whole-number floor strike starts one higher.
+      const value = custom == null && whole && m.strike_type === 'greater' ? edge + 1 : edge;
+      strikes.push({ ticker: m.ticker, value, low: value, high: null });
+    } else if (layout === 'atMost' || tail === 'below') {
+      const edge = custom ?? cap;
+      if (edge == null) continue;
+      const value = custom == null && whole && m.strike_type === 'less' ? edge - 1 : edge;
+      strikes.push({ ticker: m.ticker, value, low: null, high: value });
+    } else {
+      const low = floor ?? custom;
+      const high = cap ?? custom;
+      const value = custom ?? (low != null && high != null ? (low + high) / 2 : null);
+      if (value == null) continue;
+      strikes.push({ ticker: m.ticker, value, low: low ?? value, high: high ?? value });
+    }
+  }
+  strikes.sort((a, b) => a.value - b.value);
+  return { layout, strikes };
+}
+
+/**
+ * Differences a cumulative ladder into the mass of each range. Whole-number ladders get inclusive ranges
+ * ([t_i, t_i+1 - 1]); continuous ones share their edges. Masses are returned raw, possibly negative, so
+ * the caller can tell whether the ladder was monotonic.
+ */
+function cumulativeToBins(
+  layout: 'atLeast' | 'atMost',
+  ladder: Array<{ value: number; probability: number }>,
+  step: 0 | 1
+): StrikeBin[] {
+  const bins: StrikeBin[] = [];
+  const n = ladder.length;
+  const mid = (low: number, high: number) => (low + high) / 2;
+  if (layout === 'atLeast') {
+    // P(X >= t_i) - P(X >= t_i+1) is the mass between the two strikes; the tails sit on their known edge.
+    const below = ladder[0].value - step;
+    bins.push({ value: below, probability: 1 - ladder[0].probability, low: null, high: below });
+    for (let i = 0; i < n; i += 1) {
+      const low = ladder[i].value;
+      const next = ladder[i + 1];
+      const high = next ? next.value - step : null;
+      bins.push({
+        value: high == null ? low : mid(low, high),
+        probability: ladder[i].probability - (next?.probability ?? 0),
+        low,
+        high,
+      });
+    }
+  } else {
+    for (let i = 0; i < n; i += 1) {
+      const high = ladder[i].value;
+      const prev = ladder[i - 1];
+      const low = prev ? prev.value + step : null;
+      bins.push({
+        value: low == null ? high : mid(low, high),
+        probability: ladder[i].probability - (prev?.probability ?? 0),
+        low,
+        high,
+      });
+    }
+    const above = ladder[n - 1].value + step;
+    bins.push({ value: above, probability: 1 - ladder[n - 1].probability, low: above, high: null });
+  }
+  return bins;
+}
+
+/** Representative value of the first bin whose cumulative probability reaches `q`; whole numbers stay whole. */
+function percentile(bins: StrikeBin[], q: number, step: 0 | 1): number {
+  let cumulative = 0;
+  let hit = bins[bins.length - 1].value;
+  for (const bin of bins) {
+    cumulative += bin.probability;
+    if (cumulative >= q - 1e-9) {
+      hit = bin.value;
+      break;
+    }
+  }
+  return step === 1 ? Math.round(hit) : hit;
+}
+
+/** Mass at or above `threshold`; a bounded range that straddles it is split evenly across the range. */
+function massAtOrAbove(bins: StrikeBin[], threshold: number, step: 0 | 1): number {
+  let total = 0;
+  for (const bin of bins) {
+    if (bin.low != null && bin.low >= threshold) total += bin.probability;
+    else if (bin.low != null && bin.high != null && bin.high >= threshold) {
+      total += (bin.probability * (bin.high - threshold + step)) / (bin.high - bin.low + step);
+    } else if (bin.low == null && bin.value >= threshold) total += bin.probability;
+  }
+  return total;
+}
+
+/**
+ * Turns the strike prices into a probability mass. Cumulative ladders are differenced; any range that
+ * comes out negative is zeroed and the distribution flagged. Prices rarely sum to exactly 1 (spread,
+ * stale last trades), so the result is rescaled the same way the expected-seats mean always was.
+ * Returns null when nothing has a price yet.
+ */
+export function buildScalarDistribution(
+  entries: Array<ScalarStrike & { probability: number }>,
+  layout: StrikeLayout = 'bucket',
+  threshold?: number
+): ScalarDistribution | null {
+  const priced = entries
+    .filter((e) => Number.isFinite(e.probability) && e.probability >= 0)
+    .sort((a, b) => a.value - b.value);
+  if (priced.length === 0) return null;
+
+  const step = priced.every((e) => isWhole(e.value) && isWhole(e.low) && isWhole(e.high)) ? 1 : 0;
+  const raw =
+    layout === 'bucket'
+      ? priced.map((e) => ({ value: e.value, probability: e.probability, low: e.low, high: e.high }))
+      : cumulativeToBins(layout, priced, step);
+  const monotonic = layout === 'bucket' || raw.every((b) => b.probability >= -MONOTONIC_TOLERANCE);
+  const clamped = raw.map((b) => ({ ...b, probability: Math.max(0, b.probability) }));
+  const total = clamped.reduce((sum, b) => sum + b.probability, 0);
+  if (total <= 0) return null;
+
+  const bins = clamped
+    .map((b) => ({ ...b, probability: b.probability / total }))
+    .sort((a, b) => a.value - b.value);
+  return {
+    layout,
+    step,
+    bins,
+    mean: bins.reduce((sum, b) => sum + b.value * b.probability, 0),
+    p10: percentile(bins, 0.1, step),
+    p50: percentile(bins, 0.5, step),
+    p90: percentile(bins, 0.9, step),
+    thresholdProbability: threshold == null ? null : massAtOrAbove(bins, threshold, step),
+    monotonic,
+  };
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(2)));
+}
+
+/** A projected value with its unit: "212.4 seats", "3.1%", or the bare number. */
+export function formatScalar(value: number, unit?: string, digits = 1): string {
+  const text = value.toFixed(digits);
+  if (!unit) return text;
+  return unit === '%' ? `${text}%` : `${text} ${unit}`;
+}
+
+/** Histogram label for a bin: a single value, a range, or an open-ended tail. */
+export function strikeBinLabel(bin: StrikeBin, step: 0 | 1): string {
+  if (bin.low == null && bin.high != null) return `${step === 1 ? '≤' : '<'}${formatNumber(bin.high)}`;
+  if (bin.high == null && bin.low != null) {
+    return step === 1 ? `${formatNumber(bin.low)}+` : `≥${formatNumber(bin.low)}`;
+  }
+  if (bin.low != null && bin.high != null && bin.low !== bin.high) {
+    return `${formatNumber(bin.low)}–${formatNumber(bin.high)}`;
+  }
+  return formatNumber(bin.value);
+}
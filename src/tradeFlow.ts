@@ -0,0 +1,99 @@
+import type { KalshiClient, KalshiTrade } from './kalshiClient';
+
+export type TakerFlowBucket = {
+  timestamp: number;
+  buyVolume: number;
+  sellVolume: number;
+  net: number;
+  /** False for periods older than the fetched fills reach, where zero flow would be missing data. */
+  complete: boolean;
+};
+
+export type TradeWindow = {
+  trades: KalshiTrade[];
+  /** Fills are complete after this time: the window start, or the oldest fill when the page cap was hit. */
+  coveredFromMs: number;
+  truncated: boolean;
+};
+
+export function tradeTimestamp(trade: KalshiTrade): number {
+  return new Date(trade.created_time).getTime();
+}
+
+export function tradeYesPrice(trade: KalshiTrade): number {
+  const dollars = trade.yes_price_dollars != null ? Number(trade.yes_price_dollars) : NaN;
+  return Number.isFinite(dollars) ? dollars * 100 : trade.yes_price;
+}
+
+/**
+ * Fills of `ticker` between `startMs` and `endMs`, newest first. A busy market can have more fills than
+ * `maxPages` pages hold; the result then says how far back it is complete instead of passing for the whole window.
+ */
+export async function fetchTradeWindow(
+  client: KalshiClient,
+  ticker: string,
+  startMs: number,
+  endMs: number,
+  maxPages = 10
+): Promise<TradeWindow> {
+  const trades: KalshiTrade[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < maxPages; page += 1) {
+    const result = await client.listTrades({
+      ticker,
+      minTs: Math.floor(startMs / 1000),
+      maxTs: Math.floor(endMs / 1000),
+      limit: 1000,
+      cursor,
+    });
+    trades.push(...result.items);
+    if (!result.cursor) return { trades, coveredFromMs: startMs, truncated: false };
+    cursor = result.cursor;
+  }
+  const oldest = trades.reduce((min, trade) => Math.min(min, tradeTimestamp(trade)), endMs);
+  return { trades, coveredFromMs: Math.max(startMs, oldest), truncated: true };
+}
+
+/**
+ * Buckets fills into the candle periods ending at `candleTimestamps` (ascending). A YES taker lifts
+ * the offer and counts as buying pressure; a NO taker hits the YES bid and counts as selling. Periods
+ * that start before `coveredFromMs` are marked incomplete.
+ */
+export function bucketNetTakerFlow(
+  trades: KalshiTrade[],
+  candleTimestamps: number[],
+  coveredFromMs = -Infinity
+): TakerFlowBucket[] {
+  const buckets = candleTimestamps.map((timestamp, i) => ({
+    timestamp,
+    buyVolume: 0,
+    sellVolume: 0,
+    net: 0,
+    complete: (i > 0 ? candleTimestamps[i - 1] : -Infinity) >= coveredFromMs,
+  }));
+  if (buckets.length === 0) return buckets;
+
+  for (const trade of trades) {
+    const ts = tradeTimestamp(trade);
+    if (!Number.isFinite(ts)) continue;
+    let lo = 0;
+    let hi = candleTimestamps.length - 1;
+    let idx = -1;
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (candleTimestamps[mid] >= ts) {
+        idx = mid;
+        hi = mid - 1;
+      } else {
+        lo = mid + 1;
+      }
+    }
+    if (idx < 0) continue;
+    const bucket = buckets[idx];
+    if (trade.taker_side === 'yes') bucket.buyVolume += trade.count;
+    else bucket.sellVolume += trade.count;
+    bucket.net = bucket.buyVolume - bucket.sellVolume;
+  }
+
+  return buckets;
+}
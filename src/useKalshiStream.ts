@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { resolveEndpointUrl } from './http';
+
+export type KalshiStreamStatus = 'off' | 'connecting' | 'open' | 'error';
+
+export type KalshiStreamTick = {
+  kind: 'ticker' | 'trade';
+  ticker: string;
+  /** Last traded YES price as a 0..1 probability. */
+  price: number;
+  timestamp: number;
+  /** Contracts filled by this message; always 0 for ticker updates. */
+  count: number;
+  yesBid?: number;
+  yesAsk?: number;
+  takerSide?: 'yes' | 'no';
+};
+
+type RelayTickerMessage = {
+  market_ticker?: string;
+  price?: number;
+  price_dollars?: string;
+  yes_bid?: number;
+  yes_ask?: number;
+  ts?: number;
+};
+
+type RelayTradeMessage = {
+  market_ticker?: string;
+  yes_price?: number;
+  yes_price_dollars?: string;
+  count?: number;
+  taker_side?: 'yes' | 'no';
+  ts?: number;
+};
+
+function centsOrDollars(cents?: number, dollars?: string): number | null {
+  const fromDollars = dollars != null ? Number(dollars) : NaN;
+  if (Number.isFinite(fromDollars)) return fromDollars;
+  return typeof cents === 'number' && Number.isFinite(cents) ? cents / 100 : null;
+}
+
+function toTimestamp(ts?: number): number {
+  return typeof ts === 'number' && Number.isFinite(ts) ? ts * 1000 : Date.now();
+}
+
+function parseTicker(data: string): KalshiStreamTick | null {
+  const msg = JSON.parse(data) as RelayTickerMessage;
+  const price = centsOrDollars(msg.price, msg.price_dollars);
+  if (!msg.market_ticker || price == null) return null;
+  return {
+    kind: 'ticker',
+    ticker: msg.market_ticker,
+    price,
+    timestamp: toTimestamp(msg.ts),
+    count: 0,
+    yesBid: centsOrDollars(msg.yes_bid) ?? undefined,
+    yesAsk: centsOrDollars(msg.yes_ask) ?? undefined,
+  };
+}
+
+function parseTrade(data: string): KalshiStreamTick | null {
+  const msg = JSON.parse(data) as RelayTradeMessage;
+  const price = centsOrDollars(msg.yes_price, msg.yes_price_dollars);
+  if (!msg.market_ticker || price == null) return null;
+  return {
+    kind: 'trade',
+    ticker: msg.market_ticker,
+    price,
+    timestamp: toTimestamp(msg.ts),
+    count: Number(msg.count ?? 0) || 0,
+    takerSide: msg.taker_side,
+  };
+}
+
+/**
+ * Subscribes to the `/api/kalshi-stream` SSE relay for the given tickers. EventSource reconnects on
+ * its own when the relay recycles its serverless invocation, so callers only see `error` when the
+ * relay is unreachable or misconfigured and should keep polling in that case.
+ */
+export function useKalshiStream({
+  enabled,
+  endpoint,
+  tickers,
+  onTick,
+}: {
+  enabled: boolean;
+  endpoint: string;
+  tickers: string[];
+  onTick: (tick: KalshiStreamTick) => void;
+}): KalshiStreamStatus {
+  const tickerKey = tickers.filter(Boolean).join(',');
+  const connectionKey = `${endpoint}|${tickerKey}`;
+  const [state, setState] = useState<{ key: string; status: KalshiStreamStatus }>({ key: '', status: 'off' });
+  const onTickRef = useRef(onTick);
+
+  useEffect(() => {
+    onTickRef.current = onTick;
+  }, [onTick]);
+
+  useEffect(() => {
+    if (!enabled || !tickerKey || typeof EventSource === 'undefined') return;
+
+    const url = resolveEndpointUrl(endpoint);
+    url.searchParams.set('tickers', tickerKey);
+    const source = new EventSource(url.toString());
+    let failures = 0;
+    const setStatus = (status: KalshiStreamStatus) => setState({ key: connectionKey, status });
+
+    const handle = (parse: (data: string) => KalshiStreamTick | null) => (event: MessageEvent<string>) => {
+      try {
+        const tick = parse(event.data);
+        if (tick) onTickRef.current(tick);
+      } catch {
+        // Ignore malformed relay frames; the next poll will resync the candles.
+      }
+    };
+
+    source.addEventListener('open', () => {
+      failures = 0;
+      setStatus('open');
+    });
+    source.addEventListener('ticker', handle(parseTicker) as EventListener);
+    source.addEventListener('trade', handle(parseTrade) as EventListener);
+    source.addEventListener('error', () => {
+      failures += 1;
+      if (source.readyState === EventSource.CLOSED || failures >= 3) {
+        setStatus('error');
+        source.close();
+      } else {
+        setStatus('connecting');
+      }
+    });
+
+    return () => source.close();
+  }, [enabled, endpoint, tickerKey, connectionKey]);
+
+  if (!enabled || !tickerKey) return 'off';
+  return state.key === connectionKey ? state.status : 'connecting';
+}
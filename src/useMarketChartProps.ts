@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import type { KalshiClient } from './kalshiClient';
+import { MARKET_PRESETS } from './markets';
+
+/**
+ * Chart props for a ticker: the curated preset when there is one, otherwise the market's title and
+ * its real series (via the parent event), which the candlesticks endpoint needs. Null while loading.
+ */
+export function useMarketChartProps(client: KalshiClient, ticker: string) {
+  const preset = MARKET_PRESETS[ticker];
+
+  const marketQuery = useQuery({
+    queryKey: ['market-page-market', client.baseUrl, ticker],
+    queryFn: async () => {
+      const market = await client.getMarket(ticker);
+      const { event } = await client.getEvent(market.event_ticker);
+      return { market, seriesTicker: event.series_ticker };
+    },
+    staleTime: 10 * 60_000,
+    retry: 1,
+    enabled: !preset,
+  });
+
+  const chartProps =
+    preset ??
+    (marketQuery.data
+      ? {
+          marketId: ticker,
+          seriesTicker: marketQuery.data.seriesTicker,
+          marketTitle: marketQuery.data.market.title,
+          showVolume: true,
+        }
+      : null);
+
+  return { chartProps, marketQuery };
+}
@@ -0,0 +1,69 @@
+import { createRoot, type Root } from 'react-dom/client';
+import ChartWidget from './ChartWidget';
+import { parseEmbedOptions, type EmbedEvent, type EmbedParams } from './embed';
+
+// Relative `/api/*` calls go back to the deployment that served this script, not to the host page.
+const SCRIPT_ORIGIN = new URL(import.meta.url).origin;
+
+const OPTION_ATTRIBUTES = [
+  'ticker',
+  'timeframe',
+  'from',
+  'to',
+  'overlays',
+  'compare',
+  'fred',
+  'style',
+  'source',
+  'theme',
+  'accent',
+  'height',
+] as const;
+
+/**
+ * `<kalshi-chart ticker="..." timeframe="30D" theme="light">` takes the same options as the `/embed`
+ * route as attributes, plus `api-origin` to point at another deployment. Events are dispatched on the
+ * element as `kalshi-chart:<type>` (ready, price, view, error) with the payload in `detail`.
+ */
+class KalshiChartElement extends HTMLElement {
+  static observedAttributes = [...OPTION_ATTRIBUTES, 'api-origin'];
+
+  private root: Root | null = null;
+
+  private readonly emit = (event: EmbedEvent) => {
+    this.dispatchEvent(new CustomEvent(`kalshi-chart:${event.type}`, { detail: event, bubbles: true, composed: true }));
+  };
+
+  connectedCallback() {
+    if (!this.root) {
+      const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = ':host { display: block; height: 420px; } * { box-sizing: border-box; }';
+      const container = document.createElement('div');
+      container.style.height = '100%';
+      shadow.replaceChildren(style, container);
+      this.root = createRoot(container);
+    }
+    this.renderWidget();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    if (this.root) this.renderWidget();
+  }
+
+  private renderWidget() {
+    const params: EmbedParams = {};
+    for (const name of OPTION_ATTRIBUTES) params[name] = this.getAttribute(name);
+    const options = parseEmbedOptions(params);
+    const apiOrigin = (this.getAttribute('api-origin') || SCRIPT_ORIGIN).replace(/\/+$/, '');
+    this.style.height = options.height ? `${options.height}px` : '';
+    this.root?.render(<ChartWidget options={options} onEvent={this.emit} apiOrigin={apiOrigin} />);
+  }
+}
+
+if (!customElements.get('kalshi-chart')) customElements.define('kalshi-chart', KalshiChartElement);
@@ -0,0 +1,129 @@
+import { normalizeChartViewState, type ChartViewState } from './chartViewState';
+
+export type ChartWorkspace = {
+  id: string;
+  name: string;
+  marketId: string;
+  view: ChartViewState;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type WorkspaceFile = {
+  kind: typeof WORKSPACE_FILE_KIND;
+  version: 1;
+  workspaces: ChartWorkspace[];
+};
+
+const DB_NAME = 'kalshi-chart';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspaces';
+const WORKSPACE_FILE_KIND = 'kalshi-chart-workspaces';
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Saved workspaces need IndexedDB, which this browser does not provide.'));
+  }
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the workspace database.'));
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error ?? new Error('Workspace database request failed.'));
+      tx.onabort = () => reject(tx.error ?? new Error('Workspace database request was aborted.'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function listWorkspaces(): Promise<ChartWorkspace[]> {
+  const rows = await withStore<ChartWorkspace[]>('readonly', (store) => store.getAll());
+  return rows.sort((a, b) => a.name.localeCompare(b.name) || a.createdAt - b.createdAt);
+}
+
+export async function saveWorkspace(workspace: ChartWorkspace): Promise<void> {
+  await withStore('readwrite', (store) => store.put(workspace));
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Saves workspaces read from a file and returns them as stored. One whose id is already taken, such as an
+ * older export of a workspace edited since, is added under a new id instead of overwriting the local copy.
+ */
+export async function importWorkspaces(imported: ChartWorkspace[]): Promise<ChartWorkspace[]> {
+  const taken = new Set((await listWorkspaces()).map((w) => w.id));
+  const saved: ChartWorkspace[] = [];
+  for (const workspace of imported) {
+    const next = taken.has(workspace.id) ? { ...workspace, id: createWorkspaceId() } : workspace;
+    taken.add(next.id);
+    await saveWorkspace(next);
+    saved.push(next);
+  }
+  return saved;
+}
+
+export function createWorkspaceId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function workspacesToJson(workspaces: ChartWorkspace[]): string {
+  const file: WorkspaceFile = { kind: WORKSPACE_FILE_KIND, version: 1, workspaces };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads a file written by `workspacesToJson`. Views are re-validated because the file may have been
+ * edited by hand or produced by an older build; entries without a name or market are dropped.
+ */
+export function parseWorkspacesJson(text: string): ChartWorkspace[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Workspace file is not valid JSON.');
+  }
+  const file = (parsed && typeof parsed === 'object' ? parsed : {}) as Partial<WorkspaceFile>;
+  if (file.kind !== WORKSPACE_FILE_KIND || !Array.isArray(file.workspaces)) {
+    throw new Error('Not a chart workspace file.');
+  }
+
+  const now = Date.now();
+  const workspaces = file.workspaces.flatMap((entry): ChartWorkspace[] => {
+    const raw = (entry && typeof entry === 'object' ? entry : {}) as Partial<Record<keyof ChartWorkspace, unknown>>;
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    const marketId = typeof raw.marketId === 'string' ? raw.marketId.trim().toUpperCase() : '';
+    if (!name || !marketId) return [];
+    return [
+      {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : createWorkspaceId(),
+        name,
+        marketId,
+        view: normalizeChartViewState(raw.view),
+        createdAt: Number.isFinite(Number(raw.createdAt)) ? Number(raw.createdAt) : now,
+        updatedAt: now,
+      },
+    ];
+  });
+  if (workspaces.length === 0) throw new Error('Workspace file has no usable workspaces.');
+  return workspaces;
+}
@@ -6,6 +6,11 @@ export default defineConfig({
   plugins: [react()],
   server: {
     proxy: {
+      // Served by `npm run api:local`; must precede '/api/kalshi', which would otherwise match it.
+      '/api/kalshi-stream': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+      },
       '/api/kalshi': {
         target: 'https://api.elections.kalshi.com',
         changeOrigin: true,
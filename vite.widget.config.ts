@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// Builds the <kalshi-chart> web component as one self-contained ES module at dist/widget/kalshi-chart.js,
+// which partner pages load with <script type="module">.
+export default defineConfig({
+  plugins: [react()],
+  // Library builds leave process.env alone; React needs it resolved to drop its development code.
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist/widget',
+    copyPublicDir: false,
+    lib: {
+      entry: 'src/widget.tsx',
+      formats: ['es'],
+      fileName: () => 'kalshi-chart.js',
+    },
+  },
+})